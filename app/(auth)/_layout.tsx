@@ -0,0 +1,22 @@
+import { Stack } from 'expo-router';
+
+import { useTranslator } from '@/hooks/useTranslator';
+
+export default function AuthLayout() {
+  const { t } = useTranslator();
+
+  return (
+    <Stack>
+      <Stack.Screen name="sign-up" options={{ title: t('auth.screens.signUp') }} />
+      <Stack.Screen
+        name="change-password"
+        options={{ title: t('auth.screens.changePassword') }}
+      />
+      <Stack.Screen
+        name="forgot-password"
+        options={{ title: t('auth.screens.forgotPassword') }}
+      />
+      <Stack.Screen name="reset-password" options={{ title: t('auth.screens.resetPassword') }} />
+    </Stack>
+  );
+}
@@ -0,0 +1,11 @@
+import { router } from 'expo-router';
+
+import { ChangePasswordForm } from '@/components/auth/ChangePasswordForm';
+
+export default function ChangePasswordScreen() {
+  return (
+    <ChangePasswordForm
+      onChanged={() => (router.canGoBack() ? router.back() : router.replace('/'))}
+    />
+  );
+}
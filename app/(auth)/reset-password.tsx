@@ -0,0 +1,17 @@
+import { router, useLocalSearchParams } from 'expo-router';
+
+import { ResetPasswordForm } from '@/components/auth/ResetPasswordForm';
+import { parseResetToken } from '@/lib/auth/resetToken';
+
+/** Opened from the emailed link, e.g. myapp://reset-password?token=…. */
+export default function ResetPasswordScreen() {
+  const { token } = useLocalSearchParams<{ token?: string | string[] }>();
+
+  return (
+    <ResetPasswordForm
+      token={parseResetToken(token)}
+      onReset={() => router.replace('/')}
+      onRequestNewLink={() => router.replace('/forgot-password')}
+    />
+  );
+}
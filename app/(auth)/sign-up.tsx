@@ -0,0 +1,7 @@
+import { router } from 'expo-router';
+
+import { SignUpForm } from '@/components/auth/SignUpForm';
+
+export default function SignUpScreen() {
+  return <SignUpForm onSignedUp={() => router.replace('/')} />;
+}
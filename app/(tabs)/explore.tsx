@@ -1,6 +1,7 @@
 import { StyleSheet } from 'react-native';
 
 import ParallaxScrollView from '@/components/ParallaxScrollView';
+import { PolicyPlayground } from '@/components/playground/PolicyPlayground';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { IconSymbol } from '@/components/ui/IconSymbol';
@@ -18,10 +19,12 @@ export default function TabTwoScreen() {
         />
       }>
       <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Explore</ThemedText>
+        <ThemedText type="title">Policy playground</ThemedText>
       </ThemedView>
-      <ThemedText>This app includes example code to help you get started.</ThemedText>
-    
+      <ThemedText>
+        Try the validator's options on a sample password, then copy the props into a screen.
+      </ThemedText>
+      <PolicyPlayground />
     </ParallaxScrollView>
   );
 }
@@ -1,7 +1,10 @@
+import { Link } from 'expo-router';
 import { Image, StyleSheet } from 'react-native';
 
 import ParallaxScrollView from '@/components/ParallaxScrollView';
 import PasswordStrengthValidator from '@/components/PassWordStrengthValidator';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
 
 export default function HomeScreen() {
   return (
@@ -14,6 +17,17 @@ export default function HomeScreen() {
         />
       }>
       <PasswordStrengthValidator/>
+      <ThemedView style={styles.stepContainer}>
+        <Link href="/sign-up">
+          <ThemedText type="link">Create an account</ThemedText>
+        </Link>
+        <Link href="/change-password">
+          <ThemedText type="link">Change your password</ThemedText>
+        </Link>
+        <Link href="/forgot-password">
+          <ThemedText type="link">Forgot your password?</ThemedText>
+        </Link>
+      </ThemedView>
     </ParallaxScrollView>
   );
 }
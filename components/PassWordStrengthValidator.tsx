@@ -1,189 +1,595 @@
 // PasswordStrengthValidator.js
-import React, { useState, useEffect } from "react";
+import React, {
+  forwardRef,
+  useState,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+} from "react";
 import {
   View,
   Text,
   TextInput,
   StyleSheet,
   TouchableOpacity,
+  StyleProp,
+  TextStyle,
+  ViewStyle,
 } from "react-native";
+import Animated, {
+  useAnimatedStyle,
+  useReducedMotion,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} from "react-native-reanimated";
 import {
   CriteriaKeys,
+  DictionaryMatch,
+  EvaluationContext,
+  PasswordPolicy,
   PasswordStrength,
+  PasswordStrengthValidatorHandle,
   PasswordStrengthValidatorProps,
+  PersonalInfoMatch,
 } from "../types/Types";
+import {
+  emptyStrength,
+  startEvaluation,
+  strengthRatio,
+} from "../lib/password/evaluatePassword";
+import { matchStatus } from "../lib/password/confirm";
+import {
+  generatePassphrase,
+  generatePassword,
+} from "../lib/password/generator";
+import { passwordFieldErrors } from "../lib/password/forms";
+import { patternSegments } from "../lib/password/patterns";
+import { ruleLabel } from "../lib/password/rules";
+import { tierLabel } from "../lib/password/tiers";
+import { useAnnouncement } from "../hooks/useAnnouncement";
+import { useColorScheme } from "../hooks/useColorScheme";
+import { useControllableState } from "../hooks/useControllableState";
+import { usePasswordPolicy } from "../hooks/usePasswordPolicy";
+import { useThemeColor } from "../hooks/useThemeColor";
+import { useTranslator } from "../hooks/useTranslator";
 import Icon from "react-native-vector-icons/Feather";
 
-const commonPatterns = ["123456", "password", "qwerty", "letmein", "abc123"];
+const TRANSITION = { duration: 250 };
 
-const PasswordStrengthValidator: React.FC<PasswordStrengthValidatorProps> = ({
-  onStrengthChange,
-  minLength = 8,
-  requireUppercase = true,
-  requireLowercase = true,
-  requireNumbers = true,
-  requireSpecialChars = true,
-  preventRepeatedChars = true,
-  preventCommonPatterns = true,
-}) => {
-  const [password, setPassword] = useState<string>("");
+const PasswordStrengthValidator = forwardRef<
+  PasswordStrengthValidatorHandle,
+  PasswordStrengthValidatorProps
+>(function PasswordStrengthValidator(
+  {
+    value,
+    onChangeText,
+    confirmValue,
+    onConfirmChangeText,
+    onStrengthChange,
+    confirmPassword,
+    onMatchChange,
+    requiredLevel,
+    onValidityChange,
+    userInputs,
+    previousPasswords,
+    currentPassword,
+    policy: basePolicy,
+    locale,
+    messageOverrides,
+    evaluationDelay = 0,
+    generator = "password",
+    random,
+    styles: styleOverrides = {},
+    colors: colorOverrides = {},
+    onSubmitEditing,
+    ...policyOverrides
+  },
+  ref
+) {
+  const [password, setPassword] = useControllableState(value, onChangeText, "");
+  const [confirmation, setConfirmation] = useControllableState(
+    confirmValue,
+    onConfirmChangeText,
+    ""
+  );
+  const inputRef = useRef<TextInput>(null);
+  const confirmRef = useRef<TextInput>(null);
   const [secure, setSecure] = useState(true);
-  const [strength, setStrength] = useState<PasswordStrength>({
-    level: "Weak",
-    score: 0,
-    maxScore: 7,
-    criteria: {
-      length: false,
-      uppercase: false,
-      lowercase: false,
-      numbers: false,
-      specialChars: false,
-      noRepeatedChars: false,
-      noCommonPatterns: false,
+  const [strength, setStrength] = useState<PasswordStrength>(emptyStrength);
+  // The policy the generator last gave up on; cleared by a policy change.
+  const [unsatisfiedPolicy, setUnsatisfiedPolicy] = useState<PasswordPolicy>();
+
+  const policy = usePasswordPolicy(basePolicy, policyOverrides);
+  const scheme = useColorScheme() ?? "light";
+  const translator = useTranslator(locale, messageOverrides);
+  const { t } = translator;
+  const isRTL = translator.locale.direction === "rtl";
+
+  const surface = useThemeColor(colorOverrides.surface ?? {}, "surface");
+  const text = useThemeColor(colorOverrides.text ?? {}, "text");
+  const background = useThemeColor(
+    colorOverrides.background ?? {},
+    "background"
+  );
+  const inputBorder = useThemeColor(
+    colorOverrides.inputBorder ?? {},
+    "inputBorder"
+  );
+  const icon = useThemeColor(colorOverrides.icon ?? {}, "icon");
+  const textMuted = useThemeColor(colorOverrides.textMuted ?? {}, "textMuted");
+  const track = useThemeColor(colorOverrides.track ?? {}, "track");
+  const success = useThemeColor(colorOverrides.success ?? {}, "success");
+  const danger = useThemeColor(colorOverrides.danger ?? {}, "danger");
+  const warning = useThemeColor(colorOverrides.warning ?? {}, "warning");
+  const tint = useThemeColor(colorOverrides.tint ?? {}, "tint");
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: background,
+      color: text,
+      borderColor: inputBorder,
+      textAlign: isRTL ? ("right" as const) : ("left" as const),
     },
-  });
+    styleOverrides.input,
+  ];
+  const mutedText = [styles.text, { color: textMuted }];
+
+  // Keyed on the values so an inline `userInputs` object or
+  // `previousPasswords` array does not re-run the evaluation on every
+  // parent render.
+  const birthDate = userInputs?.birthDate;
+  const context = useMemo<EvaluationContext>(
+    () => ({ userInputs, previousPasswords, currentPassword, translator }),
+    [
+      translator,
+      userInputs?.username,
+      userInputs?.email,
+      userInputs?.displayName,
+      userInputs?.appName,
+      birthDate instanceof Date ? birthDate.getTime() : birthDate,
+      previousPasswords?.map(({ salt, hash }) => salt + hash).join(),
+      currentPassword,
+    ]
+  );
 
   const toggleSecure = () => setSecure(!secure);
 
-  // TODO: Implement evaluatePassword function to check all criteria
-  const evaluatePassword = (pwd: string): PasswordStrength => {
-    if (pwd.length < 3) {
-      return {
-        level: "Weak",
-        score: 0,
-        maxScore: 7,
-        criteria: {
-          length: false,
-          uppercase: false,
-          lowercase: false,
-          numbers: false,
-          specialChars: false,
-          noRepeatedChars: false,
-          noCommonPatterns: false,
-        },
-      };
+  const suggestFailed = unsatisfiedPolicy === policy;
+
+  const suggestPassword = () => {
+    const generate =
+      generator === "passphrase" ? generatePassphrase : generatePassword;
+    let suggestion: string;
+    try {
+      suggestion = generate(policy, { ...context, random });
+    } catch {
+      setUnsatisfiedPolicy(policy);
+      return;
     }
+    setPassword(suggestion);
+    if (confirmPassword) setConfirmation(suggestion);
+    setSecure(false);
+  };
 
-    const criteria = {
-      length: pwd.length >= minLength,
-      uppercase: !requireUppercase || /[A-Z]/.test(pwd),
-      lowercase: !requireLowercase || /[a-z]/.test(pwd),
-      numbers: !requireNumbers || /\d/.test(pwd),
-      specialChars: !requireSpecialChars || /[^A-Za-z0-9]/.test(pwd),
-      noRepeatedChars: !preventRepeatedChars || !/(.)\1{2,}/gu.test(pwd),
-      noCommonPatterns:
-        !preventCommonPatterns ||
-        !commonPatterns.some((pattern) => pwd.toLowerCase().includes(pattern)),
-    };
+  const getReadableCriteria = (key: CriteriaKeys) => {
+    const rule = policy.rules.find((candidate) => candidate.id === key);
+    return rule ? ruleLabel(rule, policy, translator) : key;
+  };
 
-    const passedCount = Object.values(criteria).filter(Boolean).length;
-    let level: PasswordStrength["level"] = "Weak";
-    if (passedCount >= 6) level = "Strong";
-    else if (passedCount >= 4) level = "Medium";
+  const getPersonalInfoExplanation = ({ field, reversed }: PersonalInfoMatch) =>
+    t("match.personalInfo", { field: t(`personalInfo.${field}`), reversed });
 
-    return {
-      level,
-      score: passedCount,
-      maxScore: 7,
-      criteria,
-    };
-  };
+  const getMatchExplanation = (match: DictionaryMatch) =>
+    t(match.word ? "match.dictionaryWord" : "match.dictionary", {
+      word: match.word ?? "",
+      list: t(`dictionaries.${match.dictionary}`, {}, match.label),
+      leetspeak: match.leetspeak,
+    });
 
-  const getReadableCriteria = (key: CriteriaKeys) => {
-    const map: Record<CriteriaKeys, string> = {
-      length: `Minimum length (${minLength})`,
-      uppercase: "Contains uppercase",
-      lowercase: "Contains lowercase",
-      numbers: "Contains numbers",
-      specialChars: "Contains special characters",
-      noRepeatedChars: "No repeated characters",
-      noCommonPatterns: "No common patterns",
+  const reduceMotion = useReducedMotion();
+  const tierColor = strength.tier.color[scheme];
+  const tierName = tierLabel(strength.tier, translator);
+  const ratio = strengthRatio(strength, policy);
+
+  useAnnouncement(
+    password.length > 0 && !strength.pending
+      ? t("a11y.strengthChanged", { tier: tierName })
+      : undefined
+  );
+
+  const match = confirmPassword
+    ? matchStatus(password, confirmation)
+    : undefined;
+  const valid =
+    !strength.pending &&
+    passwordFieldErrors(password, strength, policy, { requiredLevel, match })
+      .length === 0;
+
+  // Each run is aborted when the input changes, so a slow check can never
+  // report on a password that has since been edited. Only settled results
+  // reach onStrengthChange.
+  useEffect(() => {
+    const controller = new AbortController();
+    const evaluate = () => {
+      const evaluation = startEvaluation(password, policy, {
+        ...context,
+        signal: controller.signal,
+      });
+      setStrength(evaluation.strength);
+      if (!evaluation.strength.pending) {
+        onStrengthChange?.(evaluation.strength);
+        return;
+      }
+      evaluation.settle().then((result) => {
+        if (controller.signal.aborted) return;
+        setStrength(result);
+        onStrengthChange?.(result);
+      });
     };
-    return map[key] || key;
-  };
 
-  const getStrengthColor = (level: "Weak" | "Medium" | "Strong") => {
-    switch (level) {
-      case "Weak":
-        return "#e74c3c";
-      case "Medium":
-        return "#f39c12";
-      case "Strong":
-        return "#2ecc71";
-      default:
-        return "#aaa";
+    if (evaluationDelay > 0 && password.length > 0) {
+      setStrength((previous) => ({ ...previous, pending: true }));
+      const timer = setTimeout(evaluate, evaluationDelay);
+      return () => {
+        clearTimeout(timer);
+        controller.abort();
+      };
     }
-  };
+    evaluate();
+    return () => controller.abort();
+  }, [password, policy, context, evaluationDelay]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      focus: () => inputRef.current?.focus(),
+      clear: () => {
+        setPassword("");
+        if (confirmPassword) setConfirmation("");
+      },
+      getStrength: () => strength,
+    }),
+    [strength, setPassword, setConfirmation, confirmPassword]
+  );
+
+  useEffect(() => {
+    if (match !== undefined) onMatchChange?.(match);
+  }, [match]);
 
-  // TODO: Implement useEffect hook to update strength whenever password changes
   useEffect(() => {
-    const result = evaluatePassword(password);
-    setStrength(result);
-    onStrengthChange?.(result);
-  }, [password]);
+    onValidityChange?.(valid);
+  }, [valid]);
 
   // TODO: Implement UI for password input and strength feedback
   return (
-    <View style={styles.container}>
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: surface, direction: translator.locale.direction },
+        styleOverrides.container,
+      ]}
+    >
       {/* Component UI */}
-      <Text style={styles.header}>Password</Text>
+      <Text style={[styles.header, { color: text }, styleOverrides.header]}>
+        {t("validator.title")}
+      </Text>
       <View>
         <TextInput
-          style={styles.input}
-          placeholder="Enter password"
-          placeholderTextColor="#aaa"
+          ref={inputRef}
+          accessibilityLabel={t("validator.title")}
+          style={inputStyle}
+          placeholder={t("validator.placeholder")}
+          placeholderTextColor={icon}
           value={password}
           onChangeText={setPassword}
           secureTextEntry={secure}
+          autoCapitalize="none"
+          autoComplete="new-password"
+          textContentType="newPassword"
+          returnKeyType={confirmPassword ? "next" : "done"}
+          submitBehavior={confirmPassword ? "submit" : undefined}
+          onSubmitEditing={
+            confirmPassword
+              ? () => confirmRef.current?.focus()
+              : onSubmitEditing
+          }
         />
-        <TouchableOpacity onPress={toggleSecure} style={styles.iconContainer}>
-          <Icon name={secure ? "eye-off" : "eye"} size={20} color="#888" />
+        <TouchableOpacity
+          testID="visibility-toggle"
+          accessibilityRole="switch"
+          accessibilityLabel={t("a11y.showPassword")}
+          accessibilityState={{ checked: !secure }}
+          onPress={toggleSecure}
+          style={[styles.iconContainer, styleOverrides.toggle]}
+        >
+          <Icon name={secure ? "eye-off" : "eye"} size={20} color={icon} />
         </TouchableOpacity>
       </View>
-      <View style={styles.strengthBarContainer}>
-        <View style={styles.strengthBarBackground}>
-          <View
-            testID="strength-bar-fill"
+      {generator && (
+        <TouchableOpacity
+          accessibilityRole="button"
+          disabled={suggestFailed}
+          onPress={suggestPassword}
+          style={[styles.suggestButton, suggestFailed && styles.pending]}
+        >
+          <Text
             style={[
-              styles.strengthBarFill,
-              {
-                width: `${(strength.score / strength.maxScore) * 100}%`,
-                backgroundColor: getStrengthColor(strength.level),
-              },
+              styles.suggestText,
+              { color: tint },
+              styleOverrides.suggest,
             ]}
+          >
+            {t("validator.suggest")}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {generator && suggestFailed && (
+        <Text
+          testID="suggest-failed"
+          accessibilityLiveRegion="polite"
+          style={[styles.criteriaText, mutedText, styles.suggestFailed]}
+        >
+          {t("validator.suggestFailed")}
+        </Text>
+      )}
+      {confirmPassword && (
+        <TextInput
+          ref={confirmRef}
+          accessibilityLabel={t("validator.confirmPlaceholder")}
+          style={inputStyle}
+          placeholder={t("validator.confirmPlaceholder")}
+          placeholderTextColor={icon}
+          value={confirmation}
+          onChangeText={setConfirmation}
+          secureTextEntry={secure}
+          autoCapitalize="none"
+          autoComplete="new-password"
+          textContentType="newPassword"
+          returnKeyType="done"
+          onSubmitEditing={onSubmitEditing}
+        />
+      )}
+      {(match === "match" || match === "mismatch") && (
+        <Text
+          testID="password-match"
+          accessibilityLiveRegion="polite"
+          accessibilityLabel={t(
+            match === "match" ? "validator.match" : "validator.mismatch"
+          )}
+          style={[
+            styles.criteriaText,
+            { color: match === "match" ? success : danger },
+            styleOverrides.match,
+          ]}
+        >
+          {match === "match" ? "✓" : "✗"}{" "}
+          {t(match === "match" ? "validator.match" : "validator.mismatch")}
+        </Text>
+      )}
+      <View style={styles.strengthBarContainer}>
+        <View
+          accessible
+          accessibilityRole="progressbar"
+          accessibilityLabel={t("a11y.strengthMeter")}
+          accessibilityState={{ busy: Boolean(strength.pending) }}
+          accessibilityValue={{
+            min: 0,
+            max: 100,
+            now: Math.round(ratio * 100),
+            text: tierName,
+          }}
+          style={[
+            styles.strengthBarBackground,
+            { backgroundColor: track },
+            styleOverrides.strengthBar,
+          ]}
+        >
+          <StrengthBarFill
+            ratio={ratio}
+            color={tierColor}
+            reduceMotion={reduceMotion}
+            style={styleOverrides.strengthBarFill}
           />
         </View>
         <Text
+          accessibilityLiveRegion="polite"
           style={[
             styles.strengthLabel,
-            { color: getStrengthColor(strength.level) },
+            { color: tierColor },
+            styleOverrides.strengthLabel,
           ]}
         >
-          Strength: {strength.level}
+          {strength.tier.icon && (
+            <>
+              <Icon name={strength.tier.icon} size={14} color={tierColor} />{" "}
+            </>
+          )}
+          {strength.pending
+            ? t("validator.checking")
+            : t("validator.strength", { tier: tierName })}
         </Text>
+        {strength.crackTimeDisplay !== undefined && (
+          <Text style={[mutedText, styleOverrides.crackTime]}>
+            {t("validator.crackTime", { time: strength.crackTimeDisplay })}
+          </Text>
+        )}
       </View>
-      <View style={styles.bulletContainer}>
-        <Text style={styles.bullet}>{"\u2022"}</Text>
-        <Text style={styles.text}> Please enter a password</Text>
-      </View>
-      <View style={styles.criteriaList}>
+      {password.length === 0 ? (
+        <View style={styles.bulletContainer}>
+          <Text style={[styles.bullet, { color: textMuted }]}>{"\u2022"}</Text>
+          <Text style={[mutedText, styleOverrides.suggestion]}>
+            {" "}
+            {t("validator.empty")}
+          </Text>
+        </View>
+      ) : (
+        <View
+          testID="strength-feedback"
+          style={strength.pending && styles.pending}
+        >
+          {strength.warning && (
+            <Text
+              testID="strength-warning"
+              accessibilityRole="alert"
+              style={[
+                styles.warning,
+                { color: warning },
+                styleOverrides.warning,
+              ]}
+            >
+              {strength.warning}
+            </Text>
+          )}
+          {strength.suggestions.map((suggestion) => (
+            <View key={suggestion.id} style={styles.bulletContainer}>
+              <Text style={[styles.bullet, { color: textMuted }]}>
+                {"\u2022"}
+              </Text>
+              <Text style={[mutedText, styleOverrides.suggestion]}>
+                {" "}
+                {suggestion.message}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+      <View style={[styles.criteriaList, strength.pending && styles.pending]}>
         {Object.entries(strength.criteria).map(([key, met]) => (
-          <Text
+          <CriterionText
             key={key}
-            style={[styles.criteriaText, met ? styles.met : styles.unmet]}
+            met={Boolean(met)}
+            color={met ? success : danger}
+            reduceMotion={reduceMotion}
+            label={t(met ? "a11y.criterionMet" : "a11y.criterionUnmet", {
+              label: getReadableCriteria(key as CriteriaKeys),
+            })}
+            style={styleOverrides.criteria}
           >
             {met ? "✓" : "✗"} {getReadableCriteria(key as CriteriaKeys)}
-          </Text>
+          </CriterionText>
         ))}
+        {strength.dictionaryMatch && (
+          <Text
+            testID="dictionary-match"
+            style={[mutedText, styleOverrides.explanation]}
+          >
+            {getMatchExplanation(strength.dictionaryMatch)}
+          </Text>
+        )}
+        {strength.personalInfoMatch && (
+          <Text
+            testID="personal-info-match"
+            style={[mutedText, styleOverrides.explanation]}
+          >
+            {getPersonalInfoExplanation(strength.personalInfoMatch)}
+          </Text>
+        )}
+        {!secure && strength.patternMatches && (
+          <Text
+            testID="pattern-match"
+            style={[mutedText, styleOverrides.explanation]}
+          >
+            {t("match.patterns")}{" "}
+            {patternSegments(
+              password.normalize(policy.normalization),
+              strength.patternMatches
+            ).map(({ text: part, matched }, index) => (
+              <Text
+                key={index}
+                style={matched && [styles.patternMatch, { color: danger }]}
+              >
+                {part}
+              </Text>
+            ))}
+          </Text>
+        )}
       </View>
     </View>
   );
-};
+});
+
+/** Bar fill that eases between widths and tier colours. */
+function StrengthBarFill({
+  ratio,
+  color,
+  reduceMotion,
+  style,
+}: {
+  ratio: number;
+  color: string;
+  reduceMotion: boolean;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const animatedStyle = useAnimatedStyle(() => {
+    const width = `${ratio * 100}%` as const;
+    return reduceMotion
+      ? { width, backgroundColor: color }
+      : {
+          width: withTiming(width, TRANSITION),
+          backgroundColor: withTiming(color, TRANSITION),
+        };
+  }, [ratio, color, reduceMotion]);
+
+  return (
+    <Animated.View
+      testID="strength-bar-fill"
+      style={[styles.strengthBarFill, animatedStyle, style]}
+    />
+  );
+}
+
+/** Criterion row that fades its colour and pops when it becomes met. */
+function CriterionText({
+  met,
+  label,
+  color,
+  reduceMotion,
+  style,
+  children,
+}: {
+  met: boolean;
+  label: string;
+  color: string;
+  reduceMotion: boolean;
+  style?: StyleProp<TextStyle>;
+  children: React.ReactNode;
+}) {
+  const scale = useSharedValue(1);
+  const wasMet = useRef(met);
+
+  useEffect(() => {
+    if (met && !wasMet.current && !reduceMotion) {
+      scale.value = 1.15;
+      scale.value = withSpring(1);
+    }
+    wasMet.current = met;
+  }, [met, reduceMotion]);
+
+  const animatedStyle = useAnimatedStyle(
+    () => ({
+      color: reduceMotion ? color : withTiming(color, TRANSITION),
+      transform: [{ scale: scale.value }],
+    }),
+    [color, reduceMotion]
+  );
+
+  return (
+    <Animated.Text
+      accessibilityLabel={label}
+      accessibilityState={{ checked: met }}
+      style={[styles.criteriaText, animatedStyle, style]}
+    >
+      {children}
+    </Animated.Text>
+  );
+}
 
 const styles = StyleSheet.create({
   // Component styles
   container: {
-    backgroundColor: "white",
     padding: 20,
     borderRadius: 10,
     margin: 16,
@@ -194,28 +600,23 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
   bullet: {
-    color: "#B7B7B7",
     fontSize: 14,
     marginTop: 2,
   },
   header: {
-    color: "black",
     fontSize: 18,
     marginBottom: 10,
     fontWeight: "bold",
   },
   input: {
-    backgroundColor: "white",
-    color: "black",
     padding: 10,
     borderRadius: 4,
     marginBottom: 10,
     borderWidth: 1,
-    borderColor: "grey",
   },
   iconContainer: {
     position: "absolute",
-    right: 10,
+    end: 10,
     top: 10,
   },
   strengthText: {
@@ -223,9 +624,20 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     marginBottom: 10,
   },
-  weak: { color: "red" },
-  medium: { color: "orange" },
-  strong: { color: "green" },
+  suggestButton: {
+    alignSelf: "flex-start",
+    marginBottom: 10,
+  },
+  suggestText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  suggestFailed: {
+    marginBottom: 10,
+  },
+  pending: {
+    opacity: 0.5,
+  },
   criteriaList: {
     marginVertical: 10,
   },
@@ -233,22 +645,23 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginBottom: 2,
   },
-  met: {
-    color: "green",
-  },
-  unmet: {
-    color: "red",
-  },
   text: {
-    color: "#B7B7B7",
     fontSize: 13,
   },
+  warning: {
+    fontSize: 13,
+    fontWeight: "bold",
+    marginTop: 4,
+  },
+  patternMatch: {
+    fontWeight: "bold",
+    textDecorationLine: "underline",
+  },
   strengthBarContainer: {
     marginVertical: 10,
   },
   strengthBarBackground: {
     height: 8,
-    backgroundColor: "#ddd",
     borderRadius: 4,
     overflow: "hidden",
   },
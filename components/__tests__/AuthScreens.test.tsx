@@ -0,0 +1,392 @@
+import React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { ChangePasswordForm } from "../auth/ChangePasswordForm";
+import { ForgotPasswordForm } from "../auth/ForgotPasswordForm";
+import { ResetPasswordForm } from "../auth/ResetPasswordForm";
+import { SignUpForm } from "../auth/SignUpForm";
+import ResetPasswordScreen from "../../app/(auth)/reset-password";
+import { AuthProvider } from "../../hooks/useAuth";
+import {
+  createMockAuthService,
+  MockAuthServiceOptions,
+} from "../../lib/auth/mockAuthService";
+import { seededRandomSource } from "../../lib/password/generator";
+import {
+  createAccountPasswordHistories,
+  PasswordHistory,
+} from "../../lib/password/history";
+import { matchesHash } from "../../lib/password/reuse";
+import { BUILT_IN_RULES } from "../../lib/password/rules";
+
+jest.mock("react-native-vector-icons/Feather", () => "Icon");
+jest.mock("react-native-reanimated", () => ({
+  ...require("react-native-reanimated/mock"),
+  useReducedMotion: () => false,
+}));
+jest.mock("expo-router", () => ({
+  router: { replace: jest.fn(), back: jest.fn(), canGoBack: jest.fn() },
+  useLocalSearchParams: jest.fn(() => ({})),
+}));
+jest.mock("../../hooks/useColorScheme", () => ({
+  useColorScheme: jest.fn(() => "light"),
+}));
+
+const STRONG = "Tr0ub4dor&3";
+
+const setup = (options: MockAuthServiceOptions = {}) => {
+  const tokens: string[] = [];
+  const service = createMockAuthService({
+    accounts: [{ email: "wile@example.com", password: "Acme-Rocket-42" }],
+    random: seededRandomSource(11),
+    onResetRequested: (email, token) => tokens.push(token),
+    ...options,
+  });
+  const histories = createAccountPasswordHistories({
+    random: seededRandomSource(12),
+  });
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <AuthProvider value={{ service, histories }}>{children}</AuthProvider>
+  );
+  return { service, histories, tokens, wrapper };
+};
+
+const enterNewPassword = (password: string) => {
+  fireEvent.changeText(screen.getByPlaceholderText("Enter password"), password);
+  fireEvent.changeText(
+    screen.getByPlaceholderText("Confirm password"),
+    password
+  );
+};
+
+const submitButton = (name: string) => screen.getByRole("button", { name });
+
+const latestEntry = async (history: PasswordHistory) =>
+  (await history.entries())[0];
+
+describe("SignUpForm", () => {
+  it("keeps the submit button disabled until the form is complete", () => {
+    const { wrapper } = setup();
+    render(<SignUpForm />, { wrapper });
+
+    expect(submitButton("Sign up")).toBeDisabled();
+    fireEvent.changeText(screen.getByLabelText("Email"), "road@example.com");
+    enterNewPassword("weak");
+    expect(submitButton("Sign up")).toBeDisabled();
+
+    enterNewPassword(STRONG);
+    expect(submitButton("Sign up")).toBeEnabled();
+  });
+
+  it("signs up, remembers the password's hash for the account and reports success", async () => {
+    const { service, histories, wrapper } = setup();
+    const onSignedUp = jest.fn();
+    render(<SignUpForm onSignedUp={onSignedUp} />, { wrapper });
+
+    fireEvent.changeText(screen.getByLabelText("Email"), " Road@Example.com");
+    enterNewPassword(STRONG);
+    await act(async () => {
+      fireEvent.press(submitButton("Sign up"));
+    });
+
+    expect(onSignedUp).toHaveBeenCalledTimes(1);
+    expect(service.currentUser()).toBe("road@example.com");
+    expect(
+      matchesHash(STRONG, await latestEntry(histories("road@example.com")))
+    ).toBe(true);
+    expect(await histories("wile@example.com").entries()).toEqual([]);
+  });
+
+  it("shows a spinner while the request is in flight", async () => {
+    jest.useFakeTimers();
+    try {
+      const { wrapper } = setup({ latency: 500 });
+      render(<SignUpForm />, { wrapper });
+
+      fireEvent.changeText(screen.getByLabelText("Email"), "road@example.com");
+      enterNewPassword(STRONG);
+      fireEvent.press(submitButton("Sign up"));
+
+      expect(screen.getByTestId("form-submitting")).toBeTruthy();
+      expect(submitButton("Sign up")).toBeDisabled();
+      await act(() => jest.advanceTimersByTimeAsync(500));
+      expect(screen.queryByTestId("form-submitting")).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("shows the service's error", async () => {
+    const { wrapper } = setup();
+    const onSignedUp = jest.fn();
+    render(<SignUpForm onSignedUp={onSignedUp} />, { wrapper });
+
+    fireEvent.changeText(screen.getByLabelText("Email"), "wile@example.com");
+    enterNewPassword(STRONG);
+    await act(async () => {
+      fireEvent.press(submitButton("Sign up"));
+    });
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "An account with this email already exists"
+    );
+    expect(onSignedUp).not.toHaveBeenCalled();
+  });
+
+  it("shows the server's rejection in the criteria until the password changes", async () => {
+    const { service, wrapper } = setup({
+      policy: {
+        minLength: 12,
+        rules: BUILT_IN_RULES.map((rule) =>
+          rule.id === "length" ? { ...rule, mandatory: true } : rule
+        ),
+      },
+    });
+    render(<SignUpForm />, { wrapper });
+
+    fireEvent.changeText(screen.getByLabelText("Email"), "road@example.com");
+    enterNewPassword(STRONG);
+    await act(async () => {
+      fireEvent.press(submitButton("Sign up"));
+    });
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Choose a password that meets every requirement"
+    );
+    expect(screen.getByText("✗ Minimum length (12)")).toBeTruthy();
+    expect(submitButton("Sign up")).toBeDisabled();
+
+    enterNewPassword(`${STRONG}x`);
+    expect(screen.getByText("✓ Minimum length (12)")).toBeTruthy();
+    expect(submitButton("Sign up")).toBeEnabled();
+    await act(async () => {
+      fireEvent.press(submitButton("Sign up"));
+    });
+    expect(service.currentUser()).toBe("road@example.com");
+  });
+
+  it("moves from field to field with the return key and submits", async () => {
+    const { service, wrapper } = setup();
+    render(<SignUpForm />, { wrapper });
+
+    fireEvent.changeText(screen.getByLabelText("Email"), "road@example.com");
+    enterNewPassword(STRONG);
+    expect(screen.getByLabelText("Email")).toHaveProp("returnKeyType", "next");
+    expect(screen.getByPlaceholderText("Enter password")).toHaveProp(
+      "returnKeyType",
+      "next"
+    );
+    await act(async () => {
+      fireEvent(
+        screen.getByPlaceholderText("Confirm password"),
+        "submitEditing"
+      );
+    });
+
+    expect(service.currentUser()).toBe("road@example.com");
+  });
+});
+
+describe("ChangePasswordForm", () => {
+  const signedIn = async () => {
+    const context = setup();
+    await context.service.signUp({
+      email: "road@example.com",
+      password: "Summer2024!",
+    });
+    await context.histories("road@example.com").add("Summer2024!");
+    return context;
+  };
+
+  it("rejects the current password and variations of earlier ones", async () => {
+    const { wrapper } = await signedIn();
+    render(<ChangePasswordForm />, { wrapper });
+    await act(async () => {});
+
+    fireEvent.changeText(
+      screen.getByLabelText("Current password"),
+      "Summer2024!"
+    );
+    enterNewPassword("Summer2025!");
+
+    expect(screen.getByText("✗ Not a previous password")).toBeTruthy();
+    expect(submitButton("Change password")).toBeDisabled();
+  });
+
+  it("checks only the signed-in account's history", async () => {
+    const { histories, wrapper } = await signedIn();
+    await histories("wile@example.com").add(STRONG);
+    render(<ChangePasswordForm />, { wrapper });
+    await act(async () => {});
+
+    fireEvent.changeText(
+      screen.getByLabelText("Current password"),
+      "Summer2024!"
+    );
+    enterNewPassword(STRONG);
+
+    expect(screen.getByText("✓ Not a previous password")).toBeTruthy();
+    expect(submitButton("Change password")).toBeEnabled();
+  });
+
+  it("reports a wrong current password", async () => {
+    const { wrapper } = await signedIn();
+    render(<ChangePasswordForm />, { wrapper });
+    await act(async () => {});
+
+    fireEvent.changeText(screen.getByLabelText("Current password"), "Winter");
+    enterNewPassword(STRONG);
+    await act(async () => {
+      fireEvent.press(submitButton("Change password"));
+    });
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "The current password is incorrect"
+    );
+  });
+
+  it("speaks the given locale, service errors included", async () => {
+    const { wrapper } = await signedIn();
+    render(<ChangePasswordForm locale="de" />, { wrapper });
+    await act(async () => {});
+
+    fireEvent.changeText(screen.getByLabelText("Aktuelles Passwort"), "Winter");
+    fireEvent.changeText(
+      screen.getByPlaceholderText("Passwort eingeben"),
+      STRONG
+    );
+    fireEvent.changeText(
+      screen.getByPlaceholderText("Passwort bestätigen"),
+      STRONG
+    );
+    await act(async () => {
+      fireEvent.press(submitButton("Passwort ändern"));
+    });
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Das aktuelle Passwort ist falsch"
+    );
+  });
+
+  it("changes the password", async () => {
+    const { histories, wrapper } = await signedIn();
+    const onChanged = jest.fn();
+    render(<ChangePasswordForm onChanged={onChanged} />, { wrapper });
+    await act(async () => {});
+
+    fireEvent.changeText(
+      screen.getByLabelText("Current password"),
+      "Summer2024!"
+    );
+    enterNewPassword(STRONG);
+    await act(async () => {
+      fireEvent.press(submitButton("Change password"));
+    });
+
+    expect(onChanged).toHaveBeenCalledTimes(1);
+    expect(
+      matchesHash(STRONG, await latestEntry(histories("road@example.com")))
+    ).toBe(true);
+  });
+});
+
+describe("ResetPasswordForm", () => {
+  it("explains an unusable link", async () => {
+    const { wrapper } = setup();
+    render(<ResetPasswordForm token={undefined} />, { wrapper });
+    await act(async () => {});
+    expect(screen.getByTestId("invalid-reset-link")).toBeTruthy();
+    expect(screen.queryByPlaceholderText("Enter password")).toBeNull();
+  });
+
+  it("sets a new password with a token from the service", async () => {
+    const { service, histories, tokens, wrapper } = setup();
+    await service.requestPasswordReset("wile@example.com");
+    const onReset = jest.fn();
+    render(<ResetPasswordForm token={tokens[0]} onReset={onReset} />, {
+      wrapper,
+    });
+    await act(async () => {});
+
+    enterNewPassword(STRONG);
+    await act(async () => {
+      fireEvent.press(submitButton("Reset password"));
+    });
+    expect(onReset).toHaveBeenCalledTimes(1);
+    // The token does not name the account, so no local history is kept.
+    expect(await histories("wile@example.com").entries()).toEqual([]);
+
+    // The token is spent.
+    await act(async () => {
+      fireEvent.press(submitButton("Reset password"));
+    });
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "This reset link is invalid or has expired"
+    );
+  });
+});
+
+describe("ForgotPasswordForm", () => {
+  it("requests a reset link and says where it went", async () => {
+    const { tokens, wrapper } = setup();
+    const onRequested = jest.fn();
+    render(<ForgotPasswordForm onRequested={onRequested} />, { wrapper });
+    await act(async () => {});
+
+    expect(submitButton("Send reset link")).toBeDisabled();
+    fireEvent.changeText(screen.getByLabelText("Email"), " wile@example.com ");
+    await act(async () => {
+      fireEvent.press(submitButton("Send reset link"));
+    });
+
+    expect(tokens).toHaveLength(1);
+    expect(onRequested).toHaveBeenCalledWith("wile@example.com");
+    expect(screen.getByTestId("reset-link-sent")).toHaveTextContent(
+      /If wile@example\.com belongs to an account/
+    );
+  });
+
+  it("answers the same for an address without an account", async () => {
+    const { tokens, wrapper } = setup();
+    render(<ForgotPasswordForm />, { wrapper });
+    await act(async () => {});
+
+    fireEvent.changeText(screen.getByLabelText("Email"), "nobody@example.com");
+    await act(async () => {
+      fireEvent.press(submitButton("Send reset link"));
+    });
+
+    expect(tokens).toEqual([]);
+    expect(screen.getByTestId("reset-link-sent")).toBeTruthy();
+  });
+});
+
+describe("reset-password route", () => {
+  const openLink = (params: Record<string, string | string[]>) =>
+    jest.mocked(useLocalSearchParams).mockReturnValue(params);
+
+  it("resets the password with the token from the deep link", async () => {
+    const { service, tokens, wrapper } = setup();
+    await service.requestPasswordReset("wile@example.com");
+    openLink({ token: tokens[0] });
+    render(<ResetPasswordScreen />, { wrapper });
+    await act(async () => {});
+
+    enterNewPassword(STRONG);
+    await act(async () => {
+      fireEvent.press(submitButton("Reset password"));
+    });
+    expect(router.replace).toHaveBeenCalledWith("/");
+  });
+
+  it("shows the invalid-link message for a malformed token", async () => {
+    const { wrapper } = setup();
+    openLink({ token: "abc" });
+    render(<ResetPasswordScreen />, { wrapper });
+    await act(async () => {});
+    expect(screen.getByTestId("invalid-reset-link")).toBeTruthy();
+
+    fireEvent.press(screen.getByRole("link", { name: "Ask for a new link" }));
+    expect(router.replace).toHaveBeenCalledWith("/forgot-password");
+  });
+});
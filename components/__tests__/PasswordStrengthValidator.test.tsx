@@ -1,7 +1,37 @@
 import React from "react";
-import { fireEvent, render } from "@testing-library/react-native";
+import { AccessibilityInfo } from "react-native";
+import { act, fireEvent, render } from "@testing-library/react-native";
 import PasswordStrengthValidator from "../PassWordStrengthValidator";
-import { PasswordStrength } from "../../types/Types";
+import {
+  PasswordRule,
+  PasswordStrength,
+  PasswordStrengthValidatorHandle,
+  StrengthTier,
+} from "../../types/Types";
+import { BUILT_IN_RULES } from "../../lib/password/rules";
+import { loadPolicyDocument } from "../../lib/password/policyDocument";
+import {
+  generatePassphrase,
+  generatePassword,
+  seededRandomSource,
+} from "../../lib/password/generator";
+import { createPasswordHash } from "../../lib/password/history";
+import { Colors } from "../../constants/Colors";
+import { useColorScheme } from "../../hooks/useColorScheme";
+import { useReducedMotion, withTiming } from "react-native-reanimated";
+
+jest.mock("react-native-vector-icons/Feather", () => "Icon");
+jest.mock("react-native-reanimated", () => {
+  const Reanimated = require("react-native-reanimated/mock");
+  return {
+    ...Reanimated,
+    useReducedMotion: jest.fn(() => false),
+    withTiming: jest.fn(Reanimated.withTiming),
+  };
+});
+jest.mock("../../hooks/useColorScheme", () => ({
+  useColorScheme: jest.fn(() => "light"),
+}));
 
 const renderWithProps = (props = {}) => {
   const mockFn = jest.fn();
@@ -40,7 +70,7 @@ describe("PasswordStrengthValidator - Full Suite", () => {
 
   it("displays correct bar width and color for strong password", () => {
     const { getByPlaceholderText, getByTestId, getByText } = renderWithProps();
-    fireEvent.changeText(getByPlaceholderText("Enter password"), "Abc123!@#");
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Abc123!%#");
 
     const bar = getByTestId("strength-bar-fill");
     const strengthLabel = getByText("Strength: Strong");
@@ -57,7 +87,7 @@ describe("PasswordStrengthValidator - Full Suite", () => {
   });
 
   it("does not require uppercase when requireUppercase = false", () => {
-    const { getByPlaceholderText, mockFn } = renderWithProps({
+    const { getByPlaceholderText, queryByText, mockFn } = renderWithProps({
       requireUppercase: false,
     });
 
@@ -70,8 +100,10 @@ describe("PasswordStrengthValidator - Full Suite", () => {
 
     const result: PasswordStrength = mockFn.mock.calls[1][0];
 
-    expect(result.criteria.uppercase).toBe(true);
-    expect(result.score).toBeGreaterThanOrEqual(1); 
+    expect(result.criteria.uppercase).toBeUndefined();
+    expect(result.status.uppercase).toBe("notApplicable");
+    expect(result.score).toBe(result.maxScore);
+    expect(queryByText(/Contains uppercase/)).toBeNull();
   });
 
   it("handles empty password", () => {
@@ -91,7 +123,9 @@ describe("PasswordStrengthValidator - Full Suite", () => {
     const result: PasswordStrength = mockFn.mock.calls[1][0];
 
     expect(result.level).toBe("Strong");
-    expect(result.score).toBe(result.maxScore);
+    // Thirty copies of one block only cost the repeated-blocks rule.
+    expect(result.criteria.noRepeatedBlocks).toBe(false);
+    expect(result.score).toBe(result.maxScore - 0.25);
   });
 
   it("handles passwords with emojis", () => {
@@ -112,7 +146,7 @@ describe("PasswordStrengthValidator - Full Suite", () => {
     const samples = {
       weak: "abc",
       medium: "Abc123",
-      strong: "Abc123!@#",
+      strong: "Abc123!%#",
     };
 
     fireEvent.changeText(input, samples.weak);
@@ -129,7 +163,7 @@ describe("PasswordStrengthValidator - Full Suite", () => {
     const { getByPlaceholderText, getByText, mockFn } = renderWithProps();
     const input = getByPlaceholderText("Enter password");
 
-    fireEvent.changeText(input, "Abc123!@#");
+    fireEvent.changeText(input, "Abc123!%#");
     fireEvent.changeText(input, "");
 
     expect(getByText("Strength: Weak")).toBeTruthy();
@@ -137,4 +171,706 @@ describe("PasswordStrengthValidator - Full Suite", () => {
       mockFn.mock.calls[mockFn.mock.calls.length - 1][0];
     expect(result.score).toBe(0);
   });
+
+  it("uses entropy for the level when estimator is entropy", () => {
+    const { getByPlaceholderText, getByText, mockFn } = renderWithProps({
+      estimator: "entropy",
+    });
+    const input = getByPlaceholderText("Enter password");
+
+    fireEvent.changeText(input, "Abc123!%#");
+    expect(getByText("Strength: Weak")).toBeTruthy();
+
+    fireEvent.changeText(input, "correcthorsebatterystaplemoon");
+    expect(getByText("Strength: Strong")).toBeTruthy();
+    expect(getByText(/Estimated time to crack/)).toBeTruthy();
+
+    const result: PasswordStrength =
+      mockFn.mock.calls[mockFn.mock.calls.length - 1][0];
+    expect(result.entropyBits).toBeGreaterThan(60);
+  });
+
+  it("explains which dictionary a password was found in", () => {
+    const { getByPlaceholderText, getByTestId } = renderWithProps();
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Tr0ub4dor&p@ssw0rd");
+
+    expect(getByTestId("dictionary-match")).toHaveTextContent(
+      '"password" is in the common passwords list (after undoing letter substitutions)'
+    );
+  });
+
+  it("checks the password against the user's own data", () => {
+    const { getByPlaceholderText, getByText, getByTestId, mockFn } =
+      renderWithProps({ userInputs: { username: "jsmith" } });
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Jsmith#2024");
+
+    expect(getByText("✗ No personal information")).toBeTruthy();
+    expect(getByTestId("personal-info-match")).toHaveTextContent(
+      "Resembles your username"
+    );
+    const result: PasswordStrength =
+      mockFn.mock.calls[mockFn.mock.calls.length - 1][0];
+    expect(result.criteria.noPersonalInfo).toBe(false);
+  });
+
+  it("rejects a variation of a previous password", () => {
+    const { getByPlaceholderText, getByText, getByTestId, mockFn } =
+      renderWithProps({
+        previousPasswords: [createPasswordHash("Summer2024!")],
+      });
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Summer2025!");
+
+    expect(getByText("✗ Not a previous password")).toBeTruthy();
+    expect(getByTestId("strength-warning")).toHaveTextContent(
+      "Too close to a password you have used before"
+    );
+    const result: PasswordStrength =
+      mockFn.mock.calls[mockFn.mock.calls.length - 1][0];
+    expect(result.level).toBe("Weak");
+  });
+
+  it("compares the new password with the current one", () => {
+    const { getByPlaceholderText, getByText } = renderWithProps({
+      currentPassword: "Summer2024!",
+    });
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Summer2024!");
+    expect(getByText("✗ Not a previous password")).toBeTruthy();
+    expect(getByText("This is your current password")).toBeTruthy();
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Tr0ub4dor&3");
+    expect(getByText("✓ Not a previous password")).toBeTruthy();
+  });
+
+  it("highlights predictable parts once the password is shown", () => {
+    const { getByPlaceholderText, getByRole, getByTestId, getByText, queryByTestId } =
+      renderWithProps();
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Zq!asdf-1990x");
+
+    expect(getByText("✗ No keyboard patterns like qwerty")).toBeTruthy();
+    expect(getByText("✗ No dates or years")).toBeTruthy();
+    expect(queryByTestId("pattern-match")).toBeNull();
+
+    fireEvent.press(getByRole("switch", { name: "Show password" }));
+
+    expect(getByTestId("pattern-match")).toHaveTextContent(
+      "Predictable parts: Zq!asdf-1990x"
+    );
+    expect(getByText("asdf")).toHaveStyle({ fontWeight: "bold" });
+    expect(getByText("1990")).toHaveStyle({ fontWeight: "bold" });
+    expect(getByText("-")).not.toHaveStyle({ fontWeight: "bold" });
+  });
+
+  it("renders custom rules with their labels", () => {
+    const noWhitespace: PasswordRule = {
+      id: "noWhitespace",
+      label: "No whitespace",
+      weight: 1,
+      mandatory: true,
+      test: (password) => !/\s/.test(password),
+    };
+    const { getByPlaceholderText, getByText } = renderWithProps({
+      rules: [...BUILT_IN_RULES, noWhitespace],
+    });
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Tr0ub4dor &3");
+
+    expect(getByText("✗ No whitespace")).toBeTruthy();
+    expect(getByText("Strength: Weak")).toBeTruthy();
+  });
+
+  it("applies a named policy preset with per-field overrides", () => {
+    const { getByPlaceholderText, getByText, mockFn } = renderWithProps({
+      policy: "owasp-asvs",
+      minLength: 14,
+    });
+
+    fireEvent.changeText(
+      getByPlaceholderText("Enter password"),
+      "quiet meadow lantern"
+    );
+
+    expect(getByText("✓ Minimum length (14)")).toBeTruthy();
+    const result: PasswordStrength =
+      mockFn.mock.calls[mockFn.mock.calls.length - 1][0];
+    expect(result.level).toBe("Strong");
+  });
+
+  it("settles with an inline policy object that reports to its parent", () => {
+    const onStrengthChange = jest.fn();
+    function Parent() {
+      const [strength, setStrength] = React.useState<PasswordStrength>();
+      onStrengthChange(strength);
+      return (
+        <PasswordStrengthValidator
+          policy={{ minLength: 12, rules: [...BUILT_IN_RULES] }}
+          onStrengthChange={setStrength}
+        />
+      );
+    }
+    const { getByPlaceholderText, getByText } = render(<Parent />);
+    onStrengthChange.mockClear();
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Tr0ub4dor&3");
+
+    expect(getByText("✗ Minimum length (12)")).toBeTruthy();
+    expect(onStrengthChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("accepts a policy loaded from a JSON document", () => {
+    const policy = loadPolicyDocument({
+      version: 1,
+      minLength: 12,
+      messages: { length: "At least {minLength} characters" },
+    });
+    const { getByPlaceholderText, getByText } = renderWithProps({ policy });
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Abc123!%#");
+
+    expect(getByText("✗ At least 12 characters")).toBeTruthy();
+  });
+
+  it("colours the bar and label from the active tier", () => {
+    const tiers: StrengthTier[] = [
+      {
+        id: "low",
+        threshold: 0,
+        label: "Keep going",
+        color: { light: "#111111", dark: "#eeeeee" },
+      },
+      {
+        id: "high",
+        threshold: 0.5,
+        label: "Great",
+        color: { light: "#0000ff", dark: "#99ccff" },
+        icon: "shield",
+      },
+    ];
+    const { getByPlaceholderText, getByTestId, getByText, mockFn } =
+      renderWithProps({ tiers });
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "Abc123");
+
+    expect(getByText(/Strength: Great/)).toBeTruthy();
+    expect(getByTestId("strength-bar-fill")).toHaveStyle({
+      backgroundColor: "#0000ff",
+    });
+    const result: PasswordStrength =
+      mockFn.mock.calls[mockFn.mock.calls.length - 1][0];
+    expect(result.level).toBe("high");
+    expect(result.tier).toEqual(tiers[1]);
+  });
+
+  it("replaces the placeholder bullet with a warning and suggestions", () => {
+    const { getByPlaceholderText, getByTestId, getByText, queryByText } =
+      renderWithProps();
+
+    expect(getByText(/Please enter a password/)).toBeTruthy();
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "1990-05-12");
+
+    expect(queryByText(/Please enter a password/)).toBeNull();
+    expect(getByTestId("strength-warning")).toHaveTextContent(
+      "Avoid dates like '1990-05-12'"
+    );
+    expect(getByTestId("strength-feedback")).toHaveTextContent(
+      /Leave out the date '1990-05-12'/
+    );
+  });
+
+  it("renders a right-to-left locale with message overrides", () => {
+    const { getByPlaceholderText, getByText, toJSON } = renderWithProps({
+      locale: "ar",
+      messageOverrides: { "validator.title": "كلمة السر" },
+    });
+
+    expect(getByText("كلمة السر")).toBeTruthy();
+    expect(toJSON()).toHaveStyle({ direction: "rtl" });
+
+    fireEvent.changeText(getByPlaceholderText("أدخل كلمة المرور"), "Abc123");
+
+    expect(getByText("القوة: متوسطة")).toBeTruthy();
+    expect(getByText("✗ الحد الأدنى للطول (8)")).toBeTruthy();
+  });
+});
+
+describe("PasswordStrengthValidator - confirmation", () => {
+  const renderConfirm = (props = {}) => {
+    const onMatchChange = jest.fn();
+    const onValidityChange = jest.fn();
+    const utils = render(
+      <PasswordStrengthValidator
+        confirmPassword
+        onMatchChange={onMatchChange}
+        onValidityChange={onValidityChange}
+        {...props}
+      />
+    );
+    const lastCall = (fn: jest.Mock) =>
+      fn.mock.calls[fn.mock.calls.length - 1][0];
+    return {
+      ...utils,
+      password: utils.getByPlaceholderText("Enter password"),
+      confirmation: utils.getByPlaceholderText("Confirm password"),
+      lastMatch: () => lastCall(onMatchChange),
+      lastValidity: () => lastCall(onValidityChange),
+    };
+  };
+
+  it("only renders the confirmation input when asked to", () => {
+    const { queryByPlaceholderText } = renderWithProps();
+    expect(queryByPlaceholderText("Confirm password")).toBeNull();
+  });
+
+  it("reports a match once a pasted confirmation equals the password", () => {
+    const { password, confirmation, getByTestId, lastMatch, lastValidity } =
+      renderConfirm();
+
+    fireEvent.changeText(password, "Tr0ub4dor&3");
+    expect(lastMatch()).toBe("empty");
+    expect(lastValidity()).toBe(false);
+
+    fireEvent.changeText(confirmation, "Tr0ub4dor&3");
+    expect(lastMatch()).toBe("match");
+    expect(getByTestId("password-match")).toHaveTextContent(
+      "✓ Passwords match"
+    );
+    expect(lastValidity()).toBe(true);
+  });
+
+  it("waits for the user to finish before flagging a mismatch", () => {
+    const { password, confirmation, queryByTestId, lastMatch, lastValidity } =
+      renderConfirm();
+
+    fireEvent.changeText(password, "Tr0ub4dor&3");
+    fireEvent.changeText(confirmation, "Tr0ub");
+    expect(lastMatch()).toBe("partial");
+    expect(queryByTestId("password-match")).toBeNull();
+
+    fireEvent.changeText(confirmation, "Tr0ub4dor&4");
+    expect(lastMatch()).toBe("mismatch");
+    expect(queryByTestId("password-match")).toHaveTextContent(
+      "✗ Passwords do not match"
+    );
+    expect(lastValidity()).toBe(false);
+  });
+
+  it("becomes invalid again when either field is cleared", () => {
+    const { password, confirmation, lastMatch, lastValidity } = renderConfirm();
+
+    fireEvent.changeText(password, "Tr0ub4dor&3");
+    fireEvent.changeText(confirmation, "Tr0ub4dor&3");
+    expect(lastValidity()).toBe(true);
+
+    fireEvent.changeText(confirmation, "");
+    expect(lastMatch()).toBe("empty");
+    expect(lastValidity()).toBe(false);
+
+    fireEvent.changeText(confirmation, "Tr0ub4dor&3");
+    fireEvent.changeText(password, "");
+    expect(lastMatch()).toBe("mismatch");
+    expect(lastValidity()).toBe(false);
+  });
+
+  it("requires the strength level as well as the match", () => {
+    const { password, confirmation, lastValidity } = renderConfirm({
+      requiredLevel: "Medium",
+    });
+
+    fireEvent.changeText(password, "abcdefgh");
+    fireEvent.changeText(confirmation, "abcdefgh");
+    expect(lastValidity()).toBe(false);
+
+    fireEvent.changeText(password, "Maplebranch");
+    fireEvent.changeText(confirmation, "Maplebranch");
+    expect(lastValidity()).toBe(true);
+  });
+
+  it("toggles visibility of both fields with the one eye button", () => {
+    const { password, confirmation, getByTestId } = renderConfirm();
+    expect(password.props.secureTextEntry).toBe(true);
+    expect(confirmation.props.secureTextEntry).toBe(true);
+
+    fireEvent.press(getByTestId("visibility-toggle"));
+    expect(password.props.secureTextEntry).toBe(false);
+    expect(confirmation.props.secureTextEntry).toBe(false);
+
+    fireEvent.press(getByTestId("visibility-toggle"));
+    expect(password.props.secureTextEntry).toBe(true);
+    expect(confirmation.props.secureTextEntry).toBe(true);
+  });
+});
+
+describe("PasswordStrengthValidator - controlled and imperative API", () => {
+  it("renders and evaluates a prefilled value", () => {
+    const { getByPlaceholderText, getByText } = render(
+      <PasswordStrengthValidator value="Tr0ub4dor&3" onChangeText={jest.fn()} />
+    );
+    expect(getByPlaceholderText("Enter password").props.value).toBe(
+      "Tr0ub4dor&3"
+    );
+    expect(getByText("Strength: Strong")).toBeTruthy();
+  });
+
+  it("reports edits without changing a controlled value by itself", () => {
+    const onChangeText = jest.fn();
+    const { getByPlaceholderText, rerender } = render(
+      <PasswordStrengthValidator value="" onChangeText={onChangeText} />
+    );
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "abc");
+    expect(onChangeText).toHaveBeenCalledWith("abc");
+    expect(getByPlaceholderText("Enter password").props.value).toBe("");
+
+    rerender(
+      <PasswordStrengthValidator value="abc" onChangeText={onChangeText} />
+    );
+    expect(getByPlaceholderText("Enter password").props.value).toBe("abc");
+  });
+
+  it("still notifies onChangeText when uncontrolled", () => {
+    const onChangeText = jest.fn();
+    const { getByPlaceholderText } = render(
+      <PasswordStrengthValidator onChangeText={onChangeText} />
+    );
+
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "abc");
+    expect(onChangeText).toHaveBeenCalledWith("abc");
+    expect(getByPlaceholderText("Enter password").props.value).toBe("abc");
+  });
+
+  it("exposes focus, clear and getStrength through a ref", () => {
+    const ref = React.createRef<PasswordStrengthValidatorHandle>();
+    const { getByPlaceholderText } = render(
+      <PasswordStrengthValidator ref={ref} confirmPassword />
+    );
+    const password = getByPlaceholderText("Enter password");
+
+    fireEvent.changeText(password, "Tr0ub4dor&3");
+    fireEvent.changeText(getByPlaceholderText("Confirm password"), "Tr0ub");
+    expect(ref.current?.getStrength().level).toBe("Strong");
+
+    act(() => ref.current?.clear());
+    expect(password.props.value).toBe("");
+    expect(getByPlaceholderText("Confirm password").props.value).toBe("");
+    expect(ref.current?.getStrength().score).toBe(0);
+
+    expect(() => act(() => ref.current?.focus())).not.toThrow();
+  });
+
+  it("clears a controlled value through onChangeText", () => {
+    const ref = React.createRef<PasswordStrengthValidatorHandle>();
+    const onChangeText = jest.fn();
+    render(
+      <PasswordStrengthValidator
+        ref={ref}
+        value="secret"
+        onChangeText={onChangeText}
+      />
+    );
+
+    act(() => ref.current?.clear());
+    expect(onChangeText).toHaveBeenCalledWith("");
+  });
+});
+
+describe("PasswordStrengthValidator - theming", () => {
+  const mockScheme = useColorScheme as jest.Mock;
+
+  afterEach(() => mockScheme.mockReturnValue("light"));
+
+  it("matches snapshot in the dark scheme", () => {
+    mockScheme.mockReturnValue("dark");
+    const tree = renderWithProps().toJSON();
+    expect(tree).toMatchSnapshot();
+  });
+
+  it("draws colours from the active scheme", () => {
+    mockScheme.mockReturnValue("dark");
+    const { getByText, getByPlaceholderText } = renderWithProps();
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "abc");
+    expect(getByText(/Contains lowercase/)).toHaveStyle({
+      color: Colors.dark.success,
+    });
+    expect(getByText(/Contains uppercase/)).toHaveStyle({
+      color: Colors.dark.danger,
+    });
+    expect(getByPlaceholderText("Enter password")).toHaveStyle({
+      backgroundColor: Colors.dark.background,
+      borderColor: Colors.dark.inputBorder,
+    });
+  });
+
+  it("applies colour and style overrides per element", () => {
+    const { getByText, getByTestId, getByPlaceholderText } = renderWithProps({
+      colors: { danger: { light: "#800000" } },
+      styles: {
+        header: { fontSize: 24 },
+        strengthBarFill: { height: 12 },
+      },
+    });
+    fireEvent.changeText(getByPlaceholderText("Enter password"), "abc");
+    expect(getByText(/Contains uppercase/)).toHaveStyle({ color: "#800000" });
+    expect(getByText("Password")).toHaveStyle({
+      fontSize: 24,
+    });
+    expect(getByTestId("strength-bar-fill")).toHaveStyle({ height: 12 });
+  });
+});
+
+describe("PasswordStrengthValidator - accessibility", () => {
+  const announce = jest.spyOn(AccessibilityInfo, "announceForAccessibility");
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    announce.mockClear();
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it("exposes the meter as a progressbar with its value", () => {
+    const { getByRole, getByLabelText } = renderWithProps();
+    fireEvent.changeText(getByLabelText("Password"), "Abcdefg1");
+    const meter = getByRole("progressbar", { name: "Password strength" });
+    expect(meter.props.accessibilityValue).toEqual({
+      min: 0,
+      max: 100,
+      now: 72,
+      text: "Medium",
+    });
+  });
+
+  it("labels the visibility toggle and reports its state", () => {
+    const { getByRole, getByLabelText } = renderWithProps();
+    const toggle = getByRole("switch", { name: "Show password" });
+    expect(toggle).not.toBeChecked();
+    fireEvent.press(toggle);
+    expect(getByRole("switch", { name: "Show password" })).toBeChecked();
+    expect(getByLabelText("Password").props.secureTextEntry).toBe(false);
+  });
+
+  it("describes each criterion's state without relying on colour", () => {
+    const { getByLabelText } = renderWithProps();
+    fireEvent.changeText(getByLabelText("Password"), "abc");
+    expect(
+      getByLabelText("Met: Contains lowercase").props.accessibilityState
+    ).toEqual({ checked: true });
+    expect(
+      getByLabelText("Not met: Contains uppercase").props.accessibilityState
+    ).toEqual({ checked: false });
+  });
+
+  it("announces the level once typing settles", () => {
+    const { getByLabelText } = renderWithProps();
+    const input = getByLabelText("Password");
+    fireEvent.changeText(input, "abc");
+    fireEvent.changeText(input, "Abcdefg1");
+    fireEvent.changeText(input, "Qz7!vRw3Lp");
+    expect(announce).not.toHaveBeenCalled();
+    act(() => jest.runAllTimers());
+    expect(announce).toHaveBeenCalledTimes(1);
+    expect(announce).toHaveBeenCalledWith(
+      "Password strength is now Strong"
+    );
+  });
+
+  it("does not announce a level it has already announced", () => {
+    const { getByLabelText } = renderWithProps();
+    const input = getByLabelText("Password");
+    fireEvent.changeText(input, "Abcdefg1!");
+    act(() => jest.runAllTimers());
+    fireEvent.changeText(input, "Abcdefg1");
+    fireEvent.changeText(input, "Abcdefg1!");
+    act(() => jest.runAllTimers());
+    expect(announce).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("PasswordStrengthValidator - animation", () => {
+  const mockReducedMotion = useReducedMotion as jest.Mock;
+  const mockWithTiming = withTiming as jest.Mock;
+
+  beforeEach(() => mockWithTiming.mockClear());
+  afterEach(() => mockReducedMotion.mockReturnValue(false));
+
+  it("eases the bar towards the final width and tier colour", () => {
+    const { getByTestId, getByLabelText } = renderWithProps();
+    fireEvent.changeText(getByLabelText("Password"), "Qz7!vRw3Lp");
+    expect(getByTestId("strength-bar-fill")).toHaveStyle({
+      width: "100%",
+      backgroundColor: "#2ecc71",
+    });
+    expect(mockWithTiming).toHaveBeenCalledWith("100%", expect.anything());
+    expect(mockWithTiming).toHaveBeenCalledWith("#2ecc71", expect.anything());
+  });
+
+  it("settles criteria on their final colour and scale", () => {
+    const { getByLabelText } = renderWithProps();
+    fireEvent.changeText(getByLabelText("Password"), "abc");
+    fireEvent.changeText(getByLabelText("Password"), "Abc");
+    expect(getByLabelText("Met: Contains uppercase")).toHaveStyle({
+      color: Colors.light.success,
+      transform: [{ scale: 1 }],
+    });
+  });
+
+  it("applies values directly when reduced motion is requested", () => {
+    mockReducedMotion.mockReturnValue(true);
+    const { getByTestId, getByLabelText } = renderWithProps();
+    fireEvent.changeText(getByLabelText("Password"), "Qz7!vRw3Lp");
+    expect(getByTestId("strength-bar-fill")).toHaveStyle({ width: "100%" });
+    expect(getByLabelText("Met: Contains uppercase")).toHaveStyle({
+      color: Colors.light.success,
+    });
+    expect(mockWithTiming).not.toHaveBeenCalled();
+  });
+});
+
+describe("PasswordStrengthValidator - suggestions", () => {
+  it("fills in a generated password that meets the policy", () => {
+    const { getByRole, getByLabelText, getByText, mockFn } = renderWithProps({
+      random: seededRandomSource(4),
+    });
+    fireEvent.press(getByRole("button", { name: "Suggest a strong password" }));
+    const expected = generatePassword({}, { random: seededRandomSource(4) });
+    expect(getByLabelText("Password").props.value).toBe(expected);
+    expect(getByLabelText("Password").props.secureTextEntry).toBe(false);
+    expect(getByText("Strength: Strong")).toBeTruthy();
+    expect(mockFn).toHaveBeenLastCalledWith(
+      expect.objectContaining({ level: "Strong" })
+    );
+  });
+
+  it("suggests passphrases and fills the confirmation", () => {
+    const onMatchChange = jest.fn();
+    const { getByRole, getByLabelText } = renderWithProps({
+      generator: "passphrase",
+      confirmPassword: true,
+      onMatchChange,
+      minLength: 12,
+      random: seededRandomSource(8),
+    });
+    fireEvent.press(getByRole("button", { name: "Suggest a strong password" }));
+    const expected = generatePassphrase(
+      { minLength: 12 },
+      { random: seededRandomSource(8) }
+    );
+    expect(getByLabelText("Password").props.value).toBe(expected);
+    expect(getByLabelText("Confirm password").props.value).toBe(expected);
+    expect(onMatchChange).toHaveBeenLastCalledWith("match");
+  });
+
+  it("says so and disables the button when the policy cannot be met", () => {
+    const { getByRole, getByLabelText, getByText } = renderWithProps({
+      policy: {
+        rules: [{ id: "never", label: "Never", weight: 1, test: () => false }],
+      },
+      random: seededRandomSource(1),
+    });
+    const button = getByRole("button", { name: "Suggest a strong password" });
+    fireEvent.press(button);
+    expect(getByLabelText("Password").props.value).toBe("");
+    expect(
+      getByText("No password could be suggested for this policy")
+    ).toBeTruthy();
+    expect(button).toBeDisabled();
+  });
+
+  it("can be hidden", () => {
+    const { queryByRole } = renderWithProps({ generator: false });
+    expect(
+      queryByRole("button", { name: "Suggest a strong password" })
+    ).toBeNull();
+  });
+});
+
+describe("PasswordStrengthValidator - deferred evaluation", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const deferred = () => {
+    const pending: { password: string; resolve: (passed: boolean) => void }[] =
+      [];
+    const rule: PasswordRule = {
+      id: "remote",
+      label: "Passes the remote check",
+      weight: 1,
+      test: (password) =>
+        new Promise<boolean>((resolve) => pending.push({ password, resolve })),
+    };
+    return { pending, rules: [...BUILT_IN_RULES, rule] };
+  };
+
+  it("waits for the delay and shows Checking… meanwhile", () => {
+    const { getByLabelText, getByText, mockFn } = renderWithProps({
+      evaluationDelay: 300,
+    });
+    mockFn.mockClear();
+    fireEvent.changeText(getByLabelText("Password"), "Abc");
+    fireEvent.changeText(getByLabelText("Password"), "Abcdefg1");
+    expect(getByText("Checking…")).toBeTruthy();
+    expect(
+      getByLabelText("Password strength").props.accessibilityState
+    ).toEqual({ busy: true });
+    expect(mockFn).not.toHaveBeenCalled();
+
+    act(() => jest.advanceTimersByTime(300));
+    expect(getByText("Strength: Medium")).toBeTruthy();
+    expect(mockFn).toHaveBeenCalledTimes(1);
+    expect(mockFn).toHaveBeenCalledWith(
+      expect.objectContaining({ level: "Medium", score: 5.75 })
+    );
+  });
+
+  it("shows asynchronous rules as pending until they settle", async () => {
+    const { pending, rules } = deferred();
+    const { getByLabelText, getByText, mockFn } = renderWithProps({ rules });
+    mockFn.mockClear();
+    fireEvent.changeText(getByLabelText("Password"), "Tr0ub4dor&3");
+    expect(getByText("Checking…")).toBeTruthy();
+    expect(mockFn).not.toHaveBeenCalled();
+
+    await act(async () => pending[0].resolve(true));
+    expect(getByText("Strength: Strong")).toBeTruthy();
+    expect(getByLabelText("Met: Passes the remote check")).toBeTruthy();
+    expect(mockFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("never reports results for an outdated password", async () => {
+    const { pending, rules } = deferred();
+    const { getByLabelText, mockFn } = renderWithProps({ rules });
+    mockFn.mockClear();
+    fireEvent.changeText(getByLabelText("Password"), "Tr0ub4dor&3");
+    fireEvent.changeText(getByLabelText("Password"), "Tr0ub4dor&3x");
+
+    await act(async () => pending[0].resolve(true));
+    expect(mockFn).not.toHaveBeenCalled();
+
+    await act(async () => pending[1].resolve(false));
+    expect(mockFn).toHaveBeenCalledTimes(1);
+    expect(mockFn.mock.calls[0][0].criteria.remote).toBe(false);
+  });
+
+  it("aborts the previous run when the input changes", () => {
+    const signals: AbortSignal[] = [];
+    const rule: PasswordRule = {
+      id: "remote",
+      label: "Passes the remote check",
+      weight: 1,
+      test: (password, { signal }) => {
+        if (signal) signals.push(signal);
+        return new Promise<boolean>(() => {});
+      },
+    };
+    const { getByLabelText } = renderWithProps({
+      rules: [...BUILT_IN_RULES, rule],
+    });
+    fireEvent.changeText(getByLabelText("Password"), "Abc");
+    fireEvent.changeText(getByLabelText("Password"), "Abcd");
+    expect(signals.map(({ aborted }) => aborted)).toEqual([true, false]);
+  });
 });
@@ -0,0 +1,102 @@
+import React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react-native";
+import * as Clipboard from "expo-clipboard";
+import { PolicyPlayground } from "../playground/PolicyPlayground";
+
+jest.mock("react-native-vector-icons/Feather", () => "Icon");
+jest.mock("react-native-reanimated", () => ({
+  ...require("react-native-reanimated/mock"),
+  useReducedMotion: () => false,
+}));
+jest.mock("expo-clipboard", () => ({
+  setStringAsync: jest.fn(() => Promise.resolve(true)),
+}));
+jest.mock("../../hooks/useColorScheme", () => ({
+  useColorScheme: jest.fn(() => "light"),
+}));
+
+const typePassword = (password: string) =>
+  fireEvent.changeText(screen.getByPlaceholderText("Enter password"), password);
+
+describe("PolicyPlayground", () => {
+  it("explains the sample password as it is typed", () => {
+    render(<PolicyPlayground />);
+    typePassword("abcd1234");
+
+    expect(screen.getByTestId("strength-summary")).toHaveTextContent(
+      /^Level: WeakScore: 4\.5 \/ 8/
+    );
+    expect(screen.getByTestId("criterion-noSequences")).toHaveTextContent(
+      /✗ No sequences.*Predictable parts: "abcd", "1234"/
+    );
+    expect(screen.getByTestId("criterion-lowercase")).toHaveTextContent(
+      /^✓ Contains lowercase/
+    );
+    expect(screen.getByTestId("criterion-noPersonalInfo")).toHaveTextContent(
+      /not applicable/
+    );
+  });
+
+  it("re-evaluates when an option changes and updates the snippet", () => {
+    render(<PolicyPlayground />);
+    typePassword("Tr0ub4dor3");
+    expect(screen.getByTestId("criterion-specialChars")).toHaveTextContent(
+      /^✗ Contains special characters.*Add a special character/
+    );
+
+    fireEvent(
+      screen.getByLabelText("requireSpecialChars"),
+      "valueChange",
+      false
+    );
+    fireEvent(screen.getByTestId("min-length-slider"), "valueChange", 10);
+
+    expect(screen.getByTestId("criterion-specialChars")).toHaveTextContent(
+      /^– Contains special characters/
+    );
+    expect(screen.getByTestId("min-length-value")).toHaveTextContent("10");
+    expect(screen.getByTestId("criterion-length")).toHaveTextContent(
+      /^✓ Minimum length \(10\)/
+    );
+    expect(screen.getByTestId("strength-summary")).toHaveTextContent(
+      /^Level: Strong/
+    );
+    expect(screen.getByTestId("props-snippet").props.children).toBe(
+      [
+        "<PasswordStrengthValidator",
+        "  minLength={10}",
+        "  requireSpecialChars={false}",
+        "/>",
+      ].join("\n")
+    );
+
+    fireEvent.press(screen.getByText("Reset to defaults"));
+    expect(screen.getByTestId("props-snippet")).toHaveTextContent(
+      "<PasswordStrengthValidator />"
+    );
+  });
+
+  it("shows the raw result", () => {
+    render(<PolicyPlayground />);
+    typePassword("Tr0ub4dor&3");
+    fireEvent.press(screen.getByText("PasswordStrength JSON"));
+
+    const json = JSON.parse(
+      String(screen.getByTestId("strength-json").props.children)
+    );
+    expect(json).toMatchObject({ level: "Strong", score: 8, maxScore: 8 });
+  });
+
+  it("copies the props snippet", async () => {
+    render(<PolicyPlayground />);
+    fireEvent(screen.getByLabelText("preventDates"), "valueChange", false);
+    await act(async () => {
+      fireEvent.press(screen.getByRole("button", { name: "Copy props" }));
+    });
+
+    expect(Clipboard.setStringAsync).toHaveBeenCalledWith(
+      "<PasswordStrengthValidator\n  preventDates={false}\n/>"
+    );
+    expect(screen.getByText("Copied")).toBeTruthy();
+  });
+});
@@ -0,0 +1,152 @@
+import { forwardRef, type PropsWithChildren } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  type TextInputProps,
+} from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useThemeColor } from '@/hooks/useThemeColor';
+
+type AuthFormProps = PropsWithChildren<{
+  title: string;
+  description?: string;
+  submitLabel: string;
+  /** The submit button stays disabled until the form can be sent. */
+  canSubmit: boolean;
+  submitting: boolean;
+  error?: string;
+  onSubmit: () => void;
+}>;
+
+/**
+ * Layout shared by the auth screens: a scrolling form that keeps clear of
+ * the keyboard, an error announced to screen readers and a submit button
+ * that shows a spinner while the request is in flight.
+ */
+export function AuthForm({
+  title,
+  description,
+  submitLabel,
+  canSubmit,
+  submitting,
+  error,
+  onSubmit,
+  children,
+}: AuthFormProps) {
+  const tint = useThemeColor({}, 'tint');
+  const danger = useThemeColor({}, 'danger');
+  const background = useThemeColor({}, 'background');
+  const disabled = !canSubmit || submitting;
+
+  return (
+    <ThemedView style={styles.screen}>
+      <KeyboardAvoidingView
+        style={styles.screen}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled">
+          <ThemedText type="title">{title}</ThemedText>
+          {description && <ThemedText>{description}</ThemedText>}
+          {children}
+          {error && (
+            <Text
+              testID="form-error"
+              accessibilityRole="alert"
+              accessibilityLiveRegion="assertive"
+              style={[styles.error, { color: danger }]}>
+              {error}
+            </Text>
+          )}
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel={submitLabel}
+            accessibilityState={{ disabled, busy: submitting }}
+            disabled={disabled}
+            onPress={onSubmit}
+            style={[
+              styles.button,
+              { backgroundColor: tint, opacity: disabled ? 0.5 : 1 },
+            ]}>
+            {submitting ? (
+              <ActivityIndicator testID="form-submitting" color={background} />
+            ) : (
+              <Text style={[styles.buttonText, { color: background }]}>
+                {submitLabel}
+              </Text>
+            )}
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+type AuthTextInputProps = TextInputProps & { label: string };
+
+/** A labelled text field themed like the validator's input. */
+export const AuthTextInput = forwardRef<TextInput, AuthTextInputProps>(
+  function AuthTextInput({ label, style, ...rest }, ref) {
+    const text = useThemeColor({}, 'text');
+    const background = useThemeColor({}, 'background');
+    const border = useThemeColor({}, 'inputBorder');
+    const icon = useThemeColor({}, 'icon');
+
+    return (
+      <>
+        <ThemedText type="defaultSemiBold">{label}</ThemedText>
+        <TextInput
+          ref={ref}
+          accessibilityLabel={label}
+          placeholderTextColor={icon}
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={[
+            styles.input,
+            { color: text, backgroundColor: background, borderColor: border },
+            style,
+          ]}
+          {...rest}
+        />
+      </>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  content: {
+    gap: 12,
+    padding: 20,
+  },
+  error: {
+    fontSize: 14,
+  },
+  button: {
+    alignItems: 'center',
+    borderRadius: 8,
+    minHeight: 48,
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    fontSize: 16,
+    padding: 12,
+  },
+});
@@ -0,0 +1,84 @@
+import { useRef, useState } from 'react';
+
+import { AuthForm, AuthTextInput } from '@/components/auth/AuthForm';
+import PasswordStrengthValidator from '@/components/PassWordStrengthValidator';
+import { useAuth, usePreviousPasswords } from '@/hooks/useAuth';
+import { useServerRejection } from '@/hooks/useServerRejection';
+import { useSubmission } from '@/hooks/useSubmission';
+import { useTranslator } from '@/hooks/useTranslator';
+import { authErrorMessage } from '@/lib/auth/authError';
+import { Locale, PasswordStrengthValidatorHandle } from '@/types/Types';
+
+type Props = {
+  onChanged?: () => void;
+  /** Language of the form and the validator; English by default. */
+  locale?: string | Locale;
+};
+
+export function ChangePasswordForm({ onChanged, locale }: Props) {
+  const { service, histories } = useAuth();
+  const translator = useTranslator(locale);
+  const { t } = translator;
+  // Without a known account there is no local history; the server still
+  // checks its own.
+  const account = service.currentUser?.();
+  const previousPasswords = usePreviousPasswords(account);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [passwordValid, setPasswordValid] = useState(false);
+  const passwordRef = useRef<PasswordStrengthValidatorHandle>(null);
+
+  const { rules, track } = useServerRejection();
+
+  const { submitting, error, submit } = useSubmission(
+    async () => {
+      await track(
+        newPassword,
+        service.changePassword({ currentPassword, newPassword })
+      );
+      if (account !== undefined) await histories(account).add(newPassword);
+    },
+    onChanged,
+    (caught) => authErrorMessage(caught, translator)
+  );
+
+  const canSubmit = currentPassword.length > 0 && passwordValid;
+  const send = () => {
+    if (canSubmit) submit();
+  };
+
+  return (
+    <AuthForm
+      title={t('auth.changePassword.title')}
+      submitLabel={t('auth.changePassword.submit')}
+      canSubmit={canSubmit}
+      submitting={submitting}
+      error={error}
+      onSubmit={send}>
+      <AuthTextInput
+        label={t('auth.currentPassword')}
+        value={currentPassword}
+        onChangeText={setCurrentPassword}
+        editable={!submitting}
+        secureTextEntry
+        autoComplete="current-password"
+        textContentType="password"
+        returnKeyType="next"
+        submitBehavior="submit"
+        onSubmitEditing={() => passwordRef.current?.focus()}
+      />
+      <PasswordStrengthValidator
+        ref={passwordRef}
+        value={newPassword}
+        onChangeText={setNewPassword}
+        locale={locale}
+        confirmPassword
+        onValidityChange={setPasswordValid}
+        rules={rules}
+        currentPassword={currentPassword}
+        previousPasswords={previousPasswords}
+        onSubmitEditing={send}
+      />
+    </AuthForm>
+  );
+}
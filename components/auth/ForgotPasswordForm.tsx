@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { AuthForm, AuthTextInput } from '@/components/auth/AuthForm';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useAuth } from '@/hooks/useAuth';
+import { useSubmission } from '@/hooks/useSubmission';
+import { useTranslator } from '@/hooks/useTranslator';
+import { authErrorMessage } from '@/lib/auth/authError';
+import { Locale } from '@/types/Types';
+
+type Props = {
+  onRequested?: (email: string) => void;
+  /** Language of the form; English by default. */
+  locale?: string | Locale;
+};
+
+/**
+ * Asks the service to send a reset link. The service answers the same way
+ * whether or not the address has an account, and so does the form.
+ */
+export function ForgotPasswordForm({ onRequested, locale }: Props) {
+  const { service } = useAuth();
+  const translator = useTranslator(locale);
+  const { t } = translator;
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string>();
+
+  const { submitting, error, submit } = useSubmission(
+    async () => {
+      const address = email.trim();
+      await service.requestPasswordReset(address);
+      setSentTo(address);
+      onRequested?.(address);
+    },
+    undefined,
+    (caught) => authErrorMessage(caught, translator)
+  );
+
+  if (sentTo !== undefined) {
+    return (
+      <ThemedView testID="reset-link-sent" style={styles.sent}>
+        <ThemedText type="subtitle">{t('auth.forgotPassword.sent')}</ThemedText>
+        <ThemedText>{t('auth.forgotPassword.sentHelp', { email: sentTo })}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const canSubmit = email.trim().length > 0;
+  const send = () => {
+    if (canSubmit) submit();
+  };
+
+  return (
+    <AuthForm
+      title={t('auth.forgotPassword.title')}
+      description={t('auth.forgotPassword.description')}
+      submitLabel={t('auth.forgotPassword.submit')}
+      canSubmit={canSubmit}
+      submitting={submitting}
+      error={error}
+      onSubmit={send}>
+      <AuthTextInput
+        label={t('auth.email')}
+        value={email}
+        onChangeText={setEmail}
+        editable={!submitting}
+        keyboardType="email-address"
+        autoComplete="email"
+        textContentType="emailAddress"
+        returnKeyType="send"
+        onSubmitEditing={send}
+      />
+    </AuthForm>
+  );
+}
+
+const styles = StyleSheet.create({
+  sent: {
+    flex: 1,
+    gap: 12,
+    padding: 20,
+  },
+});
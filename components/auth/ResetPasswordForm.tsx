@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { AuthForm } from '@/components/auth/AuthForm';
+import PasswordStrengthValidator from '@/components/PassWordStrengthValidator';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useAuth } from '@/hooks/useAuth';
+import { useServerRejection } from '@/hooks/useServerRejection';
+import { useSubmission } from '@/hooks/useSubmission';
+import { useTranslator } from '@/hooks/useTranslator';
+import { authErrorMessage } from '@/lib/auth/authError';
+import { Locale } from '@/types/Types';
+
+type Props = {
+  /** The parsed token from the reset link; undefined when it was unusable. */
+  token?: string;
+  onReset?: () => void;
+  /** Offered on an unusable link, to ask for a new one. */
+  onRequestNewLink?: () => void;
+  /** Language of the form and the validator; English by default. */
+  locale?: string | Locale;
+};
+
+/**
+ * Sets a new password from a reset link. The token does not say whose
+ * account it is, so the local password history is neither checked nor
+ * updated; the server still refuses the account's recent passwords.
+ */
+export function ResetPasswordForm({ token, onReset, onRequestNewLink, locale }: Props) {
+  const { service } = useAuth();
+  const translator = useTranslator(locale);
+  const { t } = translator;
+  const [password, setPassword] = useState('');
+  const [passwordValid, setPasswordValid] = useState(false);
+
+  const { rules, track } = useServerRejection();
+
+  const { submitting, error, submit } = useSubmission(
+    async () => {
+      await track(
+        password,
+        service.resetPassword({ token: token ?? '', password })
+      );
+    },
+    onReset,
+    (caught) => authErrorMessage(caught, translator)
+  );
+
+  if (token === undefined) {
+    return (
+      <ThemedView testID="invalid-reset-link" style={styles.invalid}>
+        <ThemedText type="subtitle">{t('auth.resetPassword.invalidLink')}</ThemedText>
+        <ThemedText>{t('auth.resetPassword.invalidLinkHelp')}</ThemedText>
+        {onRequestNewLink && (
+          <ThemedText type="link" accessibilityRole="link" onPress={onRequestNewLink}>
+            {t('auth.resetPassword.requestNewLink')}
+          </ThemedText>
+        )}
+      </ThemedView>
+    );
+  }
+
+  const send = () => {
+    if (passwordValid) submit();
+  };
+
+  return (
+    <AuthForm
+      title={t('auth.resetPassword.title')}
+      description={t('auth.resetPassword.description')}
+      submitLabel={t('auth.resetPassword.submit')}
+      canSubmit={passwordValid}
+      submitting={submitting}
+      error={error}
+      onSubmit={send}>
+      <PasswordStrengthValidator
+        value={password}
+        onChangeText={setPassword}
+        locale={locale}
+        confirmPassword
+        onValidityChange={setPasswordValid}
+        rules={rules}
+        onSubmitEditing={send}
+      />
+    </AuthForm>
+  );
+}
+
+const styles = StyleSheet.create({
+  invalid: {
+    flex: 1,
+    gap: 12,
+    padding: 20,
+  },
+});
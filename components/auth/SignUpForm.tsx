@@ -0,0 +1,76 @@
+import { useRef, useState } from 'react';
+
+import { AuthForm, AuthTextInput } from '@/components/auth/AuthForm';
+import PasswordStrengthValidator from '@/components/PassWordStrengthValidator';
+import { useAuth } from '@/hooks/useAuth';
+import { useServerRejection } from '@/hooks/useServerRejection';
+import { useSubmission } from '@/hooks/useSubmission';
+import { useTranslator } from '@/hooks/useTranslator';
+import { authErrorMessage } from '@/lib/auth/authError';
+import { Locale, PasswordStrengthValidatorHandle } from '@/types/Types';
+
+type Props = {
+  onSignedUp?: () => void;
+  /** Language of the form and the validator; English by default. */
+  locale?: string | Locale;
+};
+
+export function SignUpForm({ onSignedUp, locale }: Props) {
+  const { service, histories } = useAuth();
+  const translator = useTranslator(locale);
+  const { t } = translator;
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordValid, setPasswordValid] = useState(false);
+  const passwordRef = useRef<PasswordStrengthValidatorHandle>(null);
+
+  const { rules, track } = useServerRejection();
+
+  const { submitting, error, submit } = useSubmission(
+    async () => {
+      await track(password, service.signUp({ email: email.trim(), password }));
+      await histories(email).add(password);
+    },
+    onSignedUp,
+    (caught) => authErrorMessage(caught, translator)
+  );
+
+  const canSubmit = email.trim().length > 0 && passwordValid;
+  const send = () => {
+    if (canSubmit) submit();
+  };
+
+  return (
+    <AuthForm
+      title={t('auth.signUp.title')}
+      submitLabel={t('auth.signUp.submit')}
+      canSubmit={canSubmit}
+      submitting={submitting}
+      error={error}
+      onSubmit={send}>
+      <AuthTextInput
+        label={t('auth.email')}
+        value={email}
+        onChangeText={setEmail}
+        editable={!submitting}
+        keyboardType="email-address"
+        autoComplete="email"
+        textContentType="emailAddress"
+        returnKeyType="next"
+        submitBehavior="submit"
+        onSubmitEditing={() => passwordRef.current?.focus()}
+      />
+      <PasswordStrengthValidator
+        ref={passwordRef}
+        value={password}
+        onChangeText={setPassword}
+        locale={locale}
+        confirmPassword
+        onValidityChange={setPasswordValid}
+        rules={rules}
+        userInputs={{ email }}
+        onSubmitEditing={send}
+      />
+    </AuthForm>
+  );
+}
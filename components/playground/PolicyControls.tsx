@@ -0,0 +1,81 @@
+import Slider from '@react-native-community/slider';
+import { Pressable, StyleSheet, Switch, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { DEFAULT_POLICY } from '@/lib/password/evaluatePassword';
+import {
+  MIN_LENGTH_RANGE,
+  PlaygroundProps,
+  POLICY_SWITCHES,
+} from '@/lib/password/playground';
+
+type Props = {
+  value: PlaygroundProps;
+  onChange: (value: PlaygroundProps) => void;
+};
+
+/** A slider for `minLength` and a switch for each `require*` and `prevent*` prop. */
+export function PolicyControls({ value, onChange }: Props) {
+  const tint = useThemeColor({}, 'tint');
+  const track = useThemeColor({}, 'track');
+  const minLength = value.minLength ?? DEFAULT_POLICY.minLength;
+
+  return (
+    <View style={styles.controls}>
+      <View style={styles.row}>
+        <ThemedText style={styles.prop}>minLength</ThemedText>
+        <ThemedText testID="min-length-value">{minLength}</ThemedText>
+      </View>
+      <Slider
+        testID="min-length-slider"
+        accessibilityLabel="minLength"
+        minimumValue={MIN_LENGTH_RANGE.min}
+        maximumValue={MIN_LENGTH_RANGE.max}
+        step={1}
+        value={minLength}
+        onValueChange={(length) => onChange({ ...value, minLength: length })}
+        minimumTrackTintColor={tint}
+        maximumTrackTintColor={track}
+        thumbTintColor={tint}
+      />
+      {POLICY_SWITCHES.map((field) => (
+        <View key={field} style={styles.row}>
+          <ThemedText style={styles.prop}>{field}</ThemedText>
+          <Switch
+            accessibilityLabel={field}
+            value={value[field] ?? DEFAULT_POLICY[field]}
+            onValueChange={(enabled) => onChange({ ...value, [field]: enabled })}
+            trackColor={{ true: tint, false: track }}
+          />
+        </View>
+      ))}
+      <Pressable
+        accessibilityRole="button"
+        onPress={() => onChange({})}
+        style={styles.reset}>
+        <ThemedText type="link">Reset to defaults</ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  controls: {
+    gap: 4,
+  },
+  row: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    minHeight: 40,
+  },
+  prop: {
+    fontFamily: 'SpaceMono',
+    fontSize: 14,
+  },
+  reset: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+  },
+});
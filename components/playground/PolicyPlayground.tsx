@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { Collapsible } from '@/components/Collapsible';
+import PasswordStrengthValidator from '@/components/PassWordStrengthValidator';
+import { PolicyControls } from '@/components/playground/PolicyControls';
+import { PropsSnippet } from '@/components/playground/PropsSnippet';
+import { ThemedText } from '@/components/ThemedText';
+import { usePasswordPolicy } from '@/hooks/usePasswordPolicy';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { emptyStrength } from '@/lib/password/evaluatePassword';
+import {
+  CriterionExplanation,
+  explainCriteria,
+  PlaygroundProps,
+} from '@/lib/password/playground';
+import { PasswordStrength, RuleStatus } from '@/types/Types';
+
+const STATUS_SYMBOLS: Record<RuleStatus, string> = {
+  passed: '✓',
+  failed: '✗',
+  notApplicable: '–',
+};
+
+/**
+ * Switches the validator's policy props and shows, as you type, what the
+ * validator makes of the sample password and the props that reproduce it.
+ */
+export function PolicyPlayground() {
+  const [props, setProps] = useState<PlaygroundProps>({});
+  const [password, setPassword] = useState('');
+  const [strength, setStrength] = useState<PasswordStrength>(emptyStrength);
+  const policy = usePasswordPolicy(undefined, props);
+  const text = useThemeColor({}, 'text');
+
+  return (
+    <View style={styles.container}>
+      <ThemedText type="subtitle">Policy</ThemedText>
+      <PolicyControls value={props} onChange={setProps} />
+
+      <ThemedText type="subtitle">Sample password</ThemedText>
+      <PasswordStrengthValidator
+        {...props}
+        value={password}
+        onChangeText={setPassword}
+        onStrengthChange={setStrength}
+      />
+
+      <ThemedText type="subtitle">Result</ThemedText>
+      <View testID="strength-summary">
+        <ThemedText>
+          {`Level: ${strength.level}${strength.pending ? ' (checking)' : ''}`}
+        </ThemedText>
+        <ThemedText>{`Score: ${strength.score} / ${strength.maxScore}`}</ThemedText>
+        {strength.entropyBits !== undefined && (
+          <ThemedText>{`Entropy: ${strength.entropyBits.toFixed(1)} bits`}</ThemedText>
+        )}
+        {strength.crackTimeDisplay !== undefined && (
+          <ThemedText>{`Time to crack: ${strength.crackTimeDisplay}`}</ThemedText>
+        )}
+        {strength.warning && <ThemedText>{`Warning: ${strength.warning}`}</ThemedText>}
+      </View>
+
+      <ThemedText type="subtitle">Criteria</ThemedText>
+      {explainCriteria(strength, policy).map((criterion) => (
+        <Criterion key={criterion.id} criterion={criterion} />
+      ))}
+
+      <Collapsible title="PasswordStrength JSON">
+        <Text testID="strength-json" selectable style={[styles.code, { color: text }]}>
+          {JSON.stringify(strength, null, 2)}
+        </Text>
+      </Collapsible>
+
+      <ThemedText type="subtitle">Props</ThemedText>
+      <PropsSnippet value={props} />
+    </View>
+  );
+}
+
+function Criterion({ criterion }: { criterion: CriterionExplanation }) {
+  const success = useThemeColor({}, 'success');
+  const danger = useThemeColor({}, 'danger');
+  const muted = useThemeColor({}, 'icon');
+  const { id, label, status, weight, mandatory, found, suggestion } = criterion;
+  const color = { passed: success, failed: danger, notApplicable: muted }[status];
+
+  return (
+    <View testID={`criterion-${id}`} style={styles.criterion}>
+      <Text style={[styles.criterionLabel, { color }]}>
+        {`${STATUS_SYMBOLS[status]} ${label}`}
+      </Text>
+      <Text style={[styles.criterionDetail, { color: muted }]}>
+        {[
+          id,
+          status === 'notApplicable' ? 'not applicable' : `weight ${weight}`,
+          mandatory && 'mandatory',
+        ]
+          .filter(Boolean)
+          .join(' · ')}
+      </Text>
+      {found && <Text style={[styles.criterionDetail, { color: muted }]}>{found}</Text>}
+      {suggestion && (
+        <Text style={[styles.criterionDetail, { color: muted }]}>{suggestion}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  criterion: {
+    gap: 2,
+  },
+  criterionLabel: {
+    fontSize: 16,
+  },
+  criterionDetail: {
+    fontSize: 13,
+    marginLeft: 18,
+  },
+  code: {
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,70 @@
+import * as Clipboard from 'expo-clipboard';
+import { useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { PlaygroundProps, validatorSnippet } from '@/lib/password/playground';
+
+type Props = {
+  value: PlaygroundProps;
+};
+
+/** The validator JSX for the playground's configuration, with a copy button. */
+export function PropsSnippet({ value }: Props) {
+  const [copied, setCopied] = useState<string>();
+  const snippet = validatorSnippet(value);
+  const text = useThemeColor({}, 'text');
+  const border = useThemeColor({}, 'inputBorder');
+  const tint = useThemeColor({}, 'tint');
+  const background = useThemeColor({}, 'background');
+
+  const copy = async () => {
+    await Clipboard.setStringAsync(snippet);
+    setCopied(snippet);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text
+        testID="props-snippet"
+        selectable
+        style={[styles.code, { color: text, borderColor: border }]}>
+        {snippet}
+      </Text>
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel="Copy props"
+        onPress={copy}
+        style={[styles.button, { backgroundColor: tint }]}>
+        <ThemedText style={[styles.buttonText, { color: background }]}>
+          {copied === snippet ? 'Copied' : 'Copy props'}
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  code: {
+    borderRadius: 8,
+    borderWidth: 1,
+    fontFamily: 'SpaceMono',
+    fontSize: 13,
+    padding: 12,
+  },
+  button: {
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 8,
+    minHeight: 40,
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+  },
+  buttonText: {
+    fontWeight: '600',
+  },
+});
@@ -14,6 +14,13 @@ export const Colors = {
     icon: '#687076',
     tabIconDefault: '#687076',
     tabIconSelected: tintColorLight,
+    surface: '#fff',
+    textMuted: '#B7B7B7',
+    inputBorder: '#808080',
+    track: '#ddd',
+    danger: '#e74c3c',
+    warning: '#e67e22',
+    success: '#27ae60',
   },
   dark: {
     text: '#ECEDEE',
@@ -22,5 +29,12 @@ export const Colors = {
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
+    surface: '#1E2022',
+    textMuted: '#7D8489',
+    inputBorder: '#3A3F42',
+    track: '#2C3135',
+    danger: '#FF6B5B',
+    warning: '#FFA94D',
+    success: '#51CF66',
   },
 };
@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+/**
+ * Reads `message` out through the screen reader once it has stopped
+ * changing for `delay` milliseconds, so typing quickly through several
+ * levels announces only where it settles. Nothing is announced for the
+ * initial message, an `undefined` message, or a repeat of the last one.
+ */
+export function useAnnouncement(message: string | undefined, delay = 750) {
+  const lastMessage = useRef(message);
+
+  useEffect(() => {
+    if (message === undefined || message === lastMessage.current) return;
+    const timer = setTimeout(() => {
+      lastMessage.current = message;
+      AccessibilityInfo.announceForAccessibility(message);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [message, delay]);
+}
@@ -0,0 +1,69 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+
+import { createMockAuthService } from '@/lib/auth/mockAuthService';
+import { resetPasswordPath } from '@/lib/auth/resetToken';
+import {
+  AccountPasswordHistories,
+  createAccountPasswordHistories,
+} from '@/lib/password/history';
+import { AuthService, PasswordHash } from '@/types/Types';
+
+export interface AuthContextValue {
+  service: AuthService;
+  /** Hashes of the passwords each account chose on this device, newest first. */
+  histories: AccountPasswordHistories;
+}
+
+let fallback: AuthContextValue | undefined;
+
+/** Until there is a backend, screens outside a provider share a local mock. */
+const defaultAuth = (): AuthContextValue => {
+  fallback ??= {
+    service: createMockAuthService({
+      latency: 500,
+      // The mock sends no email; in development the link is logged instead,
+      // so the reset screen can be opened with its token.
+      onResetRequested: (email, token) => {
+        if (__DEV__) console.log(`Reset link for ${email}: ${resetPasswordPath(token)}`);
+      },
+    }),
+    histories: createAccountPasswordHistories(),
+  };
+  return fallback;
+};
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const AuthProvider = AuthContext.Provider;
+
+/** The auth backend and password histories for the auth screens. */
+export function useAuth(): AuthContextValue {
+  return useContext(AuthContext) ?? defaultAuth();
+}
+
+/**
+ * The account's stored password history, empty until it has been read or
+ * when no account is known.
+ */
+export function usePreviousPasswords(account?: string): PasswordHash[] {
+  const { histories } = useAuth();
+  const [entries, setEntries] = useState<PasswordHash[]>([]);
+
+  useEffect(() => {
+    if (account === undefined) {
+      setEntries([]);
+      return;
+    }
+    let active = true;
+    histories(account)
+      .entries()
+      .then((loaded) => {
+        if (active) setEntries(loaded);
+      });
+    return () => {
+      active = false;
+    };
+  }, [histories, account]);
+
+  return entries;
+}
@@ -0,0 +1,25 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * State that a parent may control. When `value` is defined it wins and
+ * updates only go to `onChange`; otherwise the state is kept locally and
+ * `onChange` is still notified.
+ */
+export function useControllableState<T>(
+  value: T | undefined,
+  onChange: ((next: T) => void) | undefined,
+  initialValue: T
+): [T, (next: T) => void] {
+  const [localValue, setLocalValue] = useState<T>(initialValue);
+  const controlled = value !== undefined;
+
+  const setValue = useCallback(
+    (next: T) => {
+      if (!controlled) setLocalValue(next);
+      onChange?.(next);
+    },
+    [controlled, onChange]
+  );
+
+  return [controlled ? value : localValue, setValue];
+}
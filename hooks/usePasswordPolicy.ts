@@ -0,0 +1,46 @@
+import { useRef } from 'react';
+
+import { resolvePolicy } from '@/lib/password/evaluatePassword';
+import { PasswordPolicy, PolicySource } from '@/types/Types';
+
+/** Same value, or arrays and plain objects whose entries are the same values. */
+const sameField = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) =>
+        Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+      )
+    );
+  }
+  return false;
+};
+
+const samePolicy = (a: PasswordPolicy, b: PasswordPolicy) =>
+  (Object.keys({ ...a, ...b }) as (keyof PasswordPolicy)[]).every((field) =>
+    sameField(a[field], b[field])
+  );
+
+/**
+ * Resolves a preset name or policy object plus per-field overrides into the
+ * full policy the validator enforces. Screens can call it directly to show
+ * the active policy, e.g. on a settings screen.
+ *
+ * The result keeps its identity while its content is unchanged, so inline
+ * `policy={{ minLength: 12 }}` objects and `rules` arrays rebuilt from the
+ * same rules do not re-run the evaluation on every parent render.
+ */
+export function usePasswordPolicy(
+  policy?: PolicySource,
+  overrides: Partial<PasswordPolicy> = {}
+): PasswordPolicy {
+  const resolved = resolvePolicy(policy, overrides);
+  const previous = useRef(resolved);
+  if (!samePolicy(previous.current, resolved)) previous.current = resolved;
+  return previous.current;
+}
@@ -0,0 +1,43 @@
+import { useMemo, useState } from 'react';
+
+import {
+  applyServerRejection,
+  isPasswordRejection,
+  ServerRejection,
+} from '@/lib/auth/rejections';
+import { resolvePolicy } from '@/lib/password/evaluatePassword';
+import { PasswordRule, PolicySource } from '@/types/Types';
+
+export interface ServerRejectionState {
+  /** Rules for the validator's `rules` prop; undefined until a rejection. */
+  rules?: PasswordRule[];
+  /**
+   * Awaits a request that sends `password`, remembering the server's
+   * rejection of it before rethrowing.
+   */
+  track: <T>(password: string, request: Promise<T>) => Promise<T>;
+}
+
+/** Shows the server's reasons for refusing a password in the validator. */
+export function useServerRejection(policy?: PolicySource): ServerRejectionState {
+  const [rejection, setRejection] = useState<ServerRejection>();
+
+  const rules = useMemo(
+    () =>
+      rejection && applyServerRejection(resolvePolicy(policy).rules, rejection),
+    [rejection, policy]
+  );
+
+  const track = async <T>(password: string, request: Promise<T>) => {
+    try {
+      return await request;
+    } catch (error) {
+      if (isPasswordRejection(error)) {
+        setRejection({ password, rejections: error.rejections });
+      }
+      throw error;
+    }
+  };
+
+  return { rules, track };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+
+export interface Submission {
+  submitting: boolean;
+  /** Message of the last failed attempt, cleared when the next one starts. */
+  error?: string;
+  submit: () => Promise<void>;
+}
+
+const errorMessage = (caught: unknown) =>
+  caught instanceof Error ? caught.message : String(caught);
+
+/**
+ * Runs a form's asynchronous submit, one attempt at a time, and tracks
+ * whether it is in flight and why it last failed, in the words of
+ * `describeError`.
+ */
+export function useSubmission(
+  action: () => Promise<void>,
+  onSuccess?: () => void,
+  describeError: (caught: unknown) => string = errorMessage
+): Submission {
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+  const inFlight = useRef(false);
+  const mounted = useRef(true);
+
+  useEffect(
+    () => () => {
+      mounted.current = false;
+    },
+    []
+  );
+
+  const submit = async () => {
+    if (inFlight.current) return;
+    inFlight.current = true;
+    setSubmitting(true);
+    setError(undefined);
+    try {
+      await action();
+      inFlight.current = false;
+      if (mounted.current) setSubmitting(false);
+      onSuccess?.();
+    } catch (caught) {
+      inFlight.current = false;
+      if (!mounted.current) return;
+      setError(describeError(caught));
+      setSubmitting(false);
+    }
+  };
+
+  return { submitting, error, submit };
+}
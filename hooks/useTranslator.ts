@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+
+import { createTranslator } from '@/lib/password/i18n';
+import { Locale, Messages, Translator } from '@/types/Types';
+
+/**
+ * Builds the translator for a locale code or catalog plus message
+ * overrides. The locale's `direction` tells screens whether to lay out
+ * right-to-left.
+ */
+export function useTranslator(
+  locale?: string | Locale,
+  overrides: Messages = {}
+): Translator {
+  // Keyed on the contents so an inline overrides object is stable.
+  const overridesKey = JSON.stringify(overrides);
+
+  return useMemo(
+    () => createTranslator(locale, overrides),
+    [locale, overridesKey]
+  );
+}
@@ -0,0 +1,120 @@
+import { AuthService } from "../../../types/Types";
+import { AuthError, parseAuthErrorDetails } from "../authError";
+import { AUTH_ENDPOINTS, createHttpAuthService } from "../httpAuthService";
+import { createMockAuthService } from "../mockAuthService";
+import { seededRandomSource } from "../../password/generator";
+import { BUILT_IN_RULES } from "../../password/rules";
+
+/**
+ * A `fetch` that answers from a mock service in process, serialising its
+ * errors the way the backend does, so the HTTP client is tested offline.
+ */
+const fetchFrom =
+  (service: AuthService) =>
+  async (url: string | URL | Request, init?: RequestInit) => {
+    const path = String(url).replace("https://api.test/auth", "");
+    const body = JSON.parse(String(init?.body));
+    const handlers: Record<string, () => Promise<void>> = {
+      [AUTH_ENDPOINTS.signUp]: () => service.signUp(body),
+      [AUTH_ENDPOINTS.changePassword]: () => service.changePassword(body),
+      [AUTH_ENDPOINTS.requestPasswordReset]: () =>
+        service.requestPasswordReset(body.email),
+      [AUTH_ENDPOINTS.resetPassword]: () => service.resetPassword(body),
+    };
+    try {
+      await handlers[path]();
+      return new Response(null, { status: 204 });
+    } catch (error) {
+      return new Response(JSON.stringify((error as AuthError).toJSON()), {
+        status: 422,
+      });
+    }
+  };
+
+const setup = (policy = {}) => {
+  const server = createMockAuthService({
+    policy,
+    random: seededRandomSource(5),
+  });
+  const fetch = jest.fn(fetchFrom(server));
+  const client = createHttpAuthService({
+    baseUrl: "https://api.test/auth/",
+    fetch,
+    headers: { "X-Api-Key": "test" },
+  });
+  return { client, fetch };
+};
+
+describe("createHttpAuthService", () => {
+  it("posts JSON to the endpoints", async () => {
+    const { client, fetch } = setup();
+    await client.signUp({ email: "road@example.com", password: "Tr0ub4dor&3" });
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.test/auth/sign-up",
+      expect.objectContaining({
+        method: "POST",
+        headers: expect.objectContaining({
+          "Content-Type": "application/json",
+          "X-Api-Key": "test",
+        }),
+        body: JSON.stringify({
+          email: "road@example.com",
+          password: "Tr0ub4dor&3",
+        }),
+      })
+    );
+  });
+
+  it("rebuilds the server's structured rejection", async () => {
+    const { client } = setup({
+      minLength: 12,
+      rules: BUILT_IN_RULES.map((rule) =>
+        rule.id === "length" ? { ...rule, mandatory: true } : rule
+      ),
+    });
+    const error = await client
+      .signUp({ email: "road@example.com", password: "Tr0ub4dor&3" })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.toJSON()).toEqual({
+      code: "passwordRejected",
+      message: "Choose a password that meets every requirement",
+      rejections: [{ rule: "length", message: "Minimum length (12)" }],
+    });
+  });
+
+  it("falls back to the status for unexpected responses", async () => {
+    const client = createHttpAuthService({
+      baseUrl: "https://api.test/auth",
+      fetch: async () => new Response("Bad gateway", { status: 502 }),
+    });
+    await expect(client.requestPasswordReset("a@b.co")).rejects.toThrow(
+      "Request failed with status 502"
+    );
+  });
+});
+
+describe("parseAuthErrorDetails", () => {
+  it("keeps well-formed rejections only", () => {
+    expect(
+      parseAuthErrorDetails({
+        code: "passwordRejected",
+        message: "No",
+        rejections: [{ rule: "length", message: "Too short" }, { rule: 4 }],
+      })
+    ).toEqual({
+      code: "passwordRejected",
+      message: "No",
+      rejections: [{ rule: "length", message: "Too short" }],
+    });
+  });
+
+  it("ignores bodies that are not auth errors", () => {
+    expect(parseAuthErrorDetails(undefined)).toBeUndefined();
+    expect(parseAuthErrorDetails({ code: "teapot", message: "No" })).toBe(
+      undefined
+    );
+  });
+});
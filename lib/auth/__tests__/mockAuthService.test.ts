@@ -0,0 +1,159 @@
+import { seededRandomSource } from "../../password/generator";
+import { BUILT_IN_RULES } from "../../password/rules";
+import { createMockAuthService } from "../mockAuthService";
+import { parseResetToken } from "../resetToken";
+
+const setup = (options = {}) => {
+  const tokens: string[] = [];
+  const service = createMockAuthService({
+    accounts: [{ email: "wile@example.com", password: "Acme-Rocket-42" }],
+    random: seededRandomSource(3),
+    onResetRequested: (email, token) => tokens.push(token),
+    ...options,
+  });
+  return { service, tokens };
+};
+
+describe("createMockAuthService", () => {
+  it("signs up new accounts and signs them in", async () => {
+    const { service } = setup();
+    await service.signUp({
+      email: " Road@Example.com",
+      password: "Beep-Beep-99",
+    });
+    expect(service.currentUser()).toBe("road@example.com");
+  });
+
+  it("rejects invalid and taken emails", async () => {
+    const { service } = setup();
+    await expect(
+      service.signUp({ email: "not-an-email", password: "x" })
+    ).rejects.toThrow("Enter a valid email address");
+    await expect(
+      service.signUp({ email: "WILE@example.com", password: "x" })
+    ).rejects.toThrow("An account with this email already exists");
+  });
+
+  it("rejects with structured errors", async () => {
+    const { service } = setup();
+    await expect(
+      service.signUp({ email: "wile@example.com", password: "x" })
+    ).rejects.toMatchObject({
+      name: "AuthError",
+      code: "emailTaken",
+      rejections: [],
+    });
+  });
+
+  it("re-validates new passwords with the server's policy", async () => {
+    // Twelve characters, and unlike the client's rule, no exceptions.
+    const { service } = setup({
+      policy: {
+        minLength: 12,
+        rules: BUILT_IN_RULES.map((rule) =>
+          rule.id === "length" ? { ...rule, mandatory: true } : rule
+        ),
+      },
+    });
+    const error = await service
+      .signUp({ email: "road@example.com", password: "Tr0ub4dor&3" })
+      .catch((caught) => caught);
+
+    expect(error.code).toBe("passwordRejected");
+    expect(error.rejections).toEqual([
+      { rule: "length", message: "Minimum length (12)" },
+    ]);
+    expect(service.currentUser()).toBeUndefined();
+  });
+
+  it("refuses the account's recent passwords", async () => {
+    const { service } = setup();
+    await service.signUp({
+      email: "road@example.com",
+      password: "Tr0ub4dor&3",
+    });
+    await service.changePassword({
+      currentPassword: "Tr0ub4dor&3",
+      newPassword: "Correct-Horse-7",
+    });
+
+    await expect(
+      service.changePassword({
+        currentPassword: "Correct-Horse-7",
+        newPassword: "Tr0ub4dor&4",
+      })
+    ).rejects.toMatchObject({
+      code: "passwordRejected",
+      rejections: [
+        { rule: "noPasswordReuse", message: "Not a previous password" },
+      ],
+    });
+  });
+
+  it("changes the password only with the current one", async () => {
+    const { service } = setup();
+    await expect(
+      service.changePassword({ currentPassword: "a", newPassword: "b" })
+    ).rejects.toThrow("Sign in to change your password");
+
+    await service.signUp({
+      email: "road@example.com",
+      password: "Beep-Beep-99",
+    });
+    await expect(
+      service.changePassword({ currentPassword: "wrong", newPassword: "b" })
+    ).rejects.toThrow("The current password is incorrect");
+    await service.changePassword({
+      currentPassword: "Beep-Beep-99",
+      newPassword: "Meep-Meep-100",
+    });
+    await expect(
+      service.changePassword({
+        currentPassword: "Beep-Beep-99",
+        newPassword: "x",
+      })
+    ).rejects.toThrow("The current password is incorrect");
+  });
+
+  it("issues single-use reset tokens that parse from a link", async () => {
+    const { service, tokens } = setup();
+    await service.requestPasswordReset("nobody@example.com");
+    expect(tokens).toHaveLength(0);
+
+    await service.requestPasswordReset("wile@example.com");
+    const [token] = tokens;
+    expect(parseResetToken(token)).toBe(token);
+
+    await service.resetPassword({ token, password: "New-Rocket-43" });
+    await expect(
+      service.resetPassword({ token, password: "Another-44" })
+    ).rejects.toThrow("This reset link is invalid or has expired");
+  });
+
+  it("expires reset tokens", async () => {
+    let time = 0;
+    const { service, tokens } = setup({ now: () => time, tokenLifetime: 1000 });
+    await service.requestPasswordReset("wile@example.com");
+    time = 1000;
+    await expect(
+      service.resetPassword({ token: tokens[0], password: "New-Rocket-43" })
+    ).rejects.toThrow("This reset link is invalid or has expired");
+  });
+
+  it("answers after the configured latency", async () => {
+    jest.useFakeTimers();
+    try {
+      const { service } = setup({ latency: 500 });
+      const settled = jest.fn();
+      service
+        .signUp({ email: "road@example.com", password: "Beep-Beep-99" })
+        .then(settled);
+      await Promise.resolve();
+      expect(settled).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(500);
+      expect(settled).toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { AuthError } from "../authError";
+import { evaluatePassword } from "../../password/evaluatePassword";
+import { BUILT_IN_RULES } from "../../password/rules";
+import { applyServerRejection, isPasswordRejection } from "../rejections";
+
+const REFUSED = "Tr0ub4dor&3";
+
+const withRejection = (rejections: { rule: string; message: string }[]) => ({
+  rules: applyServerRejection(BUILT_IN_RULES, {
+    password: REFUSED,
+    rejections,
+  }),
+});
+
+describe("applyServerRejection", () => {
+  it("fails the client's rule with the server's label", () => {
+    const policy = withRejection([
+      { rule: "length", message: "Minimum length (12)" },
+    ]);
+    const result = evaluatePassword(REFUSED, policy);
+
+    expect(evaluatePassword(REFUSED).criteria.length).toBe(true);
+    expect(result.criteria.length).toBe(false);
+    expect(result.level).toBe("Weak");
+    expect(result.suggestions[0]).toMatchObject({
+      id: "length",
+      message: expect.stringContaining("Minimum length (12)"),
+    });
+  });
+
+  it("applies the client's rule again once the password changes", () => {
+    const policy = withRejection([
+      { rule: "length", message: "Minimum length (12)" },
+    ]);
+    expect(evaluatePassword("Tr0ub4dor&3x", policy).criteria.length).toBe(true);
+    expect(evaluatePassword("Tr0&3", policy).criteria.length).toBe(false);
+  });
+
+  it("applies rules the client policy switched off", () => {
+    const rules = applyServerRejection(BUILT_IN_RULES, {
+      password: "tr0ub4dor&3",
+      rejections: [{ rule: "uppercase", message: "Contains uppercase" }],
+    });
+    const result = evaluatePassword("tr0ub4dor&3", {
+      requireUppercase: false,
+      rules,
+    });
+    expect(result.status.uppercase).toBe("failed");
+  });
+
+  it("adds server-only rules without changing the score", () => {
+    const policy = withRejection([
+      { rule: "notBreached", message: "Not in a known breach" },
+    ]);
+    const result = evaluatePassword(REFUSED, policy);
+
+    expect(result.criteria.notBreached).toBe(false);
+    expect(result.maxScore).toBe(evaluatePassword(REFUSED).maxScore);
+    expect(result.level).toBe("Weak");
+    expect(evaluatePassword("Tr0ub4dor&4", policy).criteria.notBreached).toBe(
+      true
+    );
+  });
+});
+
+describe("isPasswordRejection", () => {
+  it("recognises only rejected passwords", () => {
+    expect(
+      isPasswordRejection(
+        new AuthError({ code: "passwordRejected", message: "No" })
+      )
+    ).toBe(true);
+    expect(
+      isPasswordRejection(new AuthError({ code: "emailTaken", message: "No" }))
+    ).toBe(false);
+    expect(isPasswordRejection(new Error("No"))).toBe(false);
+  });
+});
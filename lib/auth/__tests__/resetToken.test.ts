@@ -0,0 +1,33 @@
+import { parseResetToken, resetPasswordPath } from "../resetToken";
+
+const TOKEN = "3f9a0c2e7b1d4e6fa8c5b2d1e0f9a7c3";
+
+describe("parseResetToken", () => {
+  it("accepts a URL-safe token", () => {
+    expect(parseResetToken(TOKEN)).toBe(TOKEN);
+    expect(parseResetToken(` ${TOKEN}\n`)).toBe(TOKEN);
+    expect(parseResetToken("AbC_dEf-123456789")).toBe("AbC_dEf-123456789");
+  });
+
+  it("takes the first of repeated parameters", () => {
+    expect(parseResetToken([TOKEN, "other-token-value"])).toBe(TOKEN);
+  });
+
+  it("rejects missing, short or malformed tokens", () => {
+    expect(parseResetToken(undefined)).toBeUndefined();
+    expect(parseResetToken("")).toBeUndefined();
+    expect(parseResetToken([])).toBeUndefined();
+    expect(parseResetToken("abc123")).toBeUndefined();
+    expect(parseResetToken(`${TOKEN}&next=/admin`)).toBeUndefined();
+    expect(parseResetToken("a".repeat(257))).toBeUndefined();
+  });
+});
+
+describe("resetPasswordPath", () => {
+  it("round-trips through the parser", () => {
+    const path = resetPasswordPath(TOKEN);
+    expect(path).toBe(`/reset-password?token=${TOKEN}`);
+    const token = new URLSearchParams(path.split("?")[1]).get("token");
+    expect(parseResetToken(token ?? undefined)).toBe(TOKEN);
+  });
+});
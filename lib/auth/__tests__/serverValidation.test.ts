@@ -0,0 +1,67 @@
+import { PasswordRule } from "../../../types/Types";
+import { BUILT_IN_RULES } from "../../password/rules";
+import { passwordRejections, STRENGTH_REJECTION } from "../serverValidation";
+
+describe("passwordRejections", () => {
+  it("accepts a password that reaches the required tier", async () => {
+    await expect(passwordRejections("Tr0ub4dor&3")).resolves.toEqual([]);
+    await expect(
+      passwordRejections("abcdefgh", { requiredLevel: "Weak" })
+    ).resolves.toEqual([]);
+  });
+
+  it("lists every failed rule with the server's label", async () => {
+    const rejections = await passwordRejections("password", {
+      policy: { minLength: 12 },
+    });
+    expect(rejections).toEqual(
+      expect.arrayContaining([
+        { rule: "length", message: "Minimum length (12)" },
+        { rule: "uppercase", message: "Contains uppercase" },
+        { rule: "noCommonPatterns", message: "No common patterns" },
+      ])
+    );
+    expect(rejections.map(({ rule }) => rule)).not.toContain("lowercase");
+  });
+
+  it("rejects a Strong password that is too short", async () => {
+    await expect(passwordRejections("Ab1!xQz")).resolves.toEqual([
+      { rule: "length", message: "Minimum length (8)" },
+    ]);
+  });
+
+  it("waits for asynchronous rules", async () => {
+    const breached: PasswordRule = {
+      id: "notBreached",
+      label: "Not in a known breach",
+      weight: 1,
+      mandatory: true,
+      test: () => Promise.resolve(false),
+    };
+    await expect(
+      passwordRejections("Tr0ub4dor&3", {
+        policy: { rules: [...BUILT_IN_RULES, breached] },
+      })
+    ).resolves.toEqual([
+      { rule: "notBreached", message: "Not in a known breach" },
+    ]);
+  });
+
+  it("checks the user's data and history", async () => {
+    const rejections = await passwordRejections("Wile-Coyote-2024", {
+      userInputs: { displayName: "Wile Coyote" },
+      currentPassword: "Wile-Coyote-2023",
+    });
+    expect(rejections.map(({ rule }) => rule)).toEqual(
+      expect.arrayContaining(["noPersonalInfo", "noPasswordReuse"])
+    );
+  });
+
+  it("reports a weak password that fails no rule", async () => {
+    await expect(
+      passwordRejections("Gx7#qPm2", { policy: { estimator: "entropy" } })
+    ).resolves.toEqual([
+      { rule: STRENGTH_REJECTION, message: "Choose a stronger password" },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+// authError.ts
+//
+// The error every AuthService rejects with, whether the failure came from
+// the in-process mock or over HTTP, so screens handle both the same way.
+import {
+  AuthErrorCode,
+  AuthErrorDetails,
+  PasswordRejection,
+  Translator,
+} from "../../types/Types";
+
+export class AuthError extends Error {
+  code: AuthErrorCode;
+  rejections: PasswordRejection[];
+
+  constructor({ code, message, rejections = [] }: AuthErrorDetails) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+    this.rejections = rejections;
+  }
+
+  toJSON(): AuthErrorDetails {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.rejections.length > 0 && { rejections: this.rejections }),
+    };
+  }
+}
+
+const AUTH_ERROR_CODES: AuthErrorCode[] = [
+  "invalidEmail",
+  "emailTaken",
+  "notSignedIn",
+  "wrongPassword",
+  "invalidToken",
+  "passwordRejected",
+];
+
+const isRejection = (value: unknown): value is PasswordRejection =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as PasswordRejection).rule === "string" &&
+  typeof (value as PasswordRejection).message === "string";
+
+/** Reads an error body from the server, or undefined when it is not one. */
+export const parseAuthErrorDetails = (
+  body: unknown
+): AuthErrorDetails | undefined => {
+  if (typeof body !== "object" || body === null) return undefined;
+  const { code, message, rejections } = body as Record<string, unknown>;
+  if (
+    !AUTH_ERROR_CODES.includes(code as AuthErrorCode) ||
+    typeof message !== "string"
+  ) {
+    return undefined;
+  }
+  return {
+    code: code as AuthErrorCode,
+    message,
+    ...(Array.isArray(rejections) && {
+      rejections: rejections.filter(isRejection),
+    }),
+  };
+};
+
+/**
+ * What a screen shows for a failed request: an AuthError in the
+ * translator's language by its code, anything else by its own message.
+ */
+export const authErrorMessage = (error: unknown, { t }: Translator): string => {
+  if (error instanceof AuthError) {
+    return t(`auth.errors.${error.code}`, {}, error.message);
+  }
+  return error instanceof Error ? error.message : String(error);
+};
@@ -0,0 +1,57 @@
+// httpAuthService.ts
+//
+// The AuthService for a real backend: JSON over `fetch`. Error bodies are
+// read back into AuthErrors, so screens cannot tell it from the mock.
+import { AuthService } from "../../types/Types";
+import { AuthError, parseAuthErrorDetails } from "./authError";
+
+export interface HttpAuthServiceOptions {
+  /** Prefix of the endpoints, e.g. `https://api.example.com/auth`. */
+  baseUrl: string;
+  /** Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /** Sent with every request, e.g. an API key. */
+  headers?: Record<string, string>;
+}
+
+export const AUTH_ENDPOINTS = {
+  signUp: "/sign-up",
+  changePassword: "/change-password",
+  requestPasswordReset: "/password-reset-requests",
+  resetPassword: "/reset-password",
+} as const;
+
+export const createHttpAuthService = ({
+  baseUrl,
+  fetch: request = (...args) => fetch(...args),
+  headers = {},
+}: HttpAuthServiceOptions): AuthService => {
+  const post = async (path: string, body: object): Promise<void> => {
+    const response = await request(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+    if (response.ok) return;
+
+    const details = parseAuthErrorDetails(
+      await response.json().catch(() => undefined)
+    );
+    throw details
+      ? new AuthError(details)
+      : new Error(`Request failed with status ${response.status}`);
+  };
+
+  return {
+    signUp: (body) => post(AUTH_ENDPOINTS.signUp, body),
+    changePassword: (body) => post(AUTH_ENDPOINTS.changePassword, body),
+    requestPasswordReset: (email) =>
+      post(AUTH_ENDPOINTS.requestPasswordReset, { email }),
+    resetPassword: (body) => post(AUTH_ENDPOINTS.resetPassword, body),
+  };
+};
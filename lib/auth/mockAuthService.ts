@@ -0,0 +1,202 @@
+// mockAuthService.ts
+//
+// An in-process AuthService for development and tests. It behaves like the
+// backend: accounts live in memory with their passwords hashed with PBKDF2,
+// every new password is re-validated against the server's own policy and
+// history, and failures are AuthErrors. Reset links are handed to
+// `onResetRequested` instead of being emailed.
+import {
+  AuthErrorCode,
+  AuthService,
+  PasswordHash,
+  RandomSource,
+  UserInputs,
+} from "../../types/Types";
+import { cryptoRandomSource } from "../password/generator";
+import { createPasswordHash, DEFAULT_HISTORY_DEPTH } from "../password/history";
+import { matchesHash } from "../password/reuse";
+import { AuthError } from "./authError";
+import { passwordRejections, ServerPasswordOptions } from "./serverValidation";
+
+const DEFAULT_TOKEN_LIFETIME = 60 * 60 * 1000;
+
+const DEFAULT_HASH_ITERATIONS = 10_000;
+
+/** 192 bits, drawn 32 at a time. */
+const TOKEN_WORDS = 6;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface MockAuthServiceOptions
+  extends Pick<ServerPasswordOptions, "policy" | "requiredLevel"> {
+  /** Accounts that exist from the start; their passwords are not validated. */
+  accounts?: { email: string; password: string }[];
+  /** Previous passwords each account may not reuse. Defaults to 5. */
+  historyDepth?: number;
+  /** PBKDF2 rounds for the account passwords. Defaults to 10,000. */
+  hashIterations?: number;
+  /** Milliseconds each call takes, to exercise loading states. */
+  latency?: number;
+  /** How long a reset link stays valid, in milliseconds. Defaults to an hour. */
+  tokenLifetime?: number;
+  now?: () => number;
+  /** Source of salts and reset tokens. Defaults to the platform CSPRNG. */
+  random?: RandomSource;
+  /** Receives each reset token in place of the email carrying the link. */
+  onResetRequested?: (email: string, token: string) => void;
+}
+
+export interface MockAuthService extends AuthService {
+  currentUser: () => string | undefined;
+}
+
+interface Account {
+  password: PasswordHash;
+  /**
+   * Fast hashes of the recent passwords, the current one first, so that
+   * small variations can be checked too. They never leave the service.
+   */
+  history: PasswordHash[];
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const fail = (code: AuthErrorCode, message: string): never => {
+  throw new AuthError({ code, message });
+};
+
+export const createMockAuthService = ({
+  accounts = [],
+  policy,
+  requiredLevel,
+  historyDepth = DEFAULT_HISTORY_DEPTH,
+  hashIterations = DEFAULT_HASH_ITERATIONS,
+  latency = 0,
+  tokenLifetime = DEFAULT_TOKEN_LIFETIME,
+  now = Date.now,
+  random = cryptoRandomSource,
+  onResetRequested,
+}: MockAuthServiceOptions = {}): MockAuthService => {
+  const users = new Map<string, Account>();
+  const tokens = new Map<string, { email: string; expires: number }>();
+  let session: string | undefined;
+
+  const setPassword = (email: string, password: string) =>
+    users.set(email, {
+      password: createPasswordHash(password, random, hashIterations),
+      history: [
+        createPasswordHash(password, random),
+        ...(users.get(email)?.history ?? []),
+      ].slice(0, historyDepth),
+    });
+
+  accounts.forEach(({ email, password }) =>
+    setPassword(normalizeEmail(email), password)
+  );
+
+  /** Answers after the configured latency; a throwing handler rejects. */
+  const respond = async <T>(handle: () => T | Promise<T>): Promise<T> => {
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+    return handle();
+  };
+
+  /** Re-validates a new password exactly as the server would. */
+  const enforcePolicy = async (
+    password: string,
+    email: string,
+    hashes: PasswordHash[] = [],
+    currentPassword?: string
+  ) => {
+    const userInputs: UserInputs = { email };
+    const rejections = await passwordRejections(password, {
+      policy,
+      requiredLevel,
+      userInputs,
+      previousPasswords: hashes.slice(0, historyDepth),
+      currentPassword,
+    });
+    if (rejections.length > 0) {
+      throw new AuthError({
+        code: "passwordRejected",
+        message: "Choose a password that meets every requirement",
+        rejections,
+      });
+    }
+  };
+
+  const newToken = () =>
+    Array.from({ length: TOKEN_WORDS }, () =>
+      (random() >>> 0).toString(16).padStart(8, "0")
+    ).join("");
+
+  return {
+    currentUser: () => session,
+
+    signUp: ({ email, password }) =>
+      respond(async () => {
+        const address = normalizeEmail(email);
+        if (!EMAIL_PATTERN.test(address)) {
+          return fail("invalidEmail", "Enter a valid email address");
+        }
+        if (users.has(address)) {
+          return fail(
+            "emailTaken",
+            "An account with this email already exists"
+          );
+        }
+        await enforcePolicy(password, address);
+        setPassword(address, password);
+        session = address;
+      }),
+
+    changePassword: ({ currentPassword, newPassword }) =>
+      respond(async () => {
+        const account = session ? users.get(session) : undefined;
+        if (!session || !account) {
+          return fail("notSignedIn", "Sign in to change your password");
+        }
+        if (!matchesHash(currentPassword, account.password)) {
+          return fail("wrongPassword", "The current password is incorrect");
+        }
+        await enforcePolicy(
+          newPassword,
+          session,
+          account.history,
+          currentPassword
+        );
+        setPassword(session, newPassword);
+      }),
+
+    // Resolves for unknown addresses too, so the form does not reveal
+    // which emails have accounts.
+    requestPasswordReset: (email) =>
+      respond(() => {
+        const address = normalizeEmail(email);
+        if (!users.has(address)) return;
+        const token = newToken();
+        tokens.set(token, { email: address, expires: now() + tokenLifetime });
+        onResetRequested?.(address, token);
+      }),
+
+    resetPassword: ({ token, password }) =>
+      respond(async () => {
+        const entry = tokens.get(token);
+        if (!entry || entry.expires <= now()) {
+          tokens.delete(token);
+          return fail(
+            "invalidToken",
+            "This reset link is invalid or has expired"
+          );
+        }
+        await enforcePolicy(
+          password,
+          entry.email,
+          users.get(entry.email)?.history
+        );
+        tokens.delete(token);
+        setPassword(entry.email, password);
+      }),
+  };
+};
@@ -0,0 +1,76 @@
+// rejections.ts
+//
+// Projects the server's refusal of a password back onto the validator's
+// criteria. Each rejection becomes a rule: the client's rule of the same
+// id, relabelled with the server's requirement, or a server-only rule when
+// the client has none. They fail while the password is the one the server
+// refused and are mandatory, so the form stays invalid until it changes.
+import {
+  PasswordRejection,
+  PasswordRule,
+  RuleContext,
+} from "../../types/Types";
+import { AuthError } from "./authError";
+
+export interface ServerRejection {
+  /** The password the server refused. */
+  password: string;
+  rejections: PasswordRejection[];
+}
+
+export const isPasswordRejection = (error: unknown): error is AuthError =>
+  error instanceof AuthError && error.code === "passwordRejected";
+
+// Labels and suggestions are functions so the catalog entry for a
+// built-in id does not take precedence over the server's wording.
+const rejectedRule = (
+  rule: PasswordRule,
+  { password: rejected }: ServerRejection,
+  message: string
+): PasswordRule => ({
+  ...rule,
+  label: () => message,
+  mandatory: true,
+  applies: () => true,
+  test: (password: string, context: RuleContext) => {
+    if (password === rejected) return false;
+    return rule.applies && !rule.applies(context)
+      ? true
+      : rule.test(password, context);
+  },
+  suggestion: () => message,
+});
+
+const serverOnlyRule = (
+  { password: rejected }: ServerRejection,
+  { rule: id, message }: PasswordRejection
+): PasswordRule => ({
+  id,
+  label: () => message,
+  weight: 0,
+  mandatory: true,
+  test: (password) => password !== rejected,
+  suggestion: () => message,
+});
+
+/** `rules` with the server's rejections applied, server-only rules last. */
+export const applyServerRejection = (
+  rules: PasswordRule[],
+  rejection: ServerRejection
+): PasswordRule[] => {
+  const messages = new Map(
+    rejection.rejections.map(({ rule, message }) => [rule, message])
+  );
+  const ids = new Set(rules.map(({ id }) => id));
+  return [
+    ...rules.map((rule) => {
+      const message = messages.get(rule.id);
+      return message === undefined
+        ? rule
+        : rejectedRule(rule, rejection, message);
+    }),
+    ...rejection.rejections
+      .filter(({ rule }) => !ids.has(rule))
+      .map((entry) => serverOnlyRule(rejection, entry)),
+  ];
+};
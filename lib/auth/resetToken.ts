@@ -0,0 +1,20 @@
+// resetToken.ts
+//
+// Reset links open the app at `/reset-password?token=…`. expo-router hands
+// the query parameter to the screen as a string, as an array when it is
+// repeated, or not at all.
+
+/** URL-safe characters only, long enough not to be guessed. */
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,256}$/;
+
+/** The token from the link, or undefined when it is missing or malformed. */
+export const parseResetToken = (
+  param: string | string[] | undefined
+): string | undefined => {
+  const token = (Array.isArray(param) ? param[0] : param)?.trim();
+  return token && TOKEN_PATTERN.test(token) ? token : undefined;
+};
+
+/** The in-app path a reset link points to. */
+export const resetPasswordPath = (token: string): string =>
+  `/reset-password?token=${encodeURIComponent(token)}`;
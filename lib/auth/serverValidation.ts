@@ -0,0 +1,54 @@
+// serverValidation.ts
+//
+// The backend's half of the password round trip: the evaluation the
+// validator runs, with asynchronous rules awaited, turned into the reasons
+// a request is refused. It has no React or Expo imports, so a Node backend
+// can enforce the policy with the same code.
+import {
+  EvaluationContext,
+  PasswordRejection,
+  PolicySource,
+  StrengthLevel,
+} from "../../types/Types";
+import { meetsLevel } from "../password/confirm";
+import {
+  evaluatePasswordAsync,
+  resolvePolicy,
+} from "../password/evaluatePassword";
+import { DEFAULT_TRANSLATOR } from "../password/i18n";
+import { ruleLabel } from "../password/rules";
+
+export interface ServerPasswordOptions extends EvaluationContext {
+  policy?: PolicySource;
+  /** Lowest tier the server accepts; defaults to the highest tier. */
+  requiredLevel?: StrengthLevel;
+}
+
+/** Id reported when the password is too weak without failing any one rule. */
+export const STRENGTH_REJECTION = "strength";
+
+/**
+ * Why the server refuses the password, one entry per failed rule, or an
+ * empty list when it is accepted. A password is accepted on the same terms
+ * as the validator's `onValidityChange`: failing no requirement rule and
+ * reaching the required tier.
+ */
+export const passwordRejections = async (
+  password: string,
+  { policy, requiredLevel, ...context }: ServerPasswordOptions = {}
+): Promise<PasswordRejection[]> => {
+  const resolved = resolvePolicy(policy);
+  const translator = context.translator ?? DEFAULT_TRANSLATOR;
+  const strength = await evaluatePasswordAsync(password, resolved, context);
+  if (meetsLevel(strength, resolved, requiredLevel)) return [];
+
+  const rejections = resolved.rules
+    .filter((rule) => strength.status[rule.id] === "failed")
+    .map((rule) => ({
+      rule: rule.id,
+      message: ruleLabel(rule, resolved, translator),
+    }));
+  return rejections.length > 0
+    ? rejections
+    : [{ rule: STRENGTH_REJECTION, message: translator.t("form.tooWeak") }];
+};
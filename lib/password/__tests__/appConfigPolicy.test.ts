@@ -0,0 +1,36 @@
+import Constants from "expo-constants";
+import { loadAppConfigPolicy } from "../appConfigPolicy";
+import { PolicyDocumentError } from "../policyDocument";
+
+jest.mock("expo-constants", () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: {} } },
+}));
+
+const extra = Constants.expoConfig!.extra as Record<string, unknown>;
+
+describe("loadAppConfigPolicy", () => {
+  afterEach(() => {
+    Object.keys(extra).forEach((key) => delete extra[key]);
+  });
+
+  it("returns undefined when app.json has no policy", () => {
+    expect(loadAppConfigPolicy()).toBeUndefined();
+  });
+
+  it("loads the policy from expo.extra", () => {
+    extra.passwordPolicy = { version: 1, extends: "pci-dss", minLength: 14 };
+    expect(loadAppConfigPolicy()).toMatchObject({
+      minLength: 14,
+      requireNumbers: true,
+      preset: { id: "pci-dss", version: "4.0" },
+    });
+  });
+
+  it("reads a custom key and rejects invalid documents", () => {
+    extra.tenantPolicy = { version: 1, minLength: "long" };
+    expect(() => loadAppConfigPolicy("tenantPolicy")).toThrow(
+      PolicyDocumentError
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  AuditResult,
+  auditPasswords,
+  createAuditWriter,
+  validShare,
+} from "../audit";
+import { BUILT_IN_RULES } from "../rules";
+import { PasswordRule } from "../../../types/Types";
+
+async function* lines(...values: string[]) {
+  yield* values;
+}
+
+const audit = async (passwords: string[], options = {}) => {
+  const results: AuditResult[] = [];
+  const summary = await auditPasswords(lines(...passwords), options, (result) =>
+    results.push(result)
+  );
+  return { results, summary };
+};
+
+const output = async (
+  format: "table" | "json" | "csv",
+  passwords: string[],
+  includeResults = true
+) => {
+  let text = "";
+  const writer = createAuditWriter(
+    format,
+    (chunk) => {
+      text += chunk;
+    },
+    { includeResults }
+  );
+  writer.end(await auditPasswords(passwords, {}, writer.result));
+  return text;
+};
+
+describe("auditPasswords", () => {
+  it("reports each password and the distribution by level", async () => {
+    const { results, summary } = await audit(["Tr0ub4dor&3", "", "password"]);
+
+    expect(results).toEqual([
+      {
+        line: 1,
+        password: "Tr0ub4dor&3",
+        level: "Strong",
+        score: 8,
+        maxScore: 8,
+        valid: true,
+        failed: [],
+        warning: undefined,
+      },
+      expect.objectContaining({
+        line: 3,
+        level: "Weak",
+        valid: false,
+        failed: ["uppercase", "numbers", "specialChars", "noCommonPatterns"],
+        warning: "Avoid common passwords like 'password'",
+      }),
+    ]);
+    expect(summary).toEqual({
+      total: 2,
+      valid: 1,
+      levels: { Weak: 1, Medium: 0, Strong: 1 },
+    });
+    expect(validShare(summary)).toBe(0.5);
+  });
+
+  it("applies the policy, required level and personal information", async () => {
+    const { results, summary } = await audit(["Abc123", "Wile-Coyote-99"], {
+      policy: { minLength: 6 },
+      requiredLevel: "Medium",
+      userInputs: { username: "coyote" },
+    });
+    expect(results[0].failed).not.toContain("length");
+    expect(results[1].failed).toContain("noPersonalInfo");
+    expect(summary.valid).toBe(2);
+  });
+
+  it("waits for asynchronous rules", async () => {
+    const breached: PasswordRule = {
+      id: "notBreached",
+      label: "Not in a known breach",
+      weight: 1,
+      mandatory: true,
+      test: () => Promise.resolve(false),
+    };
+    const { results } = await audit(["Tr0ub4dor&3"], {
+      policy: { rules: [...BUILT_IN_RULES, breached] },
+    });
+    expect(results[0]).toMatchObject({
+      level: "Weak",
+      failed: ["notBreached"],
+    });
+  });
+
+  it("treats an empty list as entirely valid", async () => {
+    const { summary } = await audit([]);
+    expect(summary.total).toBe(0);
+    expect(validShare(summary)).toBe(1);
+  });
+});
+
+describe("createAuditWriter", () => {
+  const passwords = ["Tr0ub4dor&3", 'say "hi",ok'];
+
+  it("writes JSON that parses as one document", async () => {
+    const json = JSON.parse(await output("json", passwords));
+    expect(json.results.map(({ line }: AuditResult) => line)).toEqual([1, 2]);
+    expect(json.summary).toEqual({
+      total: 2,
+      valid: 1,
+      levels: { Weak: 0, Medium: 1, Strong: 1 },
+      validShare: 0.5,
+    });
+    expect(JSON.parse(await output("json", [], false))).toMatchObject({
+      total: 0,
+      validShare: 1,
+    });
+  });
+
+  it("quotes CSV fields and appends the distribution", async () => {
+    expect((await output("csv", passwords)).split("\n")).toEqual([
+      "line,password,level,score,maxScore,valid,failed,warning",
+      "1,Tr0ub4dor&3,Strong,8,8,true,,",
+      '2,"say ""hi"",ok",Medium,6,8,false,uppercase numbers,',
+      "",
+      "level,count,share",
+      "Weak,0,0.0%",
+      "Medium,1,50.0%",
+      "Strong,1,50.0%",
+      "",
+    ]);
+  });
+
+  it("lines up the table, shortens long passwords and keeps scores whole", async () => {
+    const table = await output("table", [
+      "Tr0ub4dor&3",
+      "Correct-Horse-Battery-Staple-9",
+      "Summer2024!",
+    ]);
+    expect(table).toBe(
+      [
+        "Line    Password                  Level   Score     Valid  Failed rules",
+        "1       Tr0ub4dor&3               Strong  8/8       yes",
+        "2       Correct-Horse-Battery-S…  Strong  8/8       yes",
+        "3       Summer2024!               Medium  6.75/8    no     noCommonPatterns, noDates",
+        "",
+        "Level   Count     Share",
+        "Weak           0  0.0%",
+        "Medium         1  33.3%",
+        "Strong         2  66.7%",
+        "Total          3",
+        "Valid          2  66.7%",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("writes only the distribution when asked", async () => {
+    const table = await output("table", passwords, false);
+    expect(table.startsWith("Level   Count")).toBe(true);
+    expect(table).not.toContain("Tr0ub4dor&3");
+  });
+});
@@ -0,0 +1,32 @@
+import { matchStatus, meetsLevel } from "../confirm";
+import { evaluatePassword, resolvePolicy } from "../evaluatePassword";
+
+describe("matchStatus", () => {
+  it("distinguishes empty, partial, match and mismatch", () => {
+    expect(matchStatus("secret", "")).toBe("empty");
+    expect(matchStatus("secret", "sec")).toBe("partial");
+    expect(matchStatus("secret", "secret")).toBe("match");
+    expect(matchStatus("secret", "secrets")).toBe("mismatch");
+    expect(matchStatus("", "secret")).toBe("mismatch");
+  });
+});
+
+describe("meetsLevel", () => {
+  const policy = resolvePolicy();
+
+  it("requires the highest tier unless told otherwise", () => {
+    const medium = evaluatePassword("Maplebranch");
+    expect(meetsLevel(medium, policy)).toBe(false);
+    expect(meetsLevel(medium, policy, "Medium")).toBe(true);
+    expect(meetsLevel(evaluatePassword("Tr0ub4dor&3"), policy, "Medium")).toBe(
+      true
+    );
+  });
+
+  it("rejects a password that fails a requirement rule whatever its tier", () => {
+    const short = evaluatePassword("Ab1!xQz");
+    expect(short.level).toBe("Strong");
+    expect(meetsLevel(short, policy)).toBe(false);
+    expect(meetsLevel(short, policy, "Weak")).toBe(false);
+  });
+});
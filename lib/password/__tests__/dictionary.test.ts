@@ -0,0 +1,133 @@
+import {
+  breachedPasswordsDictionary,
+  commonPasswordsDictionary,
+  createBreachCorpusDictionary,
+  createWordListDictionary,
+  findDictionaryMatch,
+  leetspeakVariants,
+  normalizeLeetspeak,
+} from "../dictionary";
+import { evaluatePassword } from "../evaluatePassword";
+import { sha1 } from "../sha1";
+
+describe("sha1", () => {
+  it("matches known digests", () => {
+    expect(sha1("")).toBe("DA39A3EE5E6B4B0D3255BFEF95601890AFD80709");
+    expect(sha1("password")).toBe("5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8");
+    expect(sha1("pässwörd")).toBe("F517DDF1D32A112FF1AD55C66D1B12CB38E7E8F7");
+  });
+});
+
+describe("leetspeak", () => {
+  it("normalises common substitutions", () => {
+    expect(normalizeLeetspeak("p@ssw0rd")).toBe("password");
+    expect(normalizeLeetspeak("$3cr3t")).toBe("secret");
+  });
+
+  it("expands ambiguous characters", () => {
+    expect(leetspeakVariants("1ove")).toEqual(
+      expect.arrayContaining(["1ove", "iove", "love"])
+    );
+  });
+});
+
+describe("createWordListDictionary", () => {
+  const company = createWordListDictionary("company", ["Acme", "roadrunner"], {
+    label: "company terms",
+  });
+
+  it("matches long entries as substrings", () => {
+    expect(company.find("MyRoadRunner!9")).toEqual({
+      dictionary: "company",
+      label: "company terms",
+      word: "roadrunner",
+      leetspeak: false,
+    });
+  });
+
+  it("only matches short entries as the whole password", () => {
+    expect(company.find("acme")).toBeDefined();
+    expect(company.find("acmeCorp42!")).toBeUndefined();
+  });
+
+  it("reports leetspeak matches", () => {
+    expect(company.find("r0adrunn3r")).toMatchObject({
+      word: "roadrunner",
+      leetspeak: true,
+    });
+  });
+
+  it("can disable leetspeak normalisation", () => {
+    const strict = createWordListDictionary("strict", ["password"], {
+      leetspeak: false,
+    });
+    expect(strict.find("p@ssw0rd")).toBeUndefined();
+  });
+});
+
+describe("bundled dictionaries", () => {
+  it("include the original common patterns", () => {
+    ["123456", "password", "qwerty", "letmein", "abc123"].forEach((word) => {
+      expect(commonPasswordsDictionary.find(`X${word}!`)).toBeDefined();
+    });
+  });
+
+  it("look up breached passwords by hash prefix", () => {
+    expect(breachedPasswordsDictionary.find("Summer2024!")).toEqual({
+      dictionary: "breached-passwords",
+      label: "breached passwords",
+      leetspeak: false,
+    });
+    expect(breachedPasswordsDictionary.find("Summer2024?")).toBeUndefined();
+  });
+});
+
+describe("createBreachCorpusDictionary", () => {
+  it("only looks at the range for the hash prefix", () => {
+    const hash = sha1("hunter2");
+    const corpus = { [hash.slice(0, 5)]: [hash.slice(5)] };
+    const breach = createBreachCorpusDictionary("local", corpus);
+
+    expect(breach.find("hunter2")).toBeDefined();
+    expect(breach.find("hunter3")).toBeUndefined();
+  });
+});
+
+describe("findDictionaryMatch", () => {
+  it("returns the first provider that matches", () => {
+    const first = createWordListDictionary("first", ["letmein"]);
+    const second = createWordListDictionary("second", ["letmein"]);
+    expect(findDictionaryMatch("letmein", [first, second])?.dictionary).toBe(
+      "first"
+    );
+  });
+});
+
+describe("evaluatePassword with dictionaries", () => {
+  it("reports which dictionary matched", () => {
+    const result = evaluatePassword("P@ssw0rd!");
+    expect(result.criteria.noCommonPatterns).toBe(false);
+    expect(result.dictionaryMatch).toMatchObject({
+      dictionary: "common-passwords",
+      word: "password",
+      leetspeak: true,
+    });
+  });
+
+  it("uses the configured providers", () => {
+    const result = evaluatePassword("Wile&Coyote1", {
+      dictionaries: [createWordListDictionary("cartoons", ["coyote"])],
+    });
+    expect(result.dictionaryMatch?.dictionary).toBe("cartoons");
+    expect(evaluatePassword("Wile&Coyote1").dictionaryMatch).toBeUndefined();
+  });
+
+  it("skips the lookup when common patterns are allowed", () => {
+    const result = evaluatePassword("password1", {
+      preventCommonPatterns: false,
+    });
+    expect(result.criteria.noCommonPatterns).toBeUndefined();
+    expect(result.status.noCommonPatterns).toBe("notApplicable");
+    expect(result.dictionaryMatch).toBeUndefined();
+  });
+});
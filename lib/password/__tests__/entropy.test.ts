@@ -0,0 +1,114 @@
+import {
+  characterPoolSize,
+  estimateEntropy,
+  formatCrackTime,
+} from "../entropy";
+import { evaluatePassword } from "../evaluatePassword";
+
+const kinds = (password: string) =>
+  estimateEntropy(password).patterns.map((pattern) => pattern.kind);
+
+describe("estimateEntropy", () => {
+  it("sizes the pool from the character classes present", () => {
+    expect(characterPoolSize("abc")).toBe(26);
+    expect(characterPoolSize("aB1")).toBe(62);
+    expect(characterPoolSize("aB1!")).toBe(95);
+  });
+
+  it("sizes the pool of other scripts from their letter case", () => {
+    expect(characterPoolSize("ПРИВЕТмир")).toBe(26 + 26 + 100);
+    expect(characterPoolSize("привет")).toBe(26 + 100);
+    expect(characterPoolSize("שלום")).toBe(100);
+  });
+
+  it("charges an emoji once, however many code units it takes", () => {
+    const estimate = estimateEntropy("😊🐱🚀🌟");
+    expect(estimate.entropyBits).toBeCloseTo(4 * Math.log2(33 + 100));
+    expect(estimate.patterns).toEqual([
+      expect.objectContaining({ kind: "bruteforce", start: 0, end: 8 }),
+    ]);
+    expect(kinds("👍🏽👍🏽👍🏽")).toEqual(["repeat"]);
+  });
+
+  it("charges Cyrillic letters like Latin ones", () => {
+    expect(estimateEntropy("ПРИВЕТмир").entropyBits).toBeCloseTo(
+      9 * Math.log2(152)
+    );
+    expect(kinds("жжжж")).toEqual(["repeat"]);
+  });
+
+  it("charges random characters log2 of the pool each", () => {
+    expect(estimateEntropy("xqzkv").entropyBits).toBeCloseTo(5 * Math.log2(26));
+  });
+
+  it("detects sequences, keyboard walks, repeats and dates", () => {
+    expect(kinds("abcdef")).toEqual(["sequence"]);
+    expect(kinds("987654")).toEqual(["sequence"]);
+    expect(kinds("qwerty")).toEqual(["keyboard"]);
+    expect(kinds("zzzzzz")).toEqual(["repeat"]);
+    expect(kinds("19901231")).toEqual(["date"]);
+    expect(kinds("xkcdxkcd")).toEqual(["block"]);
+  });
+
+  it("reports the span of each pattern", () => {
+    const date = estimateEntropy("Kx1990").patterns.find(
+      (pattern) => pattern.kind === "date"
+    );
+    expect(date).toMatchObject({ start: 2, end: 6, token: "1990" });
+    expect(
+      estimateEntropy("🚀🚀🚀1990").patterns.map(({ start, end }) => [
+        start,
+        end,
+      ])
+    ).toEqual([
+      [0, 6],
+      [6, 10],
+    ]);
+  });
+
+  it("rates a long lowercase passphrase above a short composed password", () => {
+    const passphrase = estimateEntropy("correcthorsebatterystaplemoon");
+    const composed = estimateEntropy("Abc123!@#");
+    expect(passphrase.entropyBits).toBeGreaterThan(composed.entropyBits);
+  });
+
+  it("estimates a crack time", () => {
+    expect(estimateEntropy("abc").crackTimeDisplay).toBe("less than a second");
+    expect(estimateEntropy("q7#Rt!x9Lm@2Vz$8").crackTimeDisplay).toBe(
+      "centuries"
+    );
+  });
+});
+
+describe("formatCrackTime", () => {
+  it("uses the largest fitting unit", () => {
+    expect(formatCrackTime(1)).toBe("1 second");
+    expect(formatCrackTime(120)).toBe("2 minutes");
+    expect(formatCrackTime(86400 * 3)).toBe("3 days");
+  });
+});
+
+describe("evaluatePassword with the entropy estimator", () => {
+  it("derives the level from entropy instead of passed rules", () => {
+    const composed = evaluatePassword("Abc123!@#", { estimator: "entropy" });
+    const passphrase = evaluatePassword("correcthorsebatterystaplemoon", {
+      estimator: "entropy",
+    });
+
+    expect(composed.level).toBe("Weak");
+    expect(passphrase.level).toBe("Strong");
+    expect(passphrase.entropyBits).toBeGreaterThan(60);
+    expect(passphrase.crackTimeDisplay).toBe("centuries");
+  });
+
+  it("keeps the rule-based score alongside the entropy", () => {
+    const result = evaluatePassword("Abc123!@#", { estimator: "entropy" });
+    // "123!@#" is a keyboard walk along the number row, shifted halfway.
+    expect(result.score).toBe(6.75);
+    expect(result.maxScore).toBe(8);
+  });
+
+  it("omits entropy fields for the rules estimator", () => {
+    expect(evaluatePassword("Abc123!@#").entropyBits).toBeUndefined();
+  });
+});
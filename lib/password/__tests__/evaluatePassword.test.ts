@@ -0,0 +1,243 @@
+import {
+  DEFAULT_POLICY,
+  evaluatePassword,
+  evaluatePasswordAsync,
+  resolvePolicy,
+  startEvaluation,
+} from "../evaluatePassword";
+import { DEFAULT_TRANSLATOR } from "../i18n";
+import { BUILT_IN_RULES, toOutcome } from "../rules";
+import { DEFAULT_TIERS } from "../tiers";
+import { PasswordRule, RuleOutcome } from "../../../types/Types";
+import scoring from "./fixtures/scoring.json";
+
+describe("evaluatePassword", () => {
+  it("evaluates short passwords like any other", () => {
+    const result = evaluatePassword("ab");
+    expect(result.level).toBe("Weak");
+    expect(result.score).toBe(4);
+    expect(result.criteria).toMatchObject({
+      lowercase: true,
+      noRepeatedChars: true,
+      noCommonPatterns: true,
+      length: false,
+    });
+  });
+
+  it("fails every rule for an empty password", () => {
+    const result = evaluatePassword("");
+    expect(result.score).toBe(0);
+    expect(Object.values(result.criteria).every((met) => !met)).toBe(true);
+  });
+
+  it("fails the prohibitions on an empty password", () => {
+    const context = {
+      policy: DEFAULT_POLICY,
+      translator: DEFAULT_TRANSLATOR,
+      userInputs: { username: "wile" },
+    };
+    BUILT_IN_RULES.forEach((rule) => {
+      const outcome = rule.test("", context) as boolean | RuleOutcome;
+      expect(toOutcome(outcome).passed).toBe(false);
+    });
+  });
+
+  it("rates a password meeting every rule as Strong", () => {
+    const result = evaluatePassword("Tr0ub4dor&3");
+    expect(result).toEqual({
+      level: "Strong",
+      tier: DEFAULT_TIERS[2],
+      score: 8,
+      maxScore: 8,
+      criteria: {
+        length: true,
+        uppercase: true,
+        lowercase: true,
+        numbers: true,
+        specialChars: true,
+        noRepeatedChars: true,
+        noCommonPatterns: true,
+        noSequences: true,
+        noKeyboardWalks: true,
+        noRepeatedBlocks: true,
+        noDates: true,
+      },
+      status: {
+        length: "passed",
+        uppercase: "passed",
+        lowercase: "passed",
+        numbers: "passed",
+        specialChars: "passed",
+        noRepeatedChars: "passed",
+        noCommonPatterns: "passed",
+        noSequences: "passed",
+        noKeyboardWalks: "passed",
+        noRepeatedBlocks: "passed",
+        noDates: "passed",
+        noPersonalInfo: "notApplicable",
+        noPasswordReuse: "notApplicable",
+      },
+      suggestions: [],
+    });
+  });
+
+  it("rates four passed character rules as Medium", () => {
+    const result = evaluatePassword("Abc123");
+    expect(result.score).toBe(5);
+    expect(result.level).toBe("Medium");
+  });
+
+  it("detects common patterns case-insensitively", () => {
+    expect(evaluatePassword("MyPassWord!9").criteria.noCommonPatterns).toBe(
+      false
+    );
+  });
+
+  it("detects characters repeated three or more times", () => {
+    expect(evaluatePassword("Baaad!123x").criteria.noRepeatedChars).toBe(false);
+    expect(evaluatePassword("Baad!123x").criteria.noRepeatedChars).toBe(true);
+  });
+
+  it("leaves disabled rules out of the criteria and the maximum score", () => {
+    const result = evaluatePassword("lowercase123!", {
+      requireUppercase: false,
+    });
+    expect(result.criteria.uppercase).toBeUndefined();
+    expect(result.status.uppercase).toBe("notApplicable");
+    expect(result.maxScore).toBe(7);
+    expect(result.score).toBe(7);
+    expect(result.level).toBe("Strong");
+  });
+
+  it("honours a custom minimum length", () => {
+    expect(evaluatePassword("Ab1!xyz", { minLength: 6 }).criteria.length).toBe(
+      true
+    );
+    expect(evaluatePassword("Ab1!xyz", { minLength: 12 }).criteria.length).toBe(
+      false
+    );
+  });
+});
+
+describe("resolvePolicy", () => {
+  it("returns the defaults for an empty policy", () => {
+    expect(resolvePolicy()).toEqual(DEFAULT_POLICY);
+  });
+
+  it("ignores undefined overrides", () => {
+    expect(
+      resolvePolicy({ minLength: undefined, requireNumbers: false })
+    ).toEqual({ ...DEFAULT_POLICY, requireNumbers: false });
+  });
+});
+
+describe("asynchronous rules", () => {
+  const remoteCheck = (passed: boolean | Promise<boolean>): PasswordRule => ({
+    id: "remote",
+    label: "Not found by the remote check",
+    weight: 1,
+    test: () => Promise.resolve(passed),
+  });
+  const withRule = (rule: PasswordRule) => ({
+    rules: [...BUILT_IN_RULES, rule],
+  });
+
+  it("marks the synchronous result pending and counts the rule as failed", () => {
+    const result = evaluatePassword("Tr0ub4dor&3", withRule(remoteCheck(true)));
+    expect(result.pending).toBe(true);
+    expect(result.criteria.remote).toBe(false);
+    expect(result.suggestions.map(({ id }) => id)).not.toContain("remote");
+  });
+
+  it("settles on the outcome of the asynchronous rule", async () => {
+    const passed = await evaluatePasswordAsync(
+      "Tr0ub4dor&3",
+      withRule(remoteCheck(true))
+    );
+    expect(passed.pending).toBeUndefined();
+    expect(passed.criteria.remote).toBe(true);
+    expect(passed.level).toBe("Strong");
+
+    const failed = await evaluatePasswordAsync(
+      "Tr0ub4dor&3",
+      withRule(remoteCheck(false))
+    );
+    expect(failed.criteria.remote).toBe(false);
+    expect(failed.suggestions.map(({ id }) => id)).toContain("remote");
+  });
+
+  it("counts a rejected check as failed", async () => {
+    const result = await evaluatePasswordAsync(
+      "Tr0ub4dor&3",
+      withRule(remoteCheck(Promise.reject(new Error("offline"))))
+    );
+    expect(result.criteria.remote).toBe(false);
+  });
+
+  it("runs each rule once and passes the abort signal through", async () => {
+    const test = jest.fn(() => Promise.resolve(true));
+    const controller = new AbortController();
+    const evaluation = startEvaluation(
+      "Tr0ub4dor&3",
+      withRule({ ...remoteCheck(true), test }),
+      { signal: controller.signal }
+    );
+    await evaluation.settle();
+    await evaluation.settle();
+    expect(test).toHaveBeenCalledTimes(1);
+    expect(test).toHaveBeenCalledWith(
+      "Tr0ub4dor&3",
+      expect.objectContaining({ signal: controller.signal })
+    );
+  });
+
+  it("settles synchronous evaluations to the same result", async () => {
+    const evaluation = startEvaluation("Tr0ub4dor&3");
+    expect(evaluation.strength.pending).toBeUndefined();
+    await expect(evaluation.settle()).resolves.toBe(evaluation.strength);
+  });
+});
+
+// Scores before and after disabled rules stopped counting and the
+// 3-character cutoff was dropped. The pattern rules came later and are
+// switched off here.
+describe("scoring fixtures", () => {
+  const policies: Record<string, object> = scoring.policies;
+  const withoutPatternRules = {
+    preventSequences: false,
+    preventKeyboardWalks: false,
+    preventRepeatedBlocks: false,
+    preventDates: false,
+  };
+
+  it.each(scoring.cases)(
+    "$policy policy scores $password",
+    ({ policy, password, new: expected }) => {
+      const { score, maxScore, level } = evaluatePassword(password, {
+        ...withoutPatternRules,
+        ...policies[policy],
+      });
+      expect({ score, maxScore, level }).toEqual(expected);
+    }
+  );
+
+  it("only changed for disabled rules and inputs under 3 characters", () => {
+    const changed = scoring.cases.filter(
+      (entry) => JSON.stringify(entry.old) !== JSON.stringify(entry.new)
+    );
+    expect(changed.length).toBeGreaterThan(0);
+    changed.forEach(({ policy, password }) => {
+      const disablesRules = Object.values(policies[policy]).includes(false);
+      expect(disablesRules || password.length < 3).toBe(true);
+    });
+  });
+
+  it("no longer counts disabled rules towards the maximum score", () => {
+    scoring.cases.forEach(({ policy, old, new: current }) => {
+      const disabled = Object.values(policies[policy]).filter(
+        (value) => value === false
+      ).length;
+      expect(current.maxScore).toBe(old.maxScore - disabled);
+    });
+  });
+});
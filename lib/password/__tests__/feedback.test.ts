@@ -0,0 +1,174 @@
+import { PasswordRule } from "../../../types/Types";
+import { evaluatePassword } from "../evaluatePassword";
+import { primaryWarning } from "../feedback";
+import { MIN_PATTERN_LENGTH } from "../patterns";
+import { BUILT_IN_RULES } from "../rules";
+import { ENTROPY_SCALE_BITS } from "../tiers";
+
+describe("primaryWarning", () => {
+  it("names the longest pattern a failed rule found", () => {
+    expect(
+      primaryWarning({
+        patternMatches: [
+          { kind: "sequence", start: 2, end: 6, token: "abcd" },
+          { kind: "keyboard", start: 7, end: 13, token: "qwerty" },
+        ],
+      })
+    ).toBe("Avoid keyboard patterns like 'qwerty'");
+    expect(
+      primaryWarning({
+        patternMatches: [
+          { kind: "date", start: 2, end: 12, token: "1990-05-12" },
+        ],
+      })
+    ).toBe("Avoid dates like '1990-05-12'");
+    expect(primaryWarning({})).toBeUndefined();
+  });
+
+  it("prefers dictionary and personal matches", () => {
+    expect(
+      primaryWarning({
+        dictionaryMatch: {
+          dictionary: "common-passwords",
+          label: "common passwords",
+          word: "abcdef",
+          leetspeak: false,
+        },
+      })
+    ).toBe("Avoid common passwords like 'abcdef'");
+    expect(
+      primaryWarning({
+        personalInfoMatch: { field: "username", reversed: false },
+      })
+    ).toBe("Avoid using your username");
+  });
+});
+
+describe("evaluatePassword feedback", () => {
+  it("has no feedback for an empty or flawless password", () => {
+    expect(evaluatePassword("").suggestions).toEqual([]);
+    const strong = evaluatePassword("Tr0ub4dor&3");
+    expect(strong.warning).toBeUndefined();
+    expect(strong.suggestions).toEqual([]);
+  });
+
+  it("warns only about what a failed rule found", () => {
+    ["Firstparty!Z9", "Studyhard!93", "abc"].forEach((password) =>
+      expect(evaluatePassword(password).warning).toBeUndefined()
+    );
+    expect(evaluatePassword("Firstabcd!Z9").warning).toBe(
+      "Avoid sequences like 'abcd'"
+    );
+  });
+
+  it("ignores runs shorter than the pattern rules look for", () => {
+    const run = (length: number) => "stuvwxyz".slice(-length);
+    expect(
+      evaluatePassword(`Tr0ub4dor&3${run(MIN_PATTERN_LENGTH - 1)}`).warning
+    ).toBeUndefined();
+    expect(
+      evaluatePassword(`Tr0ub4dor&3${run(MIN_PATTERN_LENGTH)}`).warning
+    ).toBe(`Avoid sequences like '${run(MIN_PATTERN_LENGTH)}'`);
+  });
+
+  it("tells short passwords what is missing", () => {
+    expect(evaluatePassword("ab").suggestions.map(({ id }) => id)).toEqual([
+      "length",
+      "uppercase",
+      "numbers",
+      "specialChars",
+    ]);
+  });
+
+  it("suggests concrete fixes and the tier they unlock", () => {
+    const date = evaluatePassword("1990-05-12");
+    expect(date.warning).toBe("Avoid dates like '1990-05-12'");
+    expect(date.suggestions).toEqual([
+      { id: "uppercase", message: "Add an uppercase letter", gain: 1 / 8 },
+      { id: "lowercase", message: "Add a lowercase letter", gain: 1 / 8 },
+      {
+        id: "noDates",
+        message: "Leave out the date '1990-05-12'",
+        gain: 1 / 32,
+      },
+    ]);
+    expect(evaluatePassword("lantern-meadow").suggestions).toEqual([
+      {
+        id: "uppercase",
+        message: "Add an uppercase letter to reach Strong",
+        gain: 1 / 8,
+      },
+      {
+        id: "numbers",
+        message: "Add a number to reach Strong",
+        gain: 1 / 8,
+      },
+    ]);
+    expect(evaluatePassword("Abc1!").suggestions[0].message).toBe(
+      "Add 3 more characters"
+    );
+  });
+
+  it("orders suggestions by gain, failing mandatory rules first", () => {
+    const rules: PasswordRule[] = [
+      ...BUILT_IN_RULES.map((rule) =>
+        rule.id === "numbers" ? { ...rule, mandatory: true } : rule
+      ),
+      {
+        id: "longPassphrase",
+        label: "At least 20 characters",
+        weight: 3,
+        test: (password) => password.length >= 20,
+      },
+    ];
+    const result = evaluatePassword("lantern", { rules });
+    expect(result.suggestions.map(({ id }) => id)).toEqual([
+      "numbers",
+      "longPassphrase",
+      "length",
+      "uppercase",
+      "specialChars",
+    ]);
+    // Rules without a suggestion fall back to their label.
+    expect(result.suggestions[1].message).toBe("At least 20 characters");
+  });
+
+  it("estimates the characters needed with the entropy estimator", () => {
+    const result = evaluatePassword("meadow", {
+      estimator: "entropy",
+      requireUppercase: false,
+      requireNumbers: false,
+      requireSpecialChars: false,
+    });
+    expect(result.level).toBe("Weak");
+    expect(result.suggestions).toEqual([
+      expect.objectContaining({
+        id: "entropy",
+        message: "Add 3 more characters to reach Medium",
+      }),
+    ]);
+  });
+
+  it("never asks for an infinite number of characters", () => {
+    const messages = ["", "\t\n\t\n\t\n"].flatMap((password) =>
+      evaluatePassword(password, { estimator: "entropy" }).suggestions.map(
+        ({ message }) => message
+      )
+    );
+    expect(messages.join("\n")).not.toMatch(/Infinity|NaN/);
+  });
+
+  it("estimates rule gains from the pool bits they add", () => {
+    const { suggestions } = evaluatePassword("meadowlark", {
+      estimator: "entropy",
+    });
+    const gain = (id: string) =>
+      suggestions.find((suggestion) => suggestion.id === id)?.gain;
+    // Eleven characters from 52 letters, against ten from 26.
+    expect(gain("uppercase")).toBeCloseTo(
+      (11 * Math.log2(52) - 10 * Math.log2(26)) / ENTROPY_SCALE_BITS
+    );
+    expect(gain("uppercase")).toBeGreaterThan(gain("numbers") ?? 0);
+    expect(gain("numbers")).toBeGreaterThan(0);
+  });
+});
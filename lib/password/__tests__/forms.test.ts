@@ -0,0 +1,113 @@
+import {
+  confirmPasswordRules,
+  passwordFormValidator,
+  passwordRules,
+  validatePasswordField,
+} from "../forms";
+import { createTranslator } from "../i18n";
+
+describe("validatePasswordField", () => {
+  it("is valid for a strong password", async () => {
+    const validation = await validatePasswordField("Tr0ub4dor&3");
+    expect(validation.isValid).toBe(true);
+    expect(validation.errors).toEqual([]);
+    expect(validation.strength.level).toBe("Strong");
+  });
+
+  it("reports a missing password and a mismatched confirmation", async () => {
+    expect((await validatePasswordField("", {}, "x")).errors).toEqual([
+      { type: "required", message: "Enter a password" },
+      { type: "mismatch", message: "Passwords do not match" },
+    ]);
+  });
+
+  it("explains a weak password with its top suggestion", async () => {
+    const validation = await validatePasswordField("Abc123");
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toEqual([
+      { type: "strength", message: "Add 2 more characters" },
+    ]);
+    expect(
+      (await validatePasswordField("Maplebranch", { requiredLevel: "Medium" }))
+        .isValid
+    ).toBe(true);
+  });
+
+  it("is invalid for a Strong password that is too short", async () => {
+    const validation = await validatePasswordField("Ab1!xQz");
+    expect(validation.strength.level).toBe("Strong");
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toEqual([
+      { type: "strength", message: "Add 1 more character" },
+    ]);
+  });
+
+  it("waits for asynchronous rules", async () => {
+    const remoteCheck = (passed: boolean) => ({
+      rules: [
+        {
+          id: "remote",
+          label: "Not found by the remote check",
+          weight: 1,
+          test: () => Promise.resolve(passed),
+          suggestion: "Choose a password that has not been breached",
+        },
+      ],
+    });
+    const passed = await validatePasswordField("Tr0ub4dor&3", {
+      policy: remoteCheck(true),
+    });
+    expect(passed.isValid).toBe(true);
+    expect(passed.strength.pending).toBeFalsy();
+    expect(
+      (
+        await validatePasswordField("Tr0ub4dor&3", {
+          policy: remoteCheck(false),
+        })
+      ).errors
+    ).toEqual([
+      {
+        type: "strength",
+        message: "Choose a password that has not been breached to reach Strong",
+      },
+    ]);
+  });
+
+  it("localises its messages", async () => {
+    const translator = createTranslator("de");
+    const { errors } = await validatePasswordField("", { translator });
+    expect(errors[0].message).toBe("Gib ein Passwort ein");
+  });
+});
+
+describe("react-hook-form rules", () => {
+  it("return true or the first error message", async () => {
+    const { validate } = passwordRules({ policy: "owasp-asvs" });
+    await expect(validate("quiet meadow lantern")).resolves.toBe(true);
+    await expect(validate(undefined)).resolves.toBe("Enter a password");
+  });
+
+  it("compare the confirmation with the password field", () => {
+    const { validate } = confirmPasswordRules("password");
+    expect(validate("abc", { password: "abc" })).toBe(true);
+    expect(validate("abd", { password: "abc" })).toBe("Passwords do not match");
+  });
+});
+
+describe("passwordFormValidator", () => {
+  it("returns Formik errors keyed by field", async () => {
+    const validate = passwordFormValidator({
+      passwordField: "newPassword",
+      confirmField: "confirmPassword",
+    });
+    await expect(
+      validate({ newPassword: "Tr0ub4dor&3", confirmPassword: "Tr0ub4dor&3" })
+    ).resolves.toEqual({});
+    await expect(
+      validate({ newPassword: "Abc123", confirmPassword: "Abc" })
+    ).resolves.toEqual({
+      newPassword: "Add 2 more characters",
+      confirmPassword: "Passwords do not match",
+    });
+  });
+});
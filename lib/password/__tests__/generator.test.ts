@@ -0,0 +1,195 @@
+import {
+  cryptoRandomSource,
+  generatePassphrase,
+  generatePassword,
+  randomInt,
+  seededRandomSource,
+} from "../generator";
+import { evaluatePassword } from "../evaluatePassword";
+import { PASSPHRASE_WORDS } from "../data/wordList";
+
+const satisfies = (password: string, policy = {}) => {
+  const strength = evaluatePassword(password, policy);
+  return (
+    Object.values(strength.criteria).every(Boolean) &&
+    strength.level === "Strong"
+  );
+};
+
+describe("seededRandomSource", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = seededRandomSource(42);
+    const b = seededRandomSource(42);
+    const c = seededRandomSource(7);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    first.forEach((value) => {
+      expect(Number.isInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(2 ** 32);
+    });
+  });
+});
+
+describe("randomInt", () => {
+  it("rejects draws that would bias the result", () => {
+    const draws = [2 ** 32 - 1, 5];
+    expect(randomInt(() => draws.shift() as number, 3)).toBe(2);
+  });
+});
+
+describe("cryptoRandomSource", () => {
+  it("draws from crypto.getRandomValues", () => {
+    const spy = jest.spyOn(globalThis.crypto, "getRandomValues");
+    cryptoRandomSource();
+    expect(spy).toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it("refuses to run without Web Crypto", () => {
+    const { crypto } = globalThis;
+    Object.defineProperty(globalThis, "crypto", {
+      value: undefined,
+      configurable: true,
+    });
+    try {
+      expect(() => cryptoRandomSource()).toThrow(/secure random source/);
+    } finally {
+      Object.defineProperty(globalThis, "crypto", {
+        value: crypto,
+        configurable: true,
+      });
+    }
+  });
+});
+
+describe("generatePassword", () => {
+  it("is deterministic for a seeded source", () => {
+    expect(generatePassword({}, { random: seededRandomSource(1) })).toBe(
+      generatePassword({}, { random: seededRandomSource(1) })
+    );
+  });
+
+  it("satisfies the default policy with every character class", () => {
+    for (let seed = 0; seed < 20; seed += 1) {
+      const password = generatePassword(
+        {},
+        { random: seededRandomSource(seed) }
+      );
+      expect(password).toHaveLength(16);
+      expect(password).toMatch(/[a-z]/);
+      expect(password).toMatch(/[A-Z]/);
+      expect(password).toMatch(/\d/);
+      expect(password).toMatch(/[^A-Za-z0-9]/);
+      expect(satisfies(password)).toBe(true);
+    }
+  });
+
+  it("grows to the policy's minimum length", () => {
+    const password = generatePassword(
+      { minLength: 24 },
+      { length: 12, random: seededRandomSource(3) }
+    );
+    expect(password).toHaveLength(24);
+  });
+
+  it("draws again when a candidate breaks a rule", () => {
+    const candidates: string[] = [];
+    const rejectFirst = {
+      rules: [
+        {
+          id: "notFirst",
+          label: "Not the first candidate",
+          weight: 1,
+          test: (password: string) => {
+            candidates.push(password);
+            return candidates.length > 1;
+          },
+        },
+      ],
+    };
+    const password = generatePassword(rejectFirst, {
+      random: seededRandomSource(5),
+    });
+    expect(candidates).toHaveLength(2);
+    expect(password).toBe(candidates[1]);
+    expect(password).not.toBe(candidates[0]);
+  });
+
+  it("leaves asynchronous rules to the validator", () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const remote = {
+      rules: [
+        {
+          id: "remote",
+          label: "Not found by the remote check",
+          weight: 1,
+          test: (_: string, { signal }: { signal?: AbortSignal }) => {
+            signals.push(signal);
+            return Promise.reject(new Error("offline"));
+          },
+        },
+      ],
+    };
+    expect(
+      generatePassword(remote, { random: seededRandomSource(3) })
+    ).toHaveLength(16);
+    expect(signals).toHaveLength(1);
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  it("gives up on a policy nothing can satisfy", () => {
+    const impossible = {
+      rules: [{ id: "never", label: "Never", weight: 1, test: () => false }],
+    };
+    expect(() =>
+      generatePassword(impossible, { random: seededRandomSource(1) })
+    ).toThrow(/Could not generate/);
+  });
+});
+
+describe("generatePassphrase", () => {
+  it("joins capitalised words from the list with one digit", () => {
+    const passphrase = generatePassphrase(
+      {},
+      { random: seededRandomSource(9) }
+    );
+    const words = passphrase.split("-");
+    expect(words).toHaveLength(4);
+    expect(passphrase.match(/\d/g)).toHaveLength(1);
+    words.forEach((word) => {
+      expect(PASSPHRASE_WORDS).toContain(word.replace(/\d$/, "").toLowerCase());
+      expect(word[0]).toMatch(/[A-Z]/);
+    });
+    expect(satisfies(passphrase)).toBe(true);
+  });
+
+  it("adds words until the policy's minimum length is reached", () => {
+    for (let seed = 0; seed < 10; seed += 1) {
+      const passphrase = generatePassphrase(
+        { minLength: 40 },
+        { random: seededRandomSource(seed) }
+      );
+      expect(passphrase.length).toBeGreaterThanOrEqual(40);
+      expect(satisfies(passphrase, { minLength: 40 })).toBe(true);
+    }
+  });
+
+  it("avoids the user's personal information", () => {
+    const userInputs = { username: "Otter" };
+    const wordList = ["otter", "lunar", "quilt", "cedar"];
+    for (let seed = 0; seed < 5; seed += 1) {
+      const passphrase = generatePassphrase(
+        {},
+        { wordList, userInputs, random: seededRandomSource(seed) }
+      );
+      expect(passphrase.toLowerCase()).not.toContain("otter");
+    }
+  });
+
+  it("contains no word of the common-password list", () => {
+    const strength = evaluatePassword(PASSPHRASE_WORDS.join("-"));
+    expect(strength.dictionaryMatch).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { seededRandomSource } from "../generator";
+import {
+  createAccountPasswordHistories,
+  createPasswordHash,
+  createPasswordHistory,
+  memoryStorage,
+} from "../history";
+import { matchesHash } from "../reuse";
+
+describe("createPasswordHash", () => {
+  it("salts each hash separately", () => {
+    const random = seededRandomSource(1);
+    const first = createPasswordHash("Summer2024!", random);
+    const second = createPasswordHash("Summer2024!", random);
+    expect(first.salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(first.hash).not.toBe(second.hash);
+    expect(first.hash).not.toContain("Summer");
+    expect(matchesHash("Summer2024!", first)).toBe(true);
+    expect(matchesHash("Summer2024!", second)).toBe(true);
+  });
+
+  it("stretches the hash when given iterations", () => {
+    const random = seededRandomSource(1);
+    const fast = createPasswordHash("Summer2024!", random);
+    const stretched = createPasswordHash("Summer2024!", random, 100);
+    expect(fast.iterations).toBeUndefined();
+    expect(stretched.iterations).toBe(100);
+    expect(matchesHash("Summer2024!", stretched)).toBe(true);
+    expect(matchesHash("Summer2024!", { ...stretched, iterations: 99 })).toBe(
+      false
+    );
+  });
+});
+
+describe("createPasswordHistory", () => {
+  const random = seededRandomSource(7);
+
+  it("keeps the newest hashes up to the depth", async () => {
+    const history = createPasswordHistory({ depth: 2, random });
+    await history.add("first-password");
+    await history.add("second-password");
+    await history.add("third-password");
+
+    const entries = await history.entries();
+    expect(entries).toHaveLength(2);
+    expect(matchesHash("third-password", entries[0])).toBe(true);
+    expect(matchesHash("second-password", entries[1])).toBe(true);
+  });
+
+  it("stores only hashes", async () => {
+    const storage = memoryStorage();
+    const history = createPasswordHistory({ storage, key: "history", random });
+    await history.add("Summer2024!");
+
+    const stored = await storage.getItem("history");
+    expect(stored).not.toContain("Summer2024!");
+    expect(JSON.parse(stored ?? "")).toEqual(await history.entries());
+  });
+
+  it("ignores corrupt storage and can be cleared", async () => {
+    const storage = memoryStorage();
+    await storage.setItem("passwordHistory", "not json");
+    const history = createPasswordHistory({ storage, random });
+    expect(await history.entries()).toEqual([]);
+
+    await history.add("Summer2024!");
+    await history.clear();
+    expect(await history.entries()).toEqual([]);
+  });
+
+  it("rejects a depth below one", () => {
+    expect(() => createPasswordHistory({ depth: 0 })).toThrow(
+      "Password history depth must be a positive integer"
+    );
+  });
+});
+
+describe("createAccountPasswordHistories", () => {
+  it("keeps each account's history under its own key", async () => {
+    const storage = memoryStorage();
+    const histories = createAccountPasswordHistories({
+      storage,
+      random: seededRandomSource(9),
+    });
+    await histories(" Road@Example.com").add("Summer2024!");
+
+    expect(histories("road@example.com")).toBe(histories("ROAD@example.com"));
+    expect(
+      matchesHash(
+        "Summer2024!",
+        (await histories("road@example.com").entries())[0]
+      )
+    ).toBe(true);
+    expect(await histories("wile@example.com").entries()).toEqual([]);
+    expect(await storage.getItem("passwordHistory:road@example.com")).not.toBe(
+      null
+    );
+    expect(await storage.getItem("passwordHistory")).toBe(null);
+  });
+});
@@ -0,0 +1,123 @@
+import { evaluatePassword, resolvePolicy } from "../evaluatePassword";
+import { formatCrackTime } from "../entropy";
+import {
+  createTranslator,
+  formatMessage,
+  isValidMessageTemplate,
+  LOCALES,
+  resolveLocale,
+} from "../i18n";
+import { ar } from "../locales/ar";
+import { en } from "../locales/en";
+import { ruleLabel, lengthRule } from "../rules";
+
+describe("formatMessage", () => {
+  it("interpolates values and keeps unknown placeholders", () => {
+    expect(
+      formatMessage("At least {minLength} of {kind}", { minLength: 8 })
+    ).toBe("At least 8 of {kind}");
+  });
+
+  it("picks plural forms, exact matches first", () => {
+    const template =
+      "{count, plural, =0 {nothing} one {# item} other {# items}} left";
+    expect(formatMessage(template, { count: 0 })).toBe("nothing left");
+    expect(formatMessage(template, { count: 1 })).toBe("1 item left");
+    expect(formatMessage(template, { count: 5 })).toBe("5 items left");
+  });
+
+  it("selects on values and nests arguments", () => {
+    const template =
+      "{name}{reversed, select, true { ({name} reversed)} other {}}";
+    expect(formatMessage(template, { name: "abc", reversed: true })).toBe(
+      "abc (abc reversed)"
+    );
+    expect(formatMessage(template, { name: "abc", reversed: false })).toBe(
+      "abc"
+    );
+  });
+
+  it("uses the plural rules of the locale", () => {
+    const days = (count: number) =>
+      formatCrackTime(86400 * count, createTranslator("ar"));
+    expect(days(1)).toBe("يوم واحد");
+    expect(days(2)).toBe("يومان");
+    expect(days(3)).toBe("3 أيام");
+    expect(days(11)).toBe("11 يومًا");
+    expect(ar.pluralCategory(100)).toBe("other");
+  });
+
+  it("rejects unclosed arguments and options", () => {
+    expect(() => formatMessage("At least {minLength characters")).toThrow(
+      'Unclosed message argument "minLength characters"'
+    );
+    expect(isValidMessageTemplate("{count, plural, one {# item}")).toBe(false);
+    expect(isValidMessageTemplate("{count, plural, one {# item")).toBe(false);
+    expect(isValidMessageTemplate("{count, list}")).toBe(false);
+    expect(isValidMessageTemplate("Plain text with a stray }")).toBe(true);
+  });
+});
+
+describe("createTranslator", () => {
+  it("falls back from regional codes and unknown locales", () => {
+    expect(resolveLocale("es-MX").code).toBe("es");
+    expect(resolveLocale("xx").code).toBe("en");
+  });
+
+  it("prefers overrides, then the locale, then English, then the fallback", () => {
+    const { t } = createTranslator(
+      { ...LOCALES.es, messages: { "validator.title": "Clave" } },
+      { "validator.placeholder": "Tu clave" }
+    );
+    expect(t("validator.placeholder")).toBe("Tu clave");
+    expect(t("validator.title")).toBe("Clave");
+    expect(t("validator.empty")).toBe("Please enter a password");
+    expect(t("dictionaries.team", {}, "team words")).toBe("team words");
+  });
+
+  it("ships catalogs using only keys the English catalog knows", () => {
+    const known = Object.keys(en.messages);
+    Object.values(LOCALES).forEach((locale) => {
+      const unknown = Object.keys(locale.messages).filter(
+        (key) => !key.startsWith("dictionaries.") && !known.includes(key)
+      );
+      expect({ locale: locale.code, unknown }).toEqual({
+        locale: locale.code,
+        unknown: [],
+      });
+    });
+  });
+});
+
+describe("localised evaluation", () => {
+  it("translates labels, suggestions and warnings", () => {
+    const translator = createTranslator("es");
+    const result = evaluatePassword("abcd", {}, { translator });
+
+    expect(result.warning).toBe("Evita secuencias como «abcd»");
+    expect(result.suggestions[0].message).toBe(
+      "Añade 4 caracteres más para llegar a Media"
+    );
+    expect(ruleLabel(lengthRule, resolvePolicy(), translator)).toBe(
+      "Longitud mínima (8)"
+    );
+  });
+
+  it("translates custom rules through the overrides", () => {
+    const translator = createTranslator("de", {
+      "rules.noSpaces.label": "Keine Leerzeichen",
+    });
+    const rule = {
+      id: "noSpaces",
+      label: "No spaces",
+      weight: 1,
+      test: () => true,
+    };
+    expect(ruleLabel(rule, resolvePolicy(), translator)).toBe(
+      "Keine Leerzeichen"
+    );
+    expect(ruleLabel(rule, resolvePolicy(), createTranslator("de"))).toBe(
+      "No spaces"
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { evaluatePassword } from "../evaluatePassword";
+import {
+  findDates,
+  findKeyboardWalks,
+  findRepeatedBlocks,
+  findSequences,
+  patternSegments,
+} from "../patterns";
+
+const tokens = (matches: { token: string }[]) =>
+  matches.map(({ token }) => token);
+
+describe("findSequences", () => {
+  it("finds ascending and descending runs with their span", () => {
+    expect(findSequences("xabcdefx")).toEqual([
+      { kind: "sequence", start: 1, end: 7, token: "abcdef" },
+    ]);
+    expect(tokens(findSequences("987654"))).toEqual(["987654"]);
+    expect(tokens(findSequences("aBcD-zyxw"))).toEqual(["aBcD", "zyxw"]);
+  });
+
+  it("ignores runs shorter than four and mixed letters and digits", () => {
+    expect(findSequences("first study abc")).toEqual([]);
+    expect(findSequences("89abc")).toEqual([]);
+  });
+
+  it("works in other scripts", () => {
+    expect(tokens(findSequences("абвг"))).toEqual(["абвг"]);
+    expect(tokens(findSequences("١٢٣٤"))).toEqual(["١٢٣٤"]);
+  });
+});
+
+describe("findKeyboardWalks", () => {
+  it("finds rows, columns and their combinations on QWERTY", () => {
+    expect(findKeyboardWalks("Xasdfgh!")).toEqual([
+      { kind: "keyboard", start: 1, end: 7, token: "asdfgh", layout: "qwerty" },
+    ]);
+    expect(tokens(findKeyboardWalks("qazwsx"))).toEqual(["qazwsx"]);
+    expect(tokens(findKeyboardWalks("1qaz2wsx"))).toEqual(["1qaz2wsx"]);
+    expect(tokens(findKeyboardWalks("POIUY"))).toEqual(["POIUY"]);
+  });
+
+  it("knows the AZERTY and QWERTZ layouts", () => {
+    expect(findKeyboardWalks("azerty")[0]).toMatchObject({
+      token: "azerty",
+      layout: "azerty",
+    });
+    expect(findKeyboardWalks("wxcvbn")[0].layout).toBe("azerty");
+    expect(findKeyboardWalks("qwertz")[0]).toMatchObject({
+      token: "qwertz",
+      layout: "qwertz",
+    });
+    expect(findKeyboardWalks("yxcvb")[0].layout).toBe("qwertz");
+  });
+
+  it("keeps only the longest walk over the same keys", () => {
+    expect(findKeyboardWalks("qwerty")).toEqual([
+      { kind: "keyboard", start: 0, end: 6, token: "qwerty", layout: "qwerty" },
+    ]);
+  });
+
+  it("leaves ordinary words alone", () => {
+    ["red", "party", "desert", "were", "Tr0ub4dor&3"].forEach((word) =>
+      expect(findKeyboardWalks(word)).toEqual([])
+    );
+  });
+});
+
+describe("findRepeatedBlocks", () => {
+  it("finds blocks repeated back to back", () => {
+    expect(findRepeatedBlocks("Xabcabc!")).toEqual([
+      { kind: "block", start: 1, end: 7, token: "abcabc" },
+    ]);
+    expect(tokens(findRepeatedBlocks("ababab"))).toEqual(["ababab"]);
+  });
+
+  it("ignores short repeats and single repeated characters", () => {
+    expect(findRepeatedBlocks("mama banana")).toEqual([]);
+    expect(findRepeatedBlocks("aaaaaaaa")).toEqual([]);
+  });
+});
+
+describe("findDates", () => {
+  it("finds years and full dates in common orders", () => {
+    expect(findDates("x19901231")).toEqual([
+      { kind: "date", start: 1, end: 9, token: "19901231" },
+    ]);
+    expect(tokens(findDates("31.12.1990"))).toEqual(["31.12.1990"]);
+    expect(tokens(findDates("12/31/90"))).toEqual(["12/31/90"]);
+    expect(tokens(findDates("Summer2024!"))).toEqual(["2024"]);
+    expect(findDates("Tr0ub4dor&3")).toEqual([]);
+  });
+});
+
+describe("patternSegments", () => {
+  it("splits the password around merged matches", () => {
+    expect(
+      patternSegments("xabcdefg1990y", [
+        { kind: "sequence", start: 1, end: 7, token: "abcdef" },
+        { kind: "sequence", start: 2, end: 8, token: "bcdefg" },
+        { kind: "date", start: 8, end: 12, token: "1990" },
+      ])
+    ).toEqual([
+      { text: "x", matched: false },
+      { text: "abcdefg1990", matched: true },
+      { text: "y", matched: false },
+    ]);
+  });
+});
+
+describe("pattern rules", () => {
+  it("fail on each kind of pattern and report the spans", () => {
+    const result = evaluatePassword("Zq!abcd-qazwsx");
+    expect(result.criteria).toMatchObject({
+      noSequences: false,
+      noKeyboardWalks: false,
+      noRepeatedBlocks: true,
+      noDates: true,
+    });
+    expect(result.patternMatches).toEqual([
+      { kind: "sequence", start: 3, end: 7, token: "abcd" },
+      {
+        kind: "keyboard",
+        start: 8,
+        end: 14,
+        token: "qazwsx",
+        layout: "qwerty",
+      },
+    ]);
+    expect(result.suggestions.map(({ message }) => message)).toEqual(
+      expect.arrayContaining([
+        "Break up the sequence 'abcd'",
+        "Break up the keyboard pattern 'qazwsx'",
+      ])
+    );
+  });
+
+  it("are worth a quarter point each", () => {
+    const result = evaluatePassword("Xy!abcabc-2024");
+    expect(result.criteria.noRepeatedBlocks).toBe(false);
+    expect(result.criteria.noDates).toBe(false);
+    expect(result.score).toBe(result.maxScore - 0.5);
+  });
+
+  it("can be switched off by the policy", () => {
+    const result = evaluatePassword("Zq!abcd-qazwsx", {
+      preventSequences: false,
+      preventKeyboardWalks: false,
+    });
+    expect(result.status.noSequences).toBe("notApplicable");
+    expect(result.status.noKeyboardWalks).toBe("notApplicable");
+    expect(result.patternMatches).toBeUndefined();
+  });
+});
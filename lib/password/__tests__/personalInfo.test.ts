@@ -0,0 +1,97 @@
+import { editDistance, normalizedEditDistance } from "../editDistance";
+import { evaluatePassword } from "../evaluatePassword";
+import { findPersonalInfo } from "../personalInfo";
+
+const inputs = {
+  username: "jsmith",
+  email: "john.smith@example.com",
+  displayName: "John Smith",
+  birthDate: "1990-07-04",
+  appName: "Acme Vault",
+};
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(normalizedEditDistance("abcd", "abce")).toBe(0.25);
+  });
+});
+
+describe("findPersonalInfo", () => {
+  it("finds the username regardless of case", () => {
+    expect(findPersonalInfo("xx-JSmith-42", inputs)).toEqual({
+      field: "username",
+      reversed: false,
+    });
+  });
+
+  it("finds parts of the email local-part", () => {
+    expect(findPersonalInfo("Johnny!2024", { email: inputs.email })).toEqual({
+      field: "email",
+      reversed: false,
+    });
+  });
+
+  it("finds reversed values", () => {
+    expect(findPersonalInfo("htimsj#77", { username: "jsmith" })).toEqual({
+      field: "username",
+      reversed: true,
+    });
+  });
+
+  it("finds leetspeak spellings of the display name", () => {
+    expect(
+      findPersonalInfo("$m1th&Co!", { displayName: "John Smith" })
+    ).toMatchObject({ field: "displayName" });
+  });
+
+  it("finds birth dates in common formats", () => {
+    ["Kx1990!!", "A04071990", "p0704z"].forEach((password) => {
+      expect(
+        findPersonalInfo(password, { birthDate: inputs.birthDate })
+      ).toMatchObject({ field: "birthDate" });
+    });
+  });
+
+  it("finds the app name", () => {
+    expect(findPersonalInfo("myvault#1", { appName: "Acme Vault" })).toEqual({
+      field: "appName",
+      reversed: false,
+    });
+  });
+
+  it("flags passwords that closely resemble a value", () => {
+    expect(findPersonalInfo("qsmith", { username: "jsmith" })).toEqual({
+      field: "username",
+      reversed: false,
+    });
+  });
+
+  it("ignores unrelated passwords", () => {
+    expect(findPersonalInfo("Tr0ub4dor&3", inputs)).toBeUndefined();
+  });
+});
+
+describe("evaluatePassword with user inputs", () => {
+  it("only reports the criterion when user inputs are supplied", () => {
+    expect(evaluatePassword("Tr0ub4dor&3").criteria).not.toHaveProperty(
+      "noPersonalInfo"
+    );
+    const result = evaluatePassword("Tr0ub4dor&3", {}, { userInputs: inputs });
+    expect(result.criteria.noPersonalInfo).toBe(true);
+    expect(result.maxScore).toBe(9);
+    expect(result.level).toBe("Strong");
+  });
+
+  it("penalises passwords containing personal data", () => {
+    const result = evaluatePassword("JSmith#1990x", {}, { userInputs: inputs });
+    expect(result.criteria.noPersonalInfo).toBe(false);
+    expect(result.personalInfoMatch).toEqual({
+      field: "username",
+      reversed: false,
+    });
+    // The year costs the date rule's quarter point as well.
+    expect(result.score).toBe(result.maxScore - 1.25);
+  });
+});
@@ -0,0 +1,85 @@
+import { evaluatePassword, resolvePolicy } from "../evaluatePassword";
+import {
+  explainCriteria,
+  POLICY_SWITCHES,
+  validatorSnippet,
+} from "../playground";
+
+describe("POLICY_SWITCHES", () => {
+  it("lists every require and prevent prop", () => {
+    expect(POLICY_SWITCHES).toEqual([
+      "requireUppercase",
+      "requireLowercase",
+      "requireNumbers",
+      "requireSpecialChars",
+      "preventRepeatedChars",
+      "preventCommonPatterns",
+      "preventSequences",
+      "preventKeyboardWalks",
+      "preventRepeatedBlocks",
+      "preventDates",
+    ]);
+  });
+});
+
+describe("validatorSnippet", () => {
+  it("renders a bare validator for the defaults", () => {
+    expect(validatorSnippet({})).toBe("<PasswordStrengthValidator />");
+    expect(validatorSnippet({ minLength: 8, requireNumbers: true })).toBe(
+      "<PasswordStrengthValidator />"
+    );
+  });
+
+  it("lists only the props that differ from the defaults, in policy order", () => {
+    expect(
+      validatorSnippet({
+        requireSpecialChars: false,
+        requireUppercase: true,
+        minLength: 12,
+      })
+    ).toBe(
+      [
+        "<PasswordStrengthValidator",
+        "  minLength={12}",
+        "  requireSpecialChars={false}",
+        "/>",
+      ].join("\n")
+    );
+  });
+});
+
+describe("explainCriteria", () => {
+  const explain = (password: string, props = {}) => {
+    const policy = resolvePolicy(props);
+    return explainCriteria(evaluatePassword(password, policy), policy);
+  };
+
+  it("explains every rule of the policy", () => {
+    const criteria = explain("Tr0ub4dor&3", { requireNumbers: false });
+    expect(criteria.map(({ id }) => id)).toContain("noPasswordReuse");
+    expect(criteria.find(({ id }) => id === "length")).toEqual({
+      id: "length",
+      label: "Minimum length (8)",
+      status: "passed",
+      weight: 1,
+      mandatory: false,
+    });
+    expect(criteria.find(({ id }) => id === "numbers")?.status).toBe(
+      "notApplicable"
+    );
+  });
+
+  it("names what failed a rule and how to fix it", () => {
+    const criteria = explain("Abcd-1234-xyz");
+    const sequences = criteria.find(({ id }) => id === "noSequences");
+    expect(sequences).toMatchObject({
+      status: "failed",
+      found: 'Predictable parts: "Abcd", "1234"',
+      suggestion: expect.any(String),
+    });
+
+    expect(
+      explain("password").find(({ id }) => id === "noCommonPatterns")?.found
+    ).toContain("password");
+  });
+});
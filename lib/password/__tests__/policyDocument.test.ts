@@ -0,0 +1,213 @@
+import tenantPolicy from "./fixtures/tenant-policy.json";
+import schema from "../policySchema.json";
+import { evaluatePassword, resolvePolicy } from "../evaluatePassword";
+import {
+  loadPolicyDocument,
+  PolicyDocumentError,
+  validatePolicyDocument,
+} from "../policyDocument";
+import { BUILT_IN_RULES, ruleLabel } from "../rules";
+
+describe("validatePolicyDocument", () => {
+  it("accepts the fixture and a minimal document", () => {
+    expect(validatePolicyDocument(tenantPolicy)).toEqual([]);
+    expect(validatePolicyDocument({ version: 1 })).toEqual([]);
+  });
+
+  it("reports every problem with its path", () => {
+    expect(
+      validatePolicyDocument({
+        version: 2,
+        extends: "iso-27001",
+        minLength: 7.5,
+        requireNumbers: "yes",
+        estimator: "zxcvbn",
+        normalization: "NFD",
+        colour: "red",
+        rules: { length: { weight: -1 }, noEmoji: {} },
+        customRules: [
+          { id: "length", label: "", pattern: "(", match: "sometimes" },
+        ],
+        tiers: [{ id: "Weak", threshold: 2, label: "Weak", color: {} }],
+        messages: { length: 12 },
+        blocklists: [{ name: "team", words: ["ok", ""] }],
+      })
+    ).toEqual([
+      { path: "/colour", message: "is not a known field" },
+      { path: "/version", message: "must be 1" },
+      { path: "/extends", message: "must name a known policy preset" },
+      { path: "/minLength", message: "must be an integer" },
+      { path: "/requireNumbers", message: "must be a boolean, got string" },
+      { path: "/estimator", message: "must be one of rules, entropy" },
+      { path: "/normalization", message: "must be one of NFC, NFKC" },
+      { path: "/rules/length/weight", message: "must be at least 0" },
+      { path: "/rules/noEmoji", message: "is not a built-in rule" },
+      {
+        path: "/customRules/0/id",
+        message: '"length" is already used by another rule',
+      },
+      { path: "/customRules/0/label", message: "must not be empty" },
+      {
+        path: "/customRules/0/pattern",
+        message: "is not a valid regular expression",
+      },
+      {
+        path: "/customRules/0/match",
+        message: "must be one of required, forbidden",
+      },
+      { path: "/tiers/0/threshold", message: "must be between 0 and 1" },
+      { path: "/tiers/0/color/light", message: "is required" },
+      { path: "/tiers/0/color/dark", message: "is required" },
+      { path: "/messages/length", message: "must be a string" },
+      { path: "/blocklists/0/words/1", message: "must not be empty" },
+    ]);
+  });
+
+  it("checks that messages are templates for the policy's rules", () => {
+    expect(
+      validatePolicyDocument({
+        version: 1,
+        customRules: [
+          {
+            id: "noSpaces",
+            label: "No spaces",
+            pattern: "\\s",
+            match: "forbidden",
+          },
+        ],
+        messages: {
+          length: "At least {minLength characters",
+          uppercase: "{count, plural, one {# capital",
+          noSpaces: "Leave out spaces",
+          noEmoji: "No emoji",
+        },
+      })
+    ).toEqual([
+      { path: "/messages/length", message: "is not a valid message template" },
+      {
+        path: "/messages/uppercase",
+        message: "is not a valid message template",
+      },
+      { path: "/messages/noEmoji", message: "is not a rule id" },
+    ]);
+  });
+
+  it("checks the order and ids of tiers", () => {
+    const tier = (id: string, threshold: number) => ({
+      id,
+      threshold,
+      label: id,
+      color: { light: "#000", dark: "#fff" },
+    });
+
+    expect(
+      validatePolicyDocument({
+        version: 1,
+        tiers: [tier("low", 0.2), tier("high", 0.8), tier("high", 0.5)],
+        entropyScaleBits: 0,
+      })
+    ).toEqual([
+      { path: "/tiers", message: "the first tier must have threshold 0" },
+      {
+        path: "/tiers",
+        message: 'tier "high" must have a higher threshold than the one before',
+      },
+      { path: "/tiers", message: 'tier id "high" is used more than once' },
+      { path: "/entropyScaleBits", message: "must be at least 1" },
+    ]);
+    expect(validatePolicyDocument({ version: 1, tiers: [] })).toEqual([
+      { path: "/tiers", message: "at least one tier is required" },
+    ]);
+  });
+
+  it("rejects non-object documents", () => {
+    expect(validatePolicyDocument([])).toEqual([
+      { path: "", message: "must be an object, got array" },
+    ]);
+  });
+
+  it("knows every field the JSON schema declares", () => {
+    const document = Object.fromEntries(
+      Object.keys(schema.properties).map((key) => [key, undefined])
+    );
+    expect(validatePolicyDocument({ ...document, version: 1 })).toEqual([]);
+  });
+});
+
+describe("loadPolicyDocument", () => {
+  it("throws a PolicyDocumentError listing the problems", () => {
+    expect(() => loadPolicyDocument({ version: 1, minLength: 0 })).toThrow(
+      PolicyDocumentError
+    );
+    try {
+      loadPolicyDocument({ version: 1, minLength: 0 });
+    } catch (error) {
+      expect((error as PolicyDocumentError).errors).toEqual([
+        { path: "/minLength", message: "must be between 1 and 256" },
+      ]);
+      expect((error as Error).message).toContain(
+        "/minLength: must be between 1 and 256"
+      );
+    }
+  });
+
+  it("parses JSON text and reports syntax errors", () => {
+    expect(loadPolicyDocument('{"version": 1, "minLength": 20}')).toMatchObject(
+      { minLength: 20 }
+    );
+    expect(() => loadPolicyDocument("{version: 1}")).toThrow(
+      /is not valid JSON/
+    );
+  });
+
+  it("converts a local policy file into policy fields", () => {
+    const policy = resolvePolicy(loadPolicyDocument(tenantPolicy));
+
+    expect(policy.preset).toEqual({ id: "owasp-asvs", version: "4.0.3" });
+    expect(policy.minLength).toBe(10);
+    expect(policy.requireUppercase).toBe(false);
+    expect(policy.tiers.map((tier) => [tier.label, tier.threshold])).toEqual([
+      ["Weak", 0],
+      ["Fair", 0.5],
+      ["Strong", 0.9],
+    ]);
+    expect(policy.rules.map((rule) => rule.id)).toEqual([
+      ...BUILT_IN_RULES.map((rule) => rule.id).filter(
+        (id) => id !== "noRepeatedChars"
+      ),
+      "noCompanyName",
+    ]);
+    expect(ruleLabel(policy.rules[0], policy)).toBe("At least 10 characters");
+    expect(policy.dictionaries.map((dictionary) => dictionary.name)).toEqual([
+      "common-passwords",
+      "breached-passwords",
+      "products",
+    ]);
+  });
+
+  it("copies the normalization form", () => {
+    const policy = loadPolicyDocument({ version: 1, normalization: "NFC" });
+    expect(policy.normalization).toBe("NFC");
+  });
+
+  it("evaluates with the loaded policy", () => {
+    const policy = loadPolicyDocument(tenantPolicy);
+
+    const strong = evaluatePassword("lantern meadow", policy);
+    // Rules the preset or document switches off no longer count.
+    expect(strong.maxScore).toBe(5);
+    expect(strong.level).toBe("Strong");
+
+    const company = evaluatePassword("lantern ACME meadow", policy);
+    expect(company.criteria.noCompanyName).toBe(false);
+    expect(company.level).toBe("Weak");
+
+    const product = evaluatePassword("my roadrunner!", policy);
+    expect(product.dictionaryMatch?.dictionary).toBe("products");
+  });
+
+  it("can drop the bundled blocklists", () => {
+    const policy = loadPolicyDocument({ version: 1, bundledBlocklists: false });
+    expect(policy.dictionaries).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { PolicyPresetName } from "../../../types/Types";
+import {
+  DEFAULT_POLICY,
+  evaluatePassword,
+  resolvePolicy,
+} from "../evaluatePassword";
+import {
+  getPolicyPreset,
+  isPolicyPresetName,
+  POLICY_PRESETS,
+} from "../presets";
+
+describe("getPolicyPreset", () => {
+  it("resolves an id to the latest version", () => {
+    expect(getPolicyPreset("pci-dss").version).toBe("4.0");
+    expect(getPolicyPreset("nist-800-63b").version).toBe("rev4");
+  });
+
+  it("resolves a pinned version", () => {
+    expect(getPolicyPreset("pci-dss@3.2.1").policy.minLength).toBe(7);
+  });
+
+  it("throws for unknown presets and versions", () => {
+    expect(() => getPolicyPreset("iso-27001")).toThrow(
+      'Unknown password policy preset "iso-27001"'
+    );
+    expect(() => getPolicyPreset("pci-dss@1.0")).toThrow();
+  });
+
+  it("recognises preset names", () => {
+    expect(isPolicyPresetName("owasp-asvs")).toBe(true);
+    expect(isPolicyPresetName("owasp-asvs@4.0.3")).toBe(true);
+    expect(isPolicyPresetName("owasp")).toBe(false);
+  });
+
+  it("has unique id and version pairs", () => {
+    const keys = POLICY_PRESETS.map(({ id, version }) => `${id}@${version}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe("resolvePolicy with presets", () => {
+  it("expands a preset and records which one was used", () => {
+    expect(resolvePolicy("nist-800-63b@rev3")).toEqual({
+      ...DEFAULT_POLICY,
+      minLength: 8,
+      requireUppercase: false,
+      requireLowercase: false,
+      requireNumbers: false,
+      requireSpecialChars: false,
+      preventRepeatedChars: true,
+      preventCommonPatterns: true,
+      rules: getPolicyPreset("nist-800-63b@rev3").policy.rules,
+      preset: { id: "nist-800-63b", version: "rev3" },
+    });
+  });
+
+  it("keeps passwords shorter than the minimum Weak under every preset", () => {
+    POLICY_PRESETS.forEach(({ id, version, policy }) => {
+      const name: PolicyPresetName = `${id}@${version}`;
+      const almost = "Lantern-meadow-quiet-7".slice(
+        0,
+        (policy.minLength ?? 8) - 1
+      );
+      ["a", "ab", "x1", almost].forEach((password) =>
+        expect([name, evaluatePassword(password, name).level]).toEqual([
+          name,
+          "Weak",
+        ])
+      );
+    });
+  });
+
+  it("lets later sources override individual fields", () => {
+    const policy = resolvePolicy("pci-dss", {
+      minLength: 16,
+      requireSpecialChars: undefined,
+    });
+    expect(policy.minLength).toBe(16);
+    expect(policy.requireSpecialChars).toBe(false);
+    expect(policy.preset).toEqual({ id: "pci-dss", version: "4.0" });
+  });
+
+  it("drives evaluation", () => {
+    const nist = evaluatePassword("correct horse battery", "nist-800-63b");
+    expect(nist.criteria).toMatchObject({ length: true });
+    expect(nist.status).toMatchObject({
+      uppercase: "notApplicable",
+      specialChars: "notApplicable",
+    });
+    expect(nist.level).toBe("Strong");
+  });
+});
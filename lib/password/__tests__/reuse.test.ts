@@ -0,0 +1,173 @@
+import { evaluatePassword } from "../evaluatePassword";
+import { createPasswordHash } from "../history";
+import {
+  findPasswordReuse,
+  hashPassword,
+  matchesHash,
+  passwordVariants,
+} from "../reuse";
+import { seededRandomSource } from "../generator";
+import { pbkdf2Sha256 } from "../pbkdf2";
+import { sha256 } from "../sha256";
+
+const previous = (...passwords: string[]) =>
+  passwords.map((password) =>
+    createPasswordHash(
+      password,
+      seededRandomSource(passwords.indexOf(password))
+    )
+  );
+
+describe("sha256", () => {
+  it("matches the published test vectors", () => {
+    expect(sha256("")).toBe(
+      "E3B0C44298FC1C149AFBF4C8996FB92427AE41E4649B934CA495991B7852B855"
+    );
+    expect(sha256("abc")).toBe(
+      "BA7816BF8F01CFEA414140DE5DAE2223B00361A396177A9CB410FF61F20015AD"
+    );
+    expect(
+      sha256("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")
+    ).toBe("248D6A61D20638B8E5C026930C3E6039A33CE45964FF2167F6ECEDD419DB06C1");
+  });
+});
+
+describe("pbkdf2Sha256", () => {
+  it("matches the published test vectors", () => {
+    expect(pbkdf2Sha256("password", "salt", 1)).toBe(
+      "120FB6CFFCF8B32C43E7225256C4F837A86548C92CCC35480805987CB70BE17B"
+    );
+    expect(pbkdf2Sha256("password", "salt", 4096)).toBe(
+      "C5E478D59288C841AA530DB6845C4C8D962893A001CE4E11A4963873AA98134A"
+    );
+    expect(
+      pbkdf2Sha256(
+        "passwordPASSWORDpassword",
+        "saltSALTsaltSALTsaltSALTsaltSALTsalt",
+        4096
+      )
+    ).toBe("348C89DBCBD32B2F32D814B8116E84CF2B17347EBC1800181C4E2A1FB8DD53E1");
+  });
+
+  it("rejects a round count below one", () => {
+    expect(() => pbkdf2Sha256("password", "salt", 0)).toThrow(
+      "PBKDF2 iterations must be a positive integer, got 0"
+    );
+  });
+});
+
+describe("hashPassword", () => {
+  it("hashes the salt and the NFKC form of the password", () => {
+    expect(hashPassword("ｐａｓｓ", "salt")).toBe(sha256("saltpass"));
+    expect(
+      matchesHash("pass", { salt: "salt", hash: sha256("saltpass") })
+    ).toBe(true);
+  });
+
+  it("stretches the password with PBKDF2 when given iterations", () => {
+    expect(hashPassword("ｐａｓｓ", "salt", 2)).toBe(
+      pbkdf2Sha256("pass", "salt", 2)
+    );
+  });
+});
+
+describe("passwordVariants", () => {
+  it("undoes the usual rotation edits", () => {
+    const variants = passwordVariants("Summer2025!");
+    expect(variants[0]).toBe("Summer2025!");
+    expect(variants).toEqual(
+      expect.arrayContaining([
+        "Summer2024!",
+        "Summer2023!",
+        "summer2025!",
+        "Summer2025",
+        "Summer",
+      ])
+    );
+  });
+
+  it("keeps zero padding when nudging numbers", () => {
+    expect(passwordVariants("pass07")).toContain("pass06");
+  });
+});
+
+describe("findPasswordReuse", () => {
+  it("finds a previous password from its hash", () => {
+    expect(
+      findPasswordReuse("Summer2024!", {
+        previousPasswords: previous("Winter2023?", "Summer2024!"),
+      })
+    ).toEqual({ source: "history", exact: true });
+  });
+
+  it("finds trivial variations of a previous password", () => {
+    const previousPasswords = previous("Summer2024!");
+    expect(findPasswordReuse("Summer2025!", { previousPasswords })).toEqual({
+      source: "history",
+      exact: false,
+    });
+    expect(findPasswordReuse("Summer2024!!", { previousPasswords })).toEqual({
+      source: "history",
+      exact: false,
+    });
+    expect(
+      findPasswordReuse("Autumn2024!", { previousPasswords })
+    ).toBeUndefined();
+  });
+
+  it("checks stretched hashes for an exact repeat only", () => {
+    const previousPasswords = [
+      createPasswordHash("Summer2024!", seededRandomSource(1), 10),
+    ];
+    expect(findPasswordReuse("Summer2024!", { previousPasswords })).toEqual({
+      source: "history",
+      exact: true,
+    });
+    expect(
+      findPasswordReuse("Summer2025!", { previousPasswords })
+    ).toBeUndefined();
+  });
+
+  it("compares with the current password by edit distance", () => {
+    expect(
+      findPasswordReuse("summer2025?", { currentPassword: "Summer2024!" })
+    ).toEqual({ source: "current", exact: false });
+    expect(
+      findPasswordReuse("Summer2024!", { currentPassword: "Summer2024!" })
+    ).toEqual({ source: "current", exact: true });
+    expect(
+      findPasswordReuse("Tr0ub4dor&3", { currentPassword: "Summer2024!" })
+    ).toBeUndefined();
+  });
+});
+
+describe("noPasswordReuse rule", () => {
+  it("does not apply without a current or previous password", () => {
+    expect(evaluatePassword("Summer2024!").status.noPasswordReuse).toBe(
+      "notApplicable"
+    );
+  });
+
+  it("caps a reused password at the first tier with a warning", () => {
+    const result = evaluatePassword(
+      "Tr0ub4dor&4",
+      {},
+      { previousPasswords: previous("Tr0ub4dor&3") }
+    );
+    expect(result.criteria.noPasswordReuse).toBe(false);
+    expect(result.reuseMatch).toEqual({ source: "history", exact: false });
+    expect(result.level).toBe("Weak");
+    expect(result.warning).toBe("Too close to a password you have used before");
+    expect(result.suggestions.map(({ id }) => id)).toContain("noPasswordReuse");
+  });
+
+  it("passes a new password", () => {
+    const result = evaluatePassword(
+      "Tr0ub4dor&3",
+      {},
+      { currentPassword: "Summer2024!", previousPasswords: previous("hunter2") }
+    );
+    expect(result.criteria.noPasswordReuse).toBe(true);
+    expect(result.level).toBe("Strong");
+  });
+});
@@ -0,0 +1,112 @@
+import { PasswordRule } from "../../../types/Types";
+import {
+  DEFAULT_POLICY,
+  emptyStrength,
+  evaluatePassword,
+} from "../evaluatePassword";
+import { DEFAULT_TRANSLATOR } from "../i18n";
+import { BUILT_IN_RULES, lengthRule, ruleLabel } from "../rules";
+
+const twoDigits: PasswordRule = {
+  id: "twoDigits",
+  label: "At least two digits",
+  weight: 2,
+  test: (password) => (password.match(/\d/g) ?? []).length >= 2,
+};
+
+const noWhitespace: PasswordRule = {
+  id: "noWhitespace",
+  label: "No whitespace",
+  weight: 1,
+  mandatory: true,
+  test: (password) => !/\s/.test(password),
+};
+
+const noCompanyName: PasswordRule = {
+  id: "noCompanyName",
+  label: "Does not contain the company name",
+  weight: 1,
+  test: (password) => !password.toLowerCase().includes("acme"),
+};
+
+describe("built-in rules", () => {
+  it("are ordinary rules with labels", () => {
+    expect(BUILT_IN_RULES.map((rule) => rule.id)).toEqual([
+      "length",
+      "uppercase",
+      "lowercase",
+      "numbers",
+      "specialChars",
+      "noRepeatedChars",
+      "noCommonPatterns",
+      "noSequences",
+      "noKeyboardWalks",
+      "noRepeatedBlocks",
+      "noDates",
+      "noPersonalInfo",
+      "noPasswordReuse",
+    ]);
+    expect(ruleLabel(lengthRule, { ...DEFAULT_POLICY, minLength: 12 })).toBe(
+      "Minimum length (12)"
+    );
+  });
+
+  it("can be dropped from the rule list", () => {
+    const result = evaluatePassword("Tr0ub4dor&3", {
+      rules: BUILT_IN_RULES.filter((rule) => rule.id !== "specialChars"),
+    });
+    expect(result.criteria).not.toHaveProperty("specialChars");
+    expect(result.maxScore).toBe(7);
+  });
+});
+
+describe("custom rules", () => {
+  const rules = [...BUILT_IN_RULES, twoDigits, noWhitespace, noCompanyName];
+
+  it("key criteria by rule id", () => {
+    const result = evaluatePassword("Tr0ub4dor&3", { rules });
+    expect(result.criteria).toMatchObject({
+      twoDigits: true,
+      noWhitespace: true,
+      noCompanyName: true,
+    });
+  });
+
+  it("weigh score and maxScore", () => {
+    const result = evaluatePassword("Tr0ubadour&x", { rules });
+    expect(result.criteria.twoDigits).toBe(false);
+    expect(result.maxScore).toBe(12);
+    expect(result.score).toBe(10);
+  });
+
+  it("cap the level at Weak when a mandatory rule fails", () => {
+    const result = evaluatePassword("Tr0ub4dor &3", { rules });
+    expect(result.criteria.noWhitespace).toBe(false);
+    expect(result.score).toBe(result.maxScore - 1);
+    expect(result.level).toBe("Weak");
+  });
+
+  it("receive the resolved policy and user inputs", () => {
+    const test = jest.fn().mockReturnValue({ passed: true });
+    evaluatePassword(
+      "Tr0ub4dor&3",
+      {
+        minLength: 10,
+        rules: [{ id: "probe", label: "Probe", weight: 1, test }],
+      },
+      { userInputs: { username: "jsmith" } }
+    );
+    expect(test).toHaveBeenCalledWith("Tr0ub4dor&3", {
+      policy: expect.objectContaining({ minLength: 10 }),
+      userInputs: { username: "jsmith" },
+      translator: DEFAULT_TRANSLATOR,
+    });
+  });
+
+  it("are listed as unmet in the empty result", () => {
+    expect(emptyStrength({ rules }).criteria).toMatchObject({
+      twoDigits: false,
+      noWhitespace: false,
+    });
+  });
+});
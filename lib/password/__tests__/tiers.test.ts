@@ -0,0 +1,85 @@
+import { StrengthTier } from "../../../types/Types";
+import { evaluatePassword, strengthRatio } from "../evaluatePassword";
+import { BUILT_IN_RULES } from "../rules";
+import { DEFAULT_TIERS, tierFor, tierProblems } from "../tiers";
+
+const tier = (id: string, threshold: number): StrengthTier => ({
+  id,
+  threshold,
+  label: id.toUpperCase(),
+  color: { light: "#000", dark: "#fff" },
+});
+
+const FIVE_TIERS = [
+  tier("very-weak", 0),
+  tier("weak", 0.25),
+  tier("fair", 0.5),
+  tier("good", 0.75),
+  tier("excellent", 1),
+];
+
+describe("tierFor", () => {
+  it("picks the highest tier the ratio reaches", () => {
+    expect(tierFor(0, FIVE_TIERS).id).toBe("very-weak");
+    expect(tierFor(0.3, FIVE_TIERS).id).toBe("weak");
+    expect(tierFor(0.75, FIVE_TIERS).id).toBe("good");
+    expect(tierFor(1, FIVE_TIERS).id).toBe("excellent");
+  });
+
+  it("reproduces the original levels with the default tiers", () => {
+    const levels = [0, 1, 2, 3, 4, 5, 6, 7].map(
+      (score) => tierFor(score / 7, DEFAULT_TIERS).id
+    );
+    expect(levels).toEqual([
+      "Weak",
+      "Weak",
+      "Weak",
+      "Weak",
+      "Medium",
+      "Medium",
+      "Strong",
+      "Strong",
+    ]);
+  });
+});
+
+describe("tierProblems", () => {
+  it("accepts the default tiers", () => {
+    expect(tierProblems(DEFAULT_TIERS)).toEqual([]);
+  });
+
+  it("requires ascending thresholds starting at 0", () => {
+    expect(tierProblems([tier("a", 0.1), tier("b", 0.1)])).toEqual([
+      "the first tier must have threshold 0",
+      'tier "b" must have a higher threshold than the one before',
+    ]);
+  });
+});
+
+describe("evaluatePassword with custom tiers", () => {
+  it("reports the tier and uses its id as the level", () => {
+    const result = evaluatePassword("Abc123", { tiers: FIVE_TIERS });
+    expect(result.level).toBe("fair");
+    expect(result.tier.label).toBe("FAIR");
+  });
+
+  it("drops to the first tier when a mandatory rule fails", () => {
+    const rules = BUILT_IN_RULES.map((rule) =>
+      rule.id === "length" ? { ...rule, mandatory: true } : rule
+    );
+    const result = evaluatePassword("Tr0ub4dor&3", {
+      tiers: FIVE_TIERS,
+      rules,
+      minLength: 20,
+    });
+    expect(result.score).toBe(7);
+    expect(result.level).toBe("very-weak");
+  });
+
+  it("places entropy results on the entropy scale", () => {
+    const policy = { estimator: "entropy" as const, entropyScaleBits: 40 };
+    const result = evaluatePassword("correct horse battery", policy);
+    expect(strengthRatio(result, policy)).toBe(1);
+    expect(result.level).toBe("Strong");
+  });
+});
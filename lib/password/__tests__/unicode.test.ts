@@ -0,0 +1,122 @@
+import { evaluatePassword } from "../evaluatePassword";
+import {
+  characterClass,
+  findRepeatedRun,
+  graphemeLength,
+  graphemes,
+  hasCharacterClass,
+} from "../unicode";
+
+describe("characterClass", () => {
+  it("classifies letters by case in any script", () => {
+    expect(["Ü", "É", "Ж", "Ω"].map(characterClass)).toEqual(
+      Array(4).fill("uppercase")
+    );
+    expect(["ü", "é", "ж", "ω", "ß"].map(characterClass)).toEqual(
+      Array(5).fill("lowercase")
+    );
+    expect(["密", "ك", "ש"].map(characterClass)).toEqual(
+      Array(3).fill("uncased")
+    );
+  });
+
+  it("treats decimal digits of every script as digits", () => {
+    expect(["7", "٣", "۵", "३", "７"].map(characterClass)).toEqual(
+      Array(5).fill("digit")
+    );
+    expect(characterClass("Ⅻ")).not.toBe("digit");
+  });
+
+  it("treats punctuation, spaces and emoji as symbols", () => {
+    expect(["!", "€", " ", "¿", "😊", "👍🏽"].map(characterClass)).toEqual(
+      Array(6).fill("symbol")
+    );
+  });
+});
+
+describe("graphemes", () => {
+  it("keeps combining marks, flags and emoji sequences together", () => {
+    expect(graphemes("éa")).toEqual(["é", "a"]);
+    expect(graphemeLength("🇫🇷🇯🇵")).toBe(2);
+    expect(graphemeLength("👨‍👩‍👧‍👦")).toBe(1);
+    expect(graphemeLength("👍🏽!")).toBe(2);
+  });
+
+  it("finds runs of identical clusters", () => {
+    expect(findRepeatedRun("ab😊😊😊c")).toBe("😊😊😊");
+    expect(findRepeatedRun("🇫🇷🇫🇷🇫🇷")).toBe("🇫🇷🇫🇷🇫🇷");
+    expect(findRepeatedRun("🇫🇷🇯🇵🇫🇷")).toBeUndefined();
+    expect(hasCharacterClass("пароль", "uppercase")).toBe(false);
+  });
+});
+
+describe("international passwords", () => {
+  it("meets the character rules with non-Latin scripts", () => {
+    expect(evaluatePassword("Ünïcödé٣٤!").criteria).toMatchObject({
+      uppercase: true,
+      lowercase: true,
+      numbers: true,
+      specialChars: true,
+    });
+    expect(evaluatePassword("Пароль-٣٤").criteria).toMatchObject({
+      uppercase: true,
+      lowercase: true,
+      numbers: true,
+      specialChars: true,
+    });
+  });
+
+  it("does not count letters of uncased scripts as symbols", () => {
+    expect(evaluatePassword("密码密码安全").criteria.specialChars).toBe(false);
+  });
+
+  it("counts length in grapheme clusters", () => {
+    const flags = "🇫🇷🇯🇵🇩🇪🇮🇹";
+    expect(evaluatePassword(flags, { minLength: 4 }).criteria.length).toBe(
+      true
+    );
+    expect(evaluatePassword(flags, { minLength: 5 }).criteria.length).toBe(
+      false
+    );
+  });
+
+  it("evaluates composed and decomposed input the same way", () => {
+    const composed = evaluatePassword("Café-Noir-42", { minLength: 12 });
+    const decomposed = evaluatePassword("Café-Noir-42", {
+      minLength: 12,
+    });
+    expect(decomposed).toEqual(composed);
+    expect(composed.criteria.length).toBe(true);
+  });
+
+  it("folds compatibility characters with NFKC but not NFC", () => {
+    const fullWidth = "ｐａｓｓｗｏｒｄ";
+    expect(evaluatePassword(fullWidth).criteria.noCommonPatterns).toBe(false);
+    expect(
+      evaluatePassword(fullWidth, { normalization: "NFC" }).criteria
+        .noCommonPatterns
+    ).toBe(true);
+  });
+});
+
+describe("without Intl.Segmenter", () => {
+  const { Segmenter } = Intl;
+  let fallback: typeof import("../unicode");
+
+  beforeAll(() => {
+    delete (Intl as { Segmenter?: unknown }).Segmenter;
+    jest.isolateModules(() => {
+      fallback = require("../unicode");
+    });
+  });
+
+  afterAll(() => {
+    Object.assign(Intl, { Segmenter });
+  });
+
+  it("splits clusters the same way as the segmenter", () => {
+    ["éa", "🇫🇷🇯🇵", "👨‍👩‍👧‍👦x", "👍🏽!", "🏴󠁧󠁢󠁳󠁣󠁴󠁿ab", "mañana", "a\r\nb"].forEach((text) => {
+      expect(fallback.graphemes(text)).toEqual(graphemes(text));
+    });
+  });
+});
@@ -0,0 +1,21 @@
+// appConfigPolicy.ts
+//
+// Reads a policy document from `expo.extra` in app.json / app.config.js.
+// Kept apart from the framework-free modules because it depends on Expo.
+import Constants from "expo-constants";
+import { PasswordPolicy } from "../../types/Types";
+import { loadPolicyDocument } from "./policyDocument";
+
+export const APP_CONFIG_POLICY_KEY = "passwordPolicy";
+
+/**
+ * Loads the policy document stored under `expo.extra[key]`, or returns
+ * `undefined` when the app config has none. Invalid documents throw a
+ * PolicyDocumentError.
+ */
+export const loadAppConfigPolicy = (
+  key: string = APP_CONFIG_POLICY_KEY
+): Partial<PasswordPolicy> | undefined => {
+  const document = Constants.expoConfig?.extra?.[key];
+  return document === undefined ? undefined : loadPolicyDocument(document);
+};
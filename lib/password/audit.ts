@@ -0,0 +1,307 @@
+// audit.ts
+//
+// Runs the validator's evaluation over lists of passwords, for checking
+// exported candidate lists and test corpora against the app's policy. Each
+// result is handed on as soon as it is ready and only the counts per tier
+// are kept, so a list of any length is audited in constant memory.
+import {
+  EvaluationContext,
+  PasswordPolicy,
+  PolicySource,
+  StrengthLevel,
+} from "../../types/Types";
+import { meetsLevel } from "./confirm";
+import { evaluatePasswordAsync, resolvePolicy } from "./evaluatePassword";
+
+export type AuditFormat = "table" | "json" | "csv";
+
+export const AUDIT_FORMATS: AuditFormat[] = ["table", "json", "csv"];
+
+export interface AuditOptions extends EvaluationContext {
+  policy?: PolicySource;
+  /** Lowest tier that counts as valid; defaults to the highest tier. */
+  requiredLevel?: StrengthLevel;
+}
+
+export interface AuditResult {
+  /** Line of the input the password was read from, counting from 1. */
+  line: number;
+  password: string;
+  level: StrengthLevel;
+  score: number;
+  maxScore: number;
+  /** Reaches the required tier, as the validator's `onValidityChange` reports. */
+  valid: boolean;
+  /** Ids of the rules the password fails. */
+  failed: string[];
+  warning?: string;
+}
+
+export interface AuditSummary {
+  total: number;
+  valid: number;
+  /** Passwords per tier id, every tier of the policy in order. */
+  levels: { [level: string]: number };
+}
+
+export interface AuditWriter {
+  result: (result: AuditResult) => void;
+  /** Writes the distribution and closes the output. */
+  end: (summary: AuditSummary) => void;
+}
+
+/** Share of the passwords that are valid; an empty list counts as all valid. */
+export const validShare = ({ total, valid }: AuditSummary): number =>
+  total > 0 ? valid / total : 1;
+
+/**
+ * Evaluates each password in turn, waiting for asynchronous rules, and
+ * returns the distribution by tier. Blank lines are skipped but still
+ * counted, so line numbers match the input.
+ */
+export const auditPasswords = async (
+  passwords: AsyncIterable<string> | Iterable<string>,
+  { policy, requiredLevel, ...context }: AuditOptions = {},
+  onResult: (result: AuditResult) => void = () => {}
+): Promise<AuditSummary> => {
+  const resolved = resolvePolicy(policy);
+  const summary: AuditSummary = { total: 0, valid: 0, levels: {} };
+  resolved.tiers.forEach(({ id }) => {
+    summary.levels[id] = 0;
+  });
+
+  let line = 0;
+  for await (const password of passwords) {
+    line += 1;
+    if (password.length === 0) continue;
+
+    const strength = await evaluatePasswordAsync(password, resolved, context);
+    const valid = meetsLevel(strength, resolved, requiredLevel);
+    summary.total += 1;
+    if (valid) summary.valid += 1;
+    summary.levels[strength.level] += 1;
+    onResult({
+      line,
+      password,
+      level: strength.level,
+      score: strength.score,
+      maxScore: strength.maxScore,
+      valid,
+      failed: resolved.rules
+        .filter(({ id }) => strength.status[id] === "failed")
+        .map(({ id }) => id),
+      warning: strength.warning,
+    });
+  }
+  return summary;
+};
+
+const percent = (count: number, total: number) =>
+  `${total > 0 ? ((count / total) * 100).toFixed(1) : "0.0"}%`;
+
+const distribution = (summary: AuditSummary) =>
+  Object.keys(summary.levels).map((level) => ({
+    level,
+    count: summary.levels[level],
+    share: percent(summary.levels[level], summary.total),
+  }));
+
+/** Quotes a field when it holds a comma, quote or line break (RFC 4180). */
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (fields: (string | number)[]) =>
+  `${fields.map(csvField).join(",")}\n`;
+
+/** Longest password shown in a table; JSON and CSV keep the whole password. */
+const TABLE_PASSWORD_WIDTH = 24;
+
+/** A width of 0 leaves the cell as wide as its text. */
+const tableCell = (text: string, width: number) => {
+  const characters = Array.from(text);
+  if (width === 0) return text;
+  return characters.length > width
+    ? `${characters.slice(0, width - 1).join("")}…`
+    : text.padEnd(width);
+};
+
+const decimalPlaces = (value: number) =>
+  (String(value).split(".")[1] ?? "").length;
+
+/**
+ * Wide enough for any `score/maxScore` the policy can produce, fractional
+ * weights included.
+ */
+const scoreWidth = ({ rules }: PasswordPolicy) => {
+  const total = rules.reduce((sum, { weight }) => sum + weight, 0);
+  const places = Math.max(
+    0,
+    ...rules.map(({ weight }) => decimalPlaces(weight))
+  );
+  return Math.max("Score".length, `${total.toFixed(places)}/${total}`.length);
+};
+
+/** Control characters would break the table's alignment. */
+const printable = (text: string) => text.replace(/\p{Cc}/gu, "�");
+
+const tableWriter = (
+  policy: PasswordPolicy,
+  write: (chunk: string) => void,
+  includeResults: boolean
+): AuditWriter => {
+  const levelWidth = Math.max(
+    "Level".length,
+    ...policy.tiers.map(({ id }) => id.length)
+  );
+  const scoreColumn = scoreWidth(policy);
+  const row = (cells: [string, number][]) =>
+    write(
+      `${cells
+        .map(([text, width]) => tableCell(text, width))
+        .join("  ")
+        .trimEnd()}\n`
+    );
+
+  let header = includeResults;
+  return {
+    result: (result) => {
+      if (!includeResults) return;
+      if (header) {
+        row([
+          ["Line", 6],
+          ["Password", TABLE_PASSWORD_WIDTH],
+          ["Level", levelWidth],
+          ["Score", scoreColumn],
+          ["Valid", 5],
+          ["Failed rules", 0],
+        ]);
+        header = false;
+      }
+      row([
+        [String(result.line), 6],
+        [printable(result.password), TABLE_PASSWORD_WIDTH],
+        [result.level, levelWidth],
+        // Padded rather than cut, so a score is never shown truncated.
+        [`${result.score}/${result.maxScore}`.padEnd(scoreColumn), 0],
+        [result.valid ? "yes" : "no", 5],
+        [result.failed.join(", "), 0],
+      ]);
+    },
+    end: (summary) => {
+      if (includeResults && !header) write("\n");
+      row([
+        ["Level", levelWidth],
+        ["Count", 8],
+        ["Share", 0],
+      ]);
+      distribution(summary).forEach(({ level, count, share }) =>
+        row([
+          [level, levelWidth],
+          [String(count).padStart(8), 8],
+          [share, 0],
+        ])
+      );
+      row([
+        ["Total", levelWidth],
+        [String(summary.total).padStart(8), 8],
+      ]);
+      row([
+        ["Valid", levelWidth],
+        [String(summary.valid).padStart(8), 8],
+        [percent(summary.valid, summary.total), 0],
+      ]);
+    },
+  };
+};
+
+// Written piece by piece, so nothing but the summary is held until the end.
+const jsonWriter = (
+  write: (chunk: string) => void,
+  includeResults: boolean
+): AuditWriter => {
+  let first = true;
+  if (includeResults) write('{"results":[');
+  return {
+    result: (result) => {
+      if (!includeResults) return;
+      write(`${first ? "\n" : ",\n"}${JSON.stringify(result)}`);
+      first = false;
+    },
+    end: (summary) => {
+      const json = JSON.stringify({
+        ...summary,
+        validShare: validShare(summary),
+      });
+      write(includeResults ? `\n],"summary":${json}}\n` : `${json}\n`);
+    },
+  };
+};
+
+/** The results, then a blank line and the distribution as a second table. */
+const csvWriter = (
+  write: (chunk: string) => void,
+  includeResults: boolean
+): AuditWriter => {
+  if (includeResults) {
+    write(
+      csvRow([
+        "line",
+        "password",
+        "level",
+        "score",
+        "maxScore",
+        "valid",
+        "failed",
+        "warning",
+      ])
+    );
+  }
+  return {
+    result: (result) => {
+      if (!includeResults) return;
+      write(
+        csvRow([
+          result.line,
+          result.password,
+          result.level,
+          result.score,
+          result.maxScore,
+          String(result.valid),
+          result.failed.join(" "),
+          result.warning ?? "",
+        ])
+      );
+    },
+    end: (summary) => {
+      if (includeResults) write("\n");
+      write(csvRow(["level", "count", "share"]));
+      distribution(summary).forEach(({ level, count, share }) =>
+        write(csvRow([level, count, share]))
+      );
+    },
+  };
+};
+
+/**
+ * Formats results as they arrive. Without `includeResults` only the
+ * distribution is written.
+ */
+export const createAuditWriter = (
+  format: AuditFormat,
+  write: (chunk: string) => void,
+  {
+    policy,
+    includeResults = true,
+  }: { policy?: PolicySource; includeResults?: boolean } = {}
+): AuditWriter => {
+  switch (format) {
+    case "json":
+      return jsonWriter(write, includeResults);
+    case "csv":
+      return csvWriter(write, includeResults);
+    default:
+      return tableWriter(resolvePolicy(policy), write, includeResults);
+  }
+};
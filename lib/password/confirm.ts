@@ -0,0 +1,60 @@
+// confirm.ts
+//
+// Confirmation-field matching and the acceptance check shared by the
+// validator component, the form adapters, the audit and the server.
+import {
+  PasswordMatchStatus,
+  PasswordPolicy,
+  PasswordRule,
+  PasswordStrength,
+  StrengthLevel,
+} from "../../types/Types";
+
+/**
+ * Compares the confirmation with the password. A confirmation that is still
+ * a prefix of the password is `partial`, so typing is not flagged as a
+ * mismatch before the user has finished.
+ */
+export const matchStatus = (
+  password: string,
+  confirmation: string
+): PasswordMatchStatus => {
+  if (confirmation.length === 0) return "empty";
+  if (confirmation === password) return "match";
+  if (password.startsWith(confirmation)) return "partial";
+  return "mismatch";
+};
+
+/**
+ * The requirement rules the password failed: the length rule and every
+ * mandatory rule. A high score from the other rules does not make up for
+ * them.
+ */
+export const failedRequirements = (
+  strength: PasswordStrength,
+  { rules }: PasswordPolicy
+): PasswordRule[] =>
+  rules.filter(
+    (rule) =>
+      (rule.id === "length" || rule.mandatory) &&
+      strength.status[rule.id] === "failed"
+  );
+
+/**
+ * True when the password fails no requirement rule and the strength reaches
+ * `requiredLevel`, which defaults to the policy's highest tier. Unknown tier
+ * ids are treated as the highest tier.
+ */
+export const meetsLevel = (
+  strength: PasswordStrength,
+  policy: PasswordPolicy,
+  requiredLevel?: StrengthLevel
+): boolean => {
+  const { tiers } = policy;
+  const required = tiers.findIndex(({ id }) => id === requiredLevel);
+  const minimum = required >= 0 ? required : tiers.length - 1;
+  return (
+    failedRequirements(strength, policy).length === 0 &&
+    tiers.findIndex(({ id }) => id === strength.level) >= minimum
+  );
+};
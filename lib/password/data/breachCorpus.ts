@@ -0,0 +1,113 @@
+// breachCorpus.ts
+//
+// SHA-1 hashes of a sample of breached passwords, grouped by the first five
+// hex characters of the digest in the same shape as the Pwned Passwords range
+// API. Only hashes are shipped, never the plaintext passwords.
+
+export const BREACH_CORPUS: Record<string, string[]> = {
+  "0015D": ["0367E2331D49B70580F12C5D72B0EAA842C"],
+  "013E8": ["975490BFF350A5625AD27CA2FCB611ADEED"],
+  "03072": ["DF361CF6A6DBC90A41AE19BADC47CA2F079"],
+  "035D5": ["C52F29FBEDEA0B95654A7A06D2B61308054"],
+  "05233": ["40000F8A88EEE46C9DAE18B8B8FCA8C573A"],
+  "05FE7": ["461C607C33229772D402505601016A7D0EA"],
+  "076D3": ["E6C4B9F654B5B220B9045B7458AB6B4CBC6"],
+  "09639": ["92090AAC2D595B32D34E8A5FCAB9FAE3151"],
+  "10E4F": ["3819007F514FB766FE23090FC7CFE370604"],
+  "19485": ["E369C691FA8ECE1FABC8A6CEABFB5666B79"],
+  "197DC": ["3E8B66E51EE073B6EE7B59E0EB9254B4CE2"],
+  "1E343": ["8E1620772AEEA58E43179C92B0C5FB121CD"],
+  "1E6BB": ["442C013C58B3697148C714BCA55D3149CF5"],
+  "1F3C5": ["3AE14626035383B39C207564D32D083E8FD"],
+  "23869": ["B733FCD6665832F65258AC650E6EC89A4A7"],
+  "25769": ["6C131BE052B14D47A8C5442E0FB6324AFC1"],
+  "25C2C": ["9AFDD83B8D34234AA2881CC341C09689AAA"],
+  "27E72": ["DBA56CBC8AD7DC2FD00F42B2D369C44A02E"],
+  "2A34F": ["2FB5C3F6EC9F8EC48867A8FF569A232F4D6"],
+  "2AA60": ["A8FF7FCD473D321E0146AFD9E26DF395147"],
+  "2F060": ["9FB5EEEC340ADE82D1B1B97FBB668267FD5"],
+  "3013F": ["D0A2253803C81771E403D43A61B56B057B6"],
+  "32CA9": ["FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573"],
+  "368F9": ["76940775C710AEC525FE1E349F8A1FB9A39"],
+  "38B96": ["DE8E2F48556F058B218CC5F55073FC68374"],
+  "3D542": ["AACB0D1D8B70ABB9A8434F4ABF31AAB4163"],
+  "3FFFA": ["DDD55B01633D0002828451BB19789701048"],
+  "4317D": ["573CF3D89B5562DFEF9F1B75186D99C46B1"],
+  "468EE": ["5CBD54E42B8AEAAD13C130F780F0D091173"],
+  "482FA": ["19D5C487CB69ACDA19EEE861CC69D82CC94"],
+  "4B18A": ["12B72BC7F767872F3EB46D7064733E7501B"],
+  "4BD07": ["4CF429AB454CD7BEE74BE51083A93CD8AA9"],
+  "4BE30": ["D9814C6D4E9800E0D2EA9EC9FB00EFA887B"],
+  "4E2BC": ["47A797764686AC9476C1C19F7710A8F3720"],
+  "5C995": ["BBB81B028B869EE4EA7C44BB1A9EA6152BC"],
+  "5F35A": ["B39BC01807A0520E703710BD79E7AB1153B"],
+  "5F802": ["11CCB43CD491C4E2FFBBDA4C7F6BA0FF604"],
+  "61F1A": ["94BA87D2667B31CCDE89F3BC87EECE74B09"],
+  "624C2": ["2A8C8F8C93F18FE5ECD4713100C8D754507"],
+  "627AF": ["9D02D78F3C15543046223D6A77225FE162D"],
+  "641CE": ["7E12A6791B90E5A91B1E23080776EEDAB03"],
+  "64438": ["EE426438161DA88554B3E2DE796B0CA265E"],
+  "65B3D": ["D225FE19C6A9EC4383161EA00FE0F161157"],
+  "66481": ["9D8C5343676C9225B5ED00A5CDC6F3A1FF3"],
+  "66764": ["1B92CEAE6BD7443B8F8C9DEB1DF46A3E78C"],
+  "66DA9": ["F3B8D9D83F34770A14C38276A69433A535B"],
+  "6AF2B": ["B477DBF550D2B729D25C5E664DF709CC6E9"],
+  "6CD7C": ["44AD701D00AA59B4225978E9C7DDF00C682"],
+  "701B3": ["89B848A2B1CFAB867093101D8D5AC56ADDD"],
+  "71985": ["5E8F4EBD94341277B0B0D50B75C5187133F"],
+  "72A2A": ["D007954200A0B79B20E65D37F513B6472FB"],
+  "75A40": ["6C1D9B55897A6F957C22C8472240C9D169C"],
+  "78563": ["B1651CCAB84057F8D31722E27397E0370BB"],
+  "794E3": ["361F8FAD4AE6539DEFE5A8D10D3DA4CF09F"],
+  "79BFA": ["6F30C31E7ED64B021892CD2A1708261F08F"],
+  "7D8F4": ["B4B4613DC7E15333E6449692AD4AF502D1D"],
+  "7E8B0": ["A3433F1210A9699D85420E363A1B162ECAC"],
+  "7ED83": ["4F73CC3C84C202A29E1FE8DCC1A1C9E3C51"],
+  "7EDA7": ["7675FEE6B6DCCBD9CD01587B9BCAF74E7FA"],
+  "84B80": ["3A1E70A4068629A1BCED46E88E63FF31726"],
+  "89C6B": ["5C0F1F0EB8DB8B274A9297A3D440CE0D8C7"],
+  "89E89": ["C17F877CA2821B557F633CEC3253B0AA941"],
+  "8C16F": ["71669B51628630F3EE0D57CC3922F1F1398"],
+  "91452": ["4A74F138A8C38E48CA8FA95C4871F1B6CB2"],
+  "91DFD": ["9DDB4198AFFC5C194CD8CE6D338FDE470E2"],
+  "9233C": ["CB325766AF9FA5F4C2400E006F857D785D6"],
+  "92429": ["D82A41E930486C6DE5EBDA9602D55C39986"],
+  "929D3": ["BA22D02B494DD0971784A3700C3DBF1D89F"],
+  A25FB: ["3505406C9AC761C8428692FBF5D5DDF1316"],
+  A29C5: ["7C6894DEE6E8251510D58C07078EE3F49BF"],
+  A2D44: ["5FE78F64EA1290F519E676536312581EFB1"],
+  A5083: ["DFB85980ADEFA5F376B49899E24342359F5"],
+  A678A: ["63D6ADD51C38F698C580C77287215C4B5E5"],
+  AFBA1: ["37331D0450D9FB52DF738268407E0A594A4"],
+  B0983: ["3CEC69EFF1BB667940A45E311262E85A422"],
+  B48CF: ["0140BEA12734DB05EBCDB012F1D265BED84"],
+  B6652: ["5C5409AA374E64653793BFA643780560C65"],
+  B80A9: ["AED8AF17118E51D4D0C2D7872AE26E2109E"],
+  B89C7: ["6FDD889CE931C328A1F111014ABC2343B3B"],
+  C4FD0: ["E4ABA8C507185B559B4583B727DF0455514"],
+  C5325: ["5317BB11707D0F614696B3CE6F221D0E2F2"],
+  C85EF: ["666591BD1BF5F34B1AD2F82CFAE685FCDD5"],
+  CB15A: ["D564768485DD5DC390C31C4806EBEFDBAD9"],
+  CBF25: ["10A5F9F7EECE23428DA7125C06115839E2B"],
+  CFEF1: ["1D457DA9DC9DD29B23B4434BAB5483519F1"],
+  D1314: ["9DE00848EB013CAD318D27829DB64B965D7"],
+  D186E: ["8DAC48A24D0115B568D0AB2C9E8B82E6ADB"],
+  D4F55: ["DEC8C7BC9675182779E564FAE1327D30F9B"],
+  D6058: ["AC17C549E50B19A107CDFE6AA49FCDFD9F5"],
+  D986F: ["637E0EC09FD413A5107B0A202A86CB326DA"],
+  DE87A: ["BEDA29D146EDC1113416AA041128D5D973F"],
+  E101F: ["D352E2D56EC1FDDEECB5164592CC49F3ABD"],
+  E2869: ["77B13F1A89E20D0459207545D15FE1EBA08"],
+  E6852: ["777C0260493DE41FB43918AB07BBB3A659C"],
+  E7578: ["7856C781087B5FB7845907043578F132E63"],
+  EAAA2: ["83F256085DA830F8D1DBD1209C71BA26152"],
+  EB3B0: ["C150D06E5AA2E8D921FEA8C1056C1FEA6F8"],
+  EB4DA: ["12BF661C55780BA953E97DDE6341B4C556D"],
+  EBE53: ["C61982711F13AF8BBC09844E4E2849268BA"],
+  EDF36: ["0B3F9F25E1B43F3777DB55C002035DCFE5C"],
+  EF48C: ["A0D838F1E524F5CCE49CF326BE3959A9139"],
+  F1BA8: ["47181793B3BABD9059E9EAA6A3D1EE9D95D"],
+  F2B14: ["F68EB995FACB3A1C35287B778D5BD785511"],
+  F58CF: ["5E7E10F195E21B553096D092C763ED18B0E"],
+  FAC67: ["3092FBDCAB2CD92EFC19675F2750ED97CA1"],
+};
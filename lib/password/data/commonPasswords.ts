@@ -0,0 +1,195 @@
+// commonPasswords.ts
+//
+// Most frequently used passwords from public breach compilations, in order of
+// popularity. Entries are lower-case and free of leetspeak spellings, which
+// the dictionary provider undoes before matching.
+
+export const COMMON_PASSWORDS: string[] = [
+  "123456",
+  "password",
+  "123456789",
+  "12345678",
+  "12345",
+  "qwerty",
+  "123123",
+  "111111",
+  "1234567",
+  "1234567890",
+  "000000",
+  "abc123",
+  "password1",
+  "iloveyou",
+  "qwerty123",
+  "1q2w3e4r",
+  "654321",
+  "666666",
+  "123321",
+  "987654321",
+  "qwertyuiop",
+  "dragon",
+  "monkey",
+  "letmein",
+  "football",
+  "baseball",
+  "sunshine",
+  "princess",
+  "welcome",
+  "shadow",
+  "superman",
+  "michael",
+  "master",
+  "jennifer",
+  "trustno1",
+  "starwars",
+  "whatever",
+  "freedom",
+  "charlie",
+  "computer",
+  "michelle",
+  "jessica",
+  "pepper",
+  "zaq12wsx",
+  "1qaz2wsx",
+  "asdfghjkl",
+  "asdfgh",
+  "zxcvbnm",
+  "qazwsx",
+  "hello123",
+  "login",
+  "admin",
+  "admin123",
+  "administrator",
+  "root",
+  "toor",
+  "changeme",
+  "secret",
+  "access",
+  "batman",
+  "hunter2",
+  "killer",
+  "hockey",
+  "soccer",
+  "ranger",
+  "buster",
+  "thomas",
+  "tigger",
+  "robert",
+  "daniel",
+  "andrew",
+  "joshua",
+  "matthew",
+  "jordan",
+  "hannah",
+  "ashley",
+  "amanda",
+  "nicole",
+  "summer",
+  "winter",
+  "spring",
+  "autumn",
+  "orange",
+  "banana",
+  "cookie",
+  "chocolate",
+  "flower",
+  "butterfly",
+  "purple",
+  "yellow",
+  "silver",
+  "golden",
+  "diamond",
+  "maggie",
+  "ginger",
+  "cheese",
+  "internet",
+  "samsung",
+  "google",
+  "apple",
+  "iphone",
+  "android",
+  "blink182",
+  "myspace",
+  "facebook",
+  "linkedin",
+  "twitter",
+  "pokemon",
+  "naruto",
+  "lovely",
+  "loveme",
+  "babygirl",
+  "angel",
+  "family",
+  "friends",
+  "forever",
+  "justin",
+  "liverpool",
+  "chelsea",
+  "arsenal",
+  "barcelona",
+  "yankees",
+  "cowboys",
+  "lakers",
+  "mustang",
+  "ferrari",
+  "corvette",
+  "harley",
+  "mercedes",
+  "jordan23",
+  "michael1",
+  "superman1",
+  "qwerty1",
+  "password123",
+  "password12",
+  "pass123",
+  "abcdef",
+  "abcd1234",
+  "a1b2c3",
+  "aaaaaa",
+  "zzzzzz",
+  "112233",
+  "121212",
+  "131313",
+  "159753",
+  "147258369",
+  "789456123",
+  "7777777",
+  "888888",
+  "999999",
+  "555555",
+  "11111111",
+  "00000000",
+  "qweasd",
+  "qweasdzxc",
+  "asdasd",
+  "zxcvbn",
+  "1qazxsw2",
+  "q1w2e3r4",
+  "letmein1",
+  "welcome1",
+  "welcome123",
+  "monkey123",
+  "dragon123",
+  "iloveyou1",
+  "sunshine1",
+  "princess1",
+  "starwars1",
+  "trustno1!",
+  "default",
+  "guest",
+  "test",
+  "test123",
+  "testing",
+  "temp123",
+  "user",
+  "demo",
+  "master123",
+  "passwort",
+  "motdepasse",
+  "contrasena",
+  "senha",
+  "parola",
+  "haslo",
+  "salasana",
+  "wachtwoord",
+  "lozinka",
+];
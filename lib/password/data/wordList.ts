@@ -0,0 +1,433 @@
+// wordList.ts
+//
+// Short, common English words for generated passphrases. Words are
+// lower-case, easy to spell and type, and none of them is or contains an entry
+// of the common-password list, so a passphrase is never rejected for its words.
+
+export const PASSPHRASE_WORDS: string[] = [
+  "able",
+  "acid",
+  "acorn",
+  "actor",
+  "agent",
+  "alarm",
+  "album",
+  "alert",
+  "alley",
+  "alpine",
+  "amber",
+  "ample",
+  "angle",
+  "ankle",
+  "apron",
+  "arena",
+  "argue",
+  "armor",
+  "arrow",
+  "aspen",
+  "atlas",
+  "attic",
+  "audio",
+  "avid",
+  "award",
+  "axle",
+  "bacon",
+  "badge",
+  "bagel",
+  "baker",
+  "balmy",
+  "bamboo",
+  "banjo",
+  "barley",
+  "barn",
+  "basin",
+  "batch",
+  "beach",
+  "beacon",
+  "beard",
+  "bench",
+  "berry",
+  "bison",
+  "blade",
+  "blank",
+  "blaze",
+  "bloom",
+  "blunt",
+  "board",
+  "bonus",
+  "boots",
+  "bored",
+  "brave",
+  "bread",
+  "brick",
+  "bride",
+  "brisk",
+  "broom",
+  "brush",
+  "bucket",
+  "buggy",
+  "bunny",
+  "cabin",
+  "cable",
+  "cactus",
+  "camel",
+  "canal",
+  "candle",
+  "canoe",
+  "canyon",
+  "cargo",
+  "carpet",
+  "carrot",
+  "cedar",
+  "chalk",
+  "charm",
+  "chess",
+  "chili",
+  "chimp",
+  "chord",
+  "cider",
+  "cinema",
+  "civic",
+  "claim",
+  "clamp",
+  "cliff",
+  "cloak",
+  "clock",
+  "cloud",
+  "clover",
+  "coast",
+  "cobra",
+  "cocoa",
+  "comet",
+  "coral",
+  "couch",
+  "crane",
+  "crate",
+  "crisp",
+  "crown",
+  "crumb",
+  "cubic",
+  "curry",
+  "cycle",
+  "daisy",
+  "dance",
+  "delta",
+  "denim",
+  "depot",
+  "diner",
+  "disco",
+  "ditch",
+  "diver",
+  "dozen",
+  "draft",
+  "drama",
+  "dream",
+  "drift",
+  "drum",
+  "dusk",
+  "eagle",
+  "easel",
+  "ebony",
+  "elbow",
+  "ember",
+  "empty",
+  "enjoy",
+  "entry",
+  "epoch",
+  "equal",
+  "evade",
+  "exile",
+  "fable",
+  "fancy",
+  "feast",
+  "fence",
+  "ferry",
+  "fever",
+  "fiber",
+  "field",
+  "finch",
+  "fjord",
+  "flame",
+  "flask",
+  "fleet",
+  "flint",
+  "flock",
+  "flora",
+  "flute",
+  "focus",
+  "foggy",
+  "forge",
+  "fossil",
+  "frost",
+  "fruit",
+  "fudge",
+  "gable",
+  "galaxy",
+  "gauge",
+  "gecko",
+  "geyser",
+  "giant",
+  "glade",
+  "glide",
+  "globe",
+  "glove",
+  "goose",
+  "gourd",
+  "grain",
+  "grape",
+  "gravel",
+  "gravy",
+  "grove",
+  "guava",
+  "guide",
+  "gusto",
+  "habit",
+  "hammock",
+  "harbor",
+  "harp",
+  "hatch",
+  "hazel",
+  "hedge",
+  "heron",
+  "hiker",
+  "hinge",
+  "hippo",
+  "hobby",
+  "honey",
+  "hotel",
+  "husky",
+  "igloo",
+  "image",
+  "index",
+  "inlet",
+  "irony",
+  "island",
+  "ivory",
+  "jacket",
+  "jelly",
+  "jewel",
+  "jigsaw",
+  "jockey",
+  "joint",
+  "jolly",
+  "judge",
+  "juice",
+  "jumbo",
+  "kayak",
+  "kettle",
+  "kiosk",
+  "kitten",
+  "knack",
+  "koala",
+  "label",
+  "ladle",
+  "lagoon",
+  "lapel",
+  "laser",
+  "latch",
+  "lemon",
+  "level",
+  "lilac",
+  "linen",
+  "lobby",
+  "locket",
+  "lodge",
+  "lotus",
+  "lunar",
+  "lyric",
+  "magma",
+  "mango",
+  "maple",
+  "marble",
+  "marsh",
+  "medal",
+  "melon",
+  "mentor",
+  "merit",
+  "metro",
+  "mingle",
+  "minnow",
+  "mocha",
+  "modem",
+  "molar",
+  "mosaic",
+  "motel",
+  "motor",
+  "mural",
+  "nacho",
+  "navel",
+  "nectar",
+  "nimble",
+  "noble",
+  "nomad",
+  "north",
+  "novel",
+  "nutmeg",
+  "oasis",
+  "ocean",
+  "olive",
+  "omega",
+  "onion",
+  "opera",
+  "orbit",
+  "otter",
+  "outer",
+  "oxide",
+  "paddle",
+  "pagoda",
+  "panda",
+  "panel",
+  "parcel",
+  "pastel",
+  "patio",
+  "pearl",
+  "pebble",
+  "pecan",
+  "pedal",
+  "penny",
+  "perch",
+  "piano",
+  "pickle",
+  "pilot",
+  "pinch",
+  "pixel",
+  "pizza",
+  "plank",
+  "plaza",
+  "plume",
+  "polar",
+  "pond",
+  "poppy",
+  "porch",
+  "potato",
+  "prism",
+  "pulse",
+  "puppy",
+  "quail",
+  "quartz",
+  "quest",
+  "quiet",
+  "quilt",
+  "quota",
+  "radar",
+  "radio",
+  "raft",
+  "raisin",
+  "ranch",
+  "raven",
+  "razor",
+  "recipe",
+  "reef",
+  "relic",
+  "remote",
+  "ribbon",
+  "ridge",
+  "rival",
+  "robin",
+  "rocket",
+  "rodeo",
+  "rover",
+  "ruby",
+  "rumba",
+  "saddle",
+  "safari",
+  "salad",
+  "salmon",
+  "salsa",
+  "sandal",
+  "satin",
+  "sauce",
+  "scarf",
+  "scone",
+  "scout",
+  "sedan",
+  "shelf",
+  "shell",
+  "shrub",
+  "sierra",
+  "siren",
+  "sketch",
+  "skiff",
+  "slate",
+  "sleet",
+  "slope",
+  "snack",
+  "solar",
+  "sonic",
+  "spark",
+  "spice",
+  "spoon",
+  "sprout",
+  "squid",
+  "stamp",
+  "steam",
+  "stool",
+  "storm",
+  "stove",
+  "straw",
+  "sugar",
+  "sunny",
+  "swamp",
+  "syrup",
+  "table",
+  "taco",
+  "talon",
+  "tango",
+  "tassel",
+  "teapot",
+  "tempo",
+  "thorn",
+  "thyme",
+  "tiger",
+  "timber",
+  "toast",
+  "token",
+  "topaz",
+  "torch",
+  "totem",
+  "tractor",
+  "trail",
+  "trout",
+  "tulip",
+  "tundra",
+  "turtle",
+  "tweed",
+  "twig",
+  "ultra",
+  "umbra",
+  "unity",
+  "urban",
+  "utter",
+  "valley",
+  "vapor",
+  "velvet",
+  "venue",
+  "verse",
+  "vessel",
+  "villa",
+  "vinyl",
+  "violet",
+  "visor",
+  "vivid",
+  "vocal",
+  "wafer",
+  "waffle",
+  "wagon",
+  "walnut",
+  "walrus",
+  "water",
+  "wheat",
+  "whisk",
+  "willow",
+  "window",
+  "wizard",
+  "wombat",
+  "woven",
+  "yacht",
+  "yodel",
+  "yogurt",
+  "zebra",
+  "zesty",
+  "zinc",
+  "zipper",
+];
@@ -0,0 +1,162 @@
+// dictionary.ts
+//
+// Pluggable dictionaries for the common-pattern check. A provider only has to
+// answer whether a password matches one of its entries; word lists, the
+// bundled common-password list and the offline breach corpus all share the
+// same DictionaryProvider shape.
+import { DictionaryMatch, DictionaryProvider } from "../../types/Types";
+import { BREACH_CORPUS } from "./data/breachCorpus";
+import { COMMON_PASSWORDS } from "./data/commonPasswords";
+import { sha1 } from "./sha1";
+
+const LEET_SUBSTITUTIONS: Record<string, string[]> = {
+  "0": ["o"],
+  "1": ["i", "l"],
+  "2": ["z"],
+  "3": ["e"],
+  "4": ["a"],
+  "5": ["s"],
+  "6": ["g"],
+  "7": ["t"],
+  "8": ["b"],
+  "9": ["g"],
+  "@": ["a"],
+  $: ["s"],
+  "!": ["i"],
+  "|": ["l", "i"],
+  "+": ["t"],
+  "(": ["c"],
+};
+
+const MAX_LEET_VARIANTS = 16;
+
+/** Words shorter than this only match the whole password, not a substring. */
+const MIN_SUBSTRING_LENGTH = 6;
+
+/** The most likely plain reading of a leetspeak password (p@ssw0rd → password). */
+export const normalizeLeetspeak = (password: string): string =>
+  Array.from(password.toLowerCase())
+    .map((char) => LEET_SUBSTITUTIONS[char]?.[0] ?? char)
+    .join("");
+
+/**
+ * Lower-case readings of the password with leetspeak substitutions undone.
+ * The literal reading comes first and the most likely reading second; the
+ * remaining combinations of ambiguous characters are capped to keep lookups
+ * cheap on long inputs.
+ */
+export const leetspeakVariants = (password: string): string[] => {
+  let combinations = [""];
+  for (const char of password.toLowerCase()) {
+    const options = LEET_SUBSTITUTIONS[char] ?? [];
+    combinations = combinations
+      .flatMap((prefix) => [char, ...options].map((option) => prefix + option))
+      .slice(0, MAX_LEET_VARIANTS);
+  }
+  return Array.from(
+    new Set([
+      password.toLowerCase(),
+      normalizeLeetspeak(password),
+      ...combinations,
+    ])
+  );
+};
+
+export interface WordListOptions {
+  label?: string;
+  /** Undo leetspeak substitutions before matching. Defaults to true. */
+  leetspeak?: boolean;
+}
+
+/**
+ * Creates a provider matching any entry of the list, case-insensitively, as
+ * a substring of the password (short entries must match the whole password).
+ */
+export const createWordListDictionary = (
+  name: string,
+  words: string[],
+  { label = name, leetspeak = true }: WordListOptions = {}
+): DictionaryProvider => {
+  const entries = words
+    .map((word) => word.toLowerCase())
+    .filter((word) => word.length > 0);
+  const exact = new Set(entries);
+  const substrings = entries.filter(
+    (word) => word.length >= MIN_SUBSTRING_LENGTH
+  );
+
+  return {
+    name,
+    label,
+    find: (password) => {
+      const literal = password.toLowerCase();
+      const variants = leetspeak ? leetspeakVariants(password) : [literal];
+      for (const variant of variants) {
+        const word = exact.has(variant)
+          ? variant
+          : substrings.find((entry) => variant.includes(entry));
+        if (word !== undefined) {
+          return {
+            dictionary: name,
+            label,
+            word,
+            leetspeak: variant !== literal,
+          };
+        }
+      }
+      return undefined;
+    },
+  };
+};
+
+/** Hash ranges keyed by the first five hex characters of the SHA-1 digest. */
+export type BreachCorpus = Record<string, string[]>;
+
+/**
+ * Creates a provider that checks the SHA-1 of the password against a breach
+ * corpus, k-anonymity style: only the five-character prefix is used to pick
+ * a range, and the remaining suffix is compared within that range.
+ */
+export const createBreachCorpusDictionary = (
+  name: string,
+  corpus: BreachCorpus,
+  { label = name }: Pick<WordListOptions, "label"> = {}
+): DictionaryProvider => ({
+  name,
+  label,
+  find: (password) => {
+    const hash = sha1(password);
+    const range = corpus[hash.slice(0, 5)] ?? [];
+    if (!range.includes(hash.slice(5))) return undefined;
+    return { dictionary: name, label, leetspeak: false };
+  },
+});
+
+export const commonPasswordsDictionary = createWordListDictionary(
+  "common-passwords",
+  COMMON_PASSWORDS,
+  { label: "common passwords" }
+);
+
+export const breachedPasswordsDictionary = createBreachCorpusDictionary(
+  "breached-passwords",
+  BREACH_CORPUS,
+  { label: "breached passwords" }
+);
+
+export const DEFAULT_DICTIONARIES: DictionaryProvider[] = [
+  commonPasswordsDictionary,
+  breachedPasswordsDictionary,
+];
+
+/** Returns the first match across the providers, in order. */
+export const findDictionaryMatch = (
+  password: string,
+  providers: DictionaryProvider[]
+): DictionaryMatch | undefined => {
+  for (const provider of providers) {
+    const match = provider.find(password);
+    if (match) return match;
+  }
+  return undefined;
+};
@@ -0,0 +1,32 @@
+// editDistance.ts
+
+/** Whole-password edit distance, relative to its length, still "close". */
+export const MAX_SIMILARITY_DISTANCE = 0.25;
+
+/** Levenshtein distance: insertions, deletions and substitutions cost 1. */
+export const editDistance = (a: string, b: string): number => {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = target.map((_, index) => index + 1);
+  previous.unshift(0);
+
+  source.forEach((sourceChar, i) => {
+    const current = [i + 1];
+    target.forEach((targetChar, j) => {
+      current[j + 1] = Math.min(
+        previous[j + 1] + 1,
+        current[j] + 1,
+        previous[j] + (sourceChar === targetChar ? 0 : 1)
+      );
+    });
+    previous = current;
+  });
+
+  return previous[target.length];
+};
+
+/** Edit distance scaled to 0 (identical) … 1 (nothing in common). */
+export const normalizedEditDistance = (a: string, b: string): number => {
+  const length = Math.max(Array.from(a).length, Array.from(b).length);
+  return length === 0 ? 0 : editDistance(a, b) / length;
+};
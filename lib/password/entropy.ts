@@ -0,0 +1,286 @@
+// entropy.ts
+//
+// Guess-based entropy estimation. A password is split into the patterns an
+// attacker would try first (repeats, sequences, keyboard walks, dates and
+// repeated blocks); each pattern is charged only the bits needed to guess it,
+// and every remaining character is charged log2 of the character pool.
+// Characters are grapheme clusters, so an emoji is charged once however many
+// code units it takes, and letters of any cased script count as upper or
+// lower case.
+import { PatternKind, PatternMatch, Translator } from "../../types/Types";
+import { DEFAULT_TRANSLATOR } from "./i18n";
+import {
+  findDates,
+  findKeyboardWalks,
+  findRepeatedBlocks,
+  findSequences,
+} from "./patterns";
+import {
+  CharacterClass,
+  characterClass,
+  graphemeLength,
+  graphemes,
+} from "./unicode";
+
+export type EntropyPatternKind = PatternKind | "repeat" | "bruteforce";
+
+export interface EntropyPattern {
+  kind: EntropyPatternKind;
+  start: number;
+  end: number;
+  token: string;
+  bits: number;
+}
+
+export interface EntropyEstimate {
+  entropyBits: number;
+  guesses: number;
+  crackTimeSeconds: number;
+  crackTimeDisplay: string;
+  patterns: EntropyPattern[];
+}
+
+/** Offline attack against a fast, unsalted hash. */
+export const GUESSES_PER_SECOND = 1e10;
+
+/** Keys on a full keyboard, shifted and unshifted. */
+const KEYBOARD_KEYS = 94;
+
+/**
+ * Unlike the rules, the estimator prices runs from three characters: short
+ * as they are, they still spare an attacker guesses.
+ */
+const MIN_RUN_LENGTH = 3;
+
+const SECONDS = [
+  { limit: 60, unit: "second", size: 1 },
+  { limit: 3600, unit: "minute", size: 60 },
+  { limit: 86400, unit: "hour", size: 3600 },
+  { limit: 86400 * 31, unit: "day", size: 86400 },
+  { limit: 86400 * 365, unit: "month", size: 86400 * 31 },
+  { limit: 86400 * 365 * 100, unit: "year", size: 86400 * 365 },
+];
+
+/**
+ * Pool each character class adds. Caseless letters get nothing here: like
+ * every other character outside ASCII they add `NON_ASCII_POOL`.
+ */
+const CLASS_POOLS: Record<CharacterClass, number> = {
+  lowercase: 26,
+  uppercase: 26,
+  digit: 10,
+  symbol: 33,
+  uncased: 0,
+};
+
+const NON_ASCII_POOL = 100;
+
+const log2 = (value: number) => Math.log(value) / Math.LN2;
+
+/** Code-unit offset of every boundary between clusters, 0 included. */
+const clusterOffsets = (clusters: string[]): number[] =>
+  clusters.reduce(
+    (offsets, cluster) => [
+      ...offsets,
+      offsets[offsets.length - 1] + cluster.length,
+    ],
+    [0]
+  );
+
+const poolOf = (clusters: string[], extra?: CharacterClass): number => {
+  const classes = new Set(clusters.map(characterClass));
+  if (extra) classes.add(extra);
+  let pool = 0;
+  classes.forEach((name) => {
+    pool += CLASS_POOLS[name];
+  });
+  if (clusters.some((cluster) => /[^\x00-\x7f]/.test(cluster))) {
+    pool += NON_ASCII_POOL;
+  }
+  return Math.max(pool, 1);
+};
+
+/**
+ * Size of the alphabet an attacker has to brute-force, based on which
+ * character classes appear in the password.
+ */
+export const characterPoolSize = (password: string): number =>
+  poolOf(graphemes(password));
+
+/**
+ * Bits one more character of `characterClassName` would add: its own share
+ * of the pool, plus what a pool grown by the class adds to every character
+ * already there.
+ */
+export const characterClassBits = (
+  password: string,
+  characterClassName: CharacterClass
+): number => {
+  const clusters = graphemes(password);
+  return (
+    (clusters.length + 1) * log2(poolOf(clusters, characterClassName)) -
+    clusters.length * log2(poolOf(clusters))
+  );
+};
+
+const findRepeats = (clusters: string[], pool: number): EntropyPattern[] => {
+  const offsets = clusterOffsets(clusters);
+  const patterns: EntropyPattern[] = [];
+  let start = 0;
+  for (let index = 1; index <= clusters.length; index += 1) {
+    if (index < clusters.length && clusters[index] === clusters[start]) {
+      continue;
+    }
+    if (index - start >= MIN_RUN_LENGTH) {
+      patterns.push({
+        kind: "repeat",
+        start: offsets[start],
+        end: offsets[index],
+        token: clusters.slice(start, index).join(""),
+        bits: log2(pool) + log2(index - start),
+      });
+    }
+    start = index;
+  }
+  return patterns;
+};
+
+/** Alphabet a sequence is drawn from; sequences never mix letters and digits. */
+const alphabetOf = (sequence: string) => (/\p{L}/u.test(sequence) ? 26 : 10);
+
+/** Prices each match at the bits `bitsFor` charges for its token. */
+const priced = (
+  matches: PatternMatch[],
+  bitsFor: (token: string) => number
+): EntropyPattern[] =>
+  matches.map(({ kind, start, end, token }) => ({
+    kind,
+    start,
+    end,
+    token,
+    bits: bitsFor(token),
+  }));
+
+// From the shortest block repeated once, e.g. "abab".
+const findBlocks = (password: string, pool: number): EntropyPattern[] =>
+  priced(findRepeatedBlocks(password, 4), (token) => {
+    const [, block] = /^(.{2,}?)\1+$/u.exec(token) ?? [token, token];
+    return (
+      graphemeLength(block) * log2(pool) + log2(token.length / block.length)
+    );
+  });
+
+const findSequencePatterns = (password: string): EntropyPattern[] =>
+  priced(
+    findSequences(password, MIN_RUN_LENGTH),
+    (token) => log2(alphabetOf(token)) + log2(graphemeLength(token)) + 1
+  );
+
+const findKeyboardPatterns = (password: string): EntropyPattern[] =>
+  priced(
+    findKeyboardWalks(password, MIN_RUN_LENGTH),
+    (token) => log2(KEYBOARD_KEYS) + log2(token.length) + 1
+  );
+
+// ~200 plausible years, times 365 days for a full date.
+const findDatePatterns = (password: string): EntropyPattern[] =>
+  priced(
+    findDates(password),
+    (token) => log2(200) + (token.length > 4 ? log2(365) : 0)
+  );
+
+/**
+ * Picks the cheapest non-overlapping cover of the password, one cluster at
+ * a time. Clusters not covered by any pattern are charged as brute-force
+ * characters; a pattern that starts or ends inside a cluster is ignored.
+ * Offsets stay in code units, like those of the pattern finders.
+ */
+const cheapestCover = (
+  clusters: string[],
+  candidates: EntropyPattern[],
+  pool: number
+): EntropyPattern[] => {
+  const charBits = log2(pool);
+  const offsets = clusterOffsets(clusters);
+  const clusterAt = new Map(offsets.map((offset, index) => [offset, index]));
+  const best: { bits: number; patterns: EntropyPattern[] }[] = [
+    { bits: 0, patterns: [] },
+  ];
+  for (let end = 1; end <= clusters.length; end += 1) {
+    const previous = best[end - 1];
+    const bruteforce: EntropyPattern = {
+      kind: "bruteforce",
+      start: offsets[end - 1],
+      end: offsets[end],
+      token: clusters[end - 1],
+      bits: charBits,
+    };
+    best[end] = {
+      bits: previous.bits + charBits,
+      patterns: [...previous.patterns, bruteforce],
+    };
+    candidates
+      .filter((pattern) => pattern.end === offsets[end])
+      .forEach((pattern) => {
+        const start = clusterAt.get(pattern.start);
+        if (start === undefined) return;
+        const bits = best[start].bits + pattern.bits;
+        if (bits < best[end].bits) {
+          best[end] = { bits, patterns: [...best[start].patterns, pattern] };
+        }
+      });
+  }
+  return best[clusters.length].patterns;
+};
+
+const mergeBruteforce = (patterns: EntropyPattern[]): EntropyPattern[] =>
+  patterns.reduce<EntropyPattern[]>((merged, pattern) => {
+    const last = merged[merged.length - 1];
+    if (last && last.kind === "bruteforce" && pattern.kind === "bruteforce") {
+      merged[merged.length - 1] = {
+        ...last,
+        end: pattern.end,
+        token: last.token + pattern.token,
+        bits: last.bits + pattern.bits,
+      };
+    } else {
+      merged.push(pattern);
+    }
+    return merged;
+  }, []);
+
+export const formatCrackTime = (
+  seconds: number,
+  { t }: Translator = DEFAULT_TRANSLATOR
+): string => {
+  if (seconds < 1) return t("crackTime.instant");
+  const bucket = SECONDS.find(({ limit }) => seconds < limit);
+  if (!bucket) return t("crackTime.centuries");
+  const count = Math.round(seconds / bucket.size);
+  return t(`crackTime.${bucket.unit}`, { count });
+};
+
+export const estimateEntropy = (password: string): EntropyEstimate => {
+  const clusters = graphemes(password);
+  const pool = characterPoolSize(password);
+  const candidates = [
+    ...findRepeats(clusters, pool),
+    ...findBlocks(password, pool),
+    ...findSequencePatterns(password),
+    ...findKeyboardPatterns(password),
+    ...findDatePatterns(password),
+  ];
+  const patterns = mergeBruteforce(cheapestCover(clusters, candidates, pool));
+  const entropyBits = patterns.reduce((sum, pattern) => sum + pattern.bits, 0);
+  const guesses = Math.pow(2, entropyBits);
+  // On average an attacker finds the password after searching half the space.
+  const crackTimeSeconds = guesses / 2 / GUESSES_PER_SECOND;
+
+  return {
+    entropyBits,
+    guesses,
+    crackTimeSeconds,
+    crackTimeDisplay: formatCrackTime(crackTimeSeconds),
+    patterns,
+  };
+};
@@ -0,0 +1,294 @@
+// evaluatePassword.ts
+//
+// Framework-free password scoring. Nothing in here may import React or
+// react-native: the same module is used by the validator component, form
+// adapters and non-UI callers.
+import {
+  EvaluationContext,
+  PasswordPolicy,
+  PasswordRule,
+  PasswordStrength,
+  PolicySource,
+  RuleContext,
+  RuleMatches,
+  RuleOutcome,
+  RuleStatuses,
+  StrengthCriteria,
+} from "../../types/Types";
+import { DEFAULT_DICTIONARIES } from "./dictionary";
+import { estimateEntropy, formatCrackTime } from "./entropy";
+import { buildFeedback, RuleResult } from "./feedback";
+import { DEFAULT_TRANSLATOR } from "./i18n";
+import { getPolicyPreset } from "./presets";
+import { BUILT_IN_RULES, mergeMatches, toOutcome } from "./rules";
+import { DEFAULT_TIERS, ENTROPY_SCALE_BITS, tierFor } from "./tiers";
+import { normalizePassword } from "./unicode";
+
+export const DEFAULT_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSpecialChars: true,
+  preventRepeatedChars: true,
+  preventCommonPatterns: true,
+  preventSequences: true,
+  preventKeyboardWalks: true,
+  preventRepeatedBlocks: true,
+  preventDates: true,
+  estimator: "rules",
+  normalization: "NFKC",
+  dictionaries: DEFAULT_DICTIONARIES,
+  rules: BUILT_IN_RULES,
+  tiers: DEFAULT_TIERS,
+  entropyScaleBits: ENTROPY_SCALE_BITS,
+  messages: {},
+};
+
+/** Every field a policy source can set. */
+export const POLICY_FIELDS = Object.keys(DEFAULT_POLICY) as (keyof Omit<
+  PasswordPolicy,
+  "preset"
+>)[];
+
+/**
+ * Merges policy sources over the defaults, later sources winning. Preset
+ * names expand to the preset's fields; `undefined` fields are ignored so
+ * unset props never override a preset.
+ */
+export const resolvePolicy = (
+  ...sources: (PolicySource | undefined)[]
+): PasswordPolicy => {
+  const resolved: PasswordPolicy = { ...DEFAULT_POLICY };
+  const assignDefined = (fields: Partial<PasswordPolicy>) =>
+    (Object.keys(fields) as (keyof PasswordPolicy)[]).forEach((key) => {
+      if (fields[key] !== undefined) {
+        (resolved as unknown as Record<string, unknown>)[key] = fields[key];
+      }
+    });
+
+  sources.forEach((source) => {
+    if (source === undefined) return;
+    if (typeof source === "string") {
+      const preset = getPolicyPreset(source);
+      assignDefined(preset.policy);
+      resolved.preset = { id: preset.id, version: preset.version };
+    } else {
+      assignDefined(source);
+    }
+  });
+  return resolved;
+};
+
+const applicableRules = (context: RuleContext) =>
+  context.policy.rules.filter((rule) => !rule.applies || rule.applies(context));
+
+const maxScoreOf = (rules: PasswordRule[]) =>
+  rules.reduce((sum, rule) => sum + rule.weight, 0);
+
+const statusOf = (
+  rules: PasswordRule[],
+  criteria: StrengthCriteria
+): RuleStatuses => {
+  const status: RuleStatuses = {};
+  rules.forEach(({ id }) => {
+    const met = criteria[id];
+    status[id] =
+      met === undefined ? "notApplicable" : met ? "passed" : "failed";
+  });
+  return status;
+};
+
+export const emptyStrength = (
+  policy: PolicySource = {},
+  context: EvaluationContext = {}
+): PasswordStrength => {
+  const resolved = resolvePolicy(policy);
+  const rules = applicableRules({
+    ...context,
+    policy: resolved,
+    translator: context.translator ?? DEFAULT_TRANSLATOR,
+  });
+  const criteria: StrengthCriteria = {};
+  rules.forEach((rule) => {
+    criteria[rule.id] = false;
+  });
+  const tier = resolved.tiers[0];
+  return {
+    level: tier.id,
+    tier,
+    score: 0,
+    maxScore: maxScoreOf(rules),
+    criteria,
+    status: statusOf(resolved.rules, criteria),
+    suggestions: [],
+  };
+};
+
+/** A strength that is available now, and the one asynchronous rules settle on. */
+export interface Evaluation {
+  strength: PasswordStrength;
+  settle: () => Promise<PasswordStrength>;
+}
+
+const isThenable = (
+  value: boolean | RuleOutcome | PromiseLike<boolean | RuleOutcome>
+): value is PromiseLike<boolean | RuleOutcome> =>
+  typeof (value as PromiseLike<unknown>).then === "function";
+
+const score = (
+  password: string,
+  context: RuleContext,
+  results: RuleResult[],
+  pending: RuleResult[] = []
+): PasswordStrength => {
+  // Rules still running count as failed, but are not worth a suggestion yet.
+  const all = [...results, ...pending];
+  const marker = pending.length > 0 ? { pending: true } : {};
+
+  const criteria: StrengthCriteria = {};
+  let matches: RuleMatches = {};
+  let points = 0;
+  let mandatoryFailed = false;
+
+  all.forEach(({ rule, outcome }) => {
+    criteria[rule.id] = outcome.passed;
+    matches = mergeMatches(matches, outcome.matches);
+    if (outcome.passed) points += rule.weight;
+    else if (rule.mandatory) mandatoryFailed = true;
+  });
+
+  const maxScore = maxScoreOf(all.map(({ rule }) => rule));
+  const { estimator, tiers, entropyScaleBits } = context.policy;
+  const entropy =
+    estimator === "entropy" ? estimateEntropy(password) : undefined;
+  const ratio = entropy
+    ? Math.min(entropy.entropyBits / entropyScaleBits, 1)
+    : maxScore > 0
+    ? points / maxScore
+    : 0;
+  const tier = mandatoryFailed ? tiers[0] : tierFor(ratio, tiers);
+
+  const strength: PasswordStrength = {
+    level: tier.id,
+    tier,
+    score: points,
+    maxScore,
+    criteria,
+    status: statusOf(context.policy.rules, criteria),
+    ...matches,
+    ...(entropy && {
+      entropyBits: entropy.entropyBits,
+      crackTimeSeconds: entropy.crackTimeSeconds,
+      crackTimeDisplay: formatCrackTime(
+        entropy.crackTimeSeconds,
+        context.translator
+      ),
+    }),
+    suggestions: [],
+  };
+  return {
+    ...strength,
+    ...buildFeedback(password, strength, ratio, results, context),
+    ...marker,
+  };
+};
+
+/**
+ * Runs every rule once on the password in the policy's `normalization`
+ * form. Synchronous rules are scored straight away; rules returning a
+ * promise leave the strength `pending` until `settle` resolves. A rejected
+ * check counts as failed.
+ */
+export const startEvaluation = (
+  input: string,
+  policy: PolicySource = {},
+  context: EvaluationContext = {}
+): Evaluation => {
+  if (input.length === 0) {
+    const strength = emptyStrength(policy, context);
+    return { strength, settle: () => Promise.resolve(strength) };
+  }
+
+  const resolved = resolvePolicy(policy);
+  const password = normalizePassword(input, resolved.normalization);
+  const ruleContext: RuleContext = {
+    ...context,
+    policy: resolved,
+    translator: context.translator ?? DEFAULT_TRANSLATOR,
+  };
+  const results: RuleResult[] = [];
+  const running: { rule: PasswordRule; outcome: Promise<RuleOutcome> }[] = [];
+
+  applicableRules(ruleContext).forEach((rule) => {
+    const result = rule.test(password, ruleContext);
+    if (isThenable(result)) {
+      running.push({
+        rule,
+        outcome: Promise.resolve(result).then(toOutcome, () => ({
+          passed: false,
+        })),
+      });
+    } else {
+      results.push({ rule, outcome: toOutcome(result) });
+    }
+  });
+
+  const strength = score(
+    password,
+    ruleContext,
+    results,
+    running.map(({ rule }) => ({ rule, outcome: { passed: false } }))
+  );
+  if (running.length === 0) {
+    return { strength, settle: () => Promise.resolve(strength) };
+  }
+
+  let settled: Promise<PasswordStrength> | undefined;
+  return {
+    strength,
+    settle: () =>
+      (settled ??= Promise.all(
+        running.map(async ({ rule, outcome }) => ({
+          rule,
+          outcome: await outcome,
+        }))
+      ).then((finished) =>
+        score(password, ruleContext, [...results, ...finished])
+      )),
+  };
+};
+
+/**
+ * Scores the password synchronously. Asynchronous rules have not finished
+ * yet, so they count as failed and the result is marked `pending`.
+ */
+export const evaluatePassword = (
+  password: string,
+  policy: PolicySource = {},
+  context: EvaluationContext = {}
+): PasswordStrength => startEvaluation(password, policy, context).strength;
+
+/** Scores the password once every rule, asynchronous ones included, has finished. */
+export const evaluatePasswordAsync = (
+  password: string,
+  policy: PolicySource = {},
+  context: EvaluationContext = {}
+): Promise<PasswordStrength> =>
+  startEvaluation(password, policy, context).settle();
+
+/**
+ * Portion of the strength bar to fill, from 0 to 1: the share of the
+ * maximum score, or of the policy's entropy scale for entropy results.
+ * Tier thresholds are expressed on the same scale.
+ */
+export const strengthRatio = (
+  strength: PasswordStrength,
+  policy: PolicySource = {}
+): number => {
+  if (strength.entropyBits !== undefined) {
+    const { entropyScaleBits } = resolvePolicy(policy);
+    return Math.min(strength.entropyBits / entropyScaleBits, 1);
+  }
+  return strength.maxScore > 0 ? strength.score / strength.maxScore : 0;
+};
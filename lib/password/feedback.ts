@@ -0,0 +1,231 @@
+// feedback.ts
+//
+// Turns an evaluation into something the user can act on: one primary
+// warning naming the biggest weakness, and suggestions ordered by how much
+// following each would raise the strength bar.
+import { characterClassBits, characterPoolSize } from "./entropy";
+import { DEFAULT_TRANSLATOR } from "./i18n";
+import { mergeMatches, ruleLabel } from "./rules";
+import { CharacterClass, graphemeLength } from "./unicode";
+import { tierFor, tierLabel } from "./tiers";
+import {
+  CriteriaKeys,
+  PasswordPolicy,
+  PasswordRule,
+  PasswordStrength,
+  PatternMatch,
+  RuleContext,
+  RuleMatches,
+  RuleOutcome,
+  StrengthSuggestion,
+  Translator,
+} from "../../types/Types";
+
+export interface RuleResult {
+  rule: PasswordRule;
+  outcome: RuleOutcome;
+}
+
+const log2 = (value: number) => Math.log(value) / Math.LN2;
+
+/** Class of character each composition rule asks for. */
+const RULE_CLASSES: { [key in CriteriaKeys]?: CharacterClass } = {
+  uppercase: "uppercase",
+  lowercase: "lowercase",
+  numbers: "digit",
+  specialChars: "symbol",
+};
+
+/**
+ * The single most important problem among the findings of failed rules: a
+ * reused password, a dictionary hit, then personal information, then the
+ * longest guessable pattern.
+ */
+export const primaryWarning = (
+  {
+    dictionaryMatch,
+    personalInfoMatch,
+    patternMatches = [],
+    reuseMatch,
+  }: RuleMatches,
+  { t }: Translator = DEFAULT_TRANSLATOR
+): string | undefined => {
+  if (reuseMatch) {
+    return t(`warnings.reuse.${reuseMatch.source}`, {
+      exact: reuseMatch.exact,
+    });
+  }
+  if (dictionaryMatch) {
+    return dictionaryMatch.word
+      ? t("warnings.commonPassword", { word: dictionaryMatch.word })
+      : t("warnings.dictionary", {
+          list: t(
+            `dictionaries.${dictionaryMatch.dictionary}`,
+            {},
+            dictionaryMatch.label
+          ),
+        });
+  }
+  if (personalInfoMatch) {
+    return t("warnings.personalInfo", {
+      field: t(`personalInfo.${personalInfoMatch.field}`),
+    });
+  }
+  const pattern = patternMatches.reduce<PatternMatch | undefined>(
+    (longest, candidate) =>
+      !longest || candidate.token.length > longest.token.length
+        ? candidate
+        : longest,
+    undefined
+  );
+  return pattern && t(`warnings.${pattern.kind}`, { token: pattern.token });
+};
+
+const suggestionText = (
+  rule: PasswordRule,
+  password: string,
+  context: RuleContext,
+  matches: RuleMatches
+) => {
+  if (typeof rule.suggestion === "function") {
+    return rule.suggestion(password, context, matches);
+  }
+  if (rule.suggestion !== undefined) {
+    return context.translator.t(
+      `rules.${rule.id}.suggestion`,
+      {},
+      rule.suggestion
+    );
+  }
+  return ruleLabel(rule, context.policy, context.translator);
+};
+
+/**
+ * With the entropy estimator, how many characters of the password's own
+ * kind it takes to reach the next tier.
+ */
+const entropySuggestion = (
+  password: string,
+  strength: PasswordStrength,
+  ratio: number,
+  { policy, translator }: RuleContext
+): StrengthSuggestion | undefined => {
+  const next = policy.tiers.find((tier) => tier.threshold > ratio);
+  if (strength.entropyBits === undefined || !next) return undefined;
+
+  const missingBits = next.threshold * policy.entropyScaleBits;
+  const perCharacter = log2(characterPoolSize(password));
+  const missingLength = policy.minLength - graphemeLength(password);
+  // An empty password has a pool of one, so no number of characters of its
+  // own kind adds any bits; only the length requirement is left to go by.
+  const needed = Math.ceil((missingBits - strength.entropyBits) / perCharacter);
+  const count = Number.isFinite(needed)
+    ? Math.max(needed, missingLength, 1)
+    : missingLength;
+  if (count < 1) return undefined;
+  return {
+    id: "entropy",
+    message: translator.t("feedback.entropy", {
+      count,
+      tier: tierLabel(next, translator),
+    }),
+    gain: next.threshold - ratio,
+  };
+};
+
+/**
+ * With the entropy estimator, the share of the scale a rule's fix would add:
+ * the pool bits of the character class it asks for, or of one more
+ * character for the length rule. Other rules do not change the pool.
+ */
+const entropyGain = (
+  rule: PasswordRule,
+  password: string,
+  { entropyScaleBits }: PasswordPolicy
+): number => {
+  const characterClassName = RULE_CLASSES[rule.id];
+  if (characterClassName) {
+    return characterClassBits(password, characterClassName) / entropyScaleBits;
+  }
+  return rule.id === "length"
+    ? log2(characterPoolSize(password)) / entropyScaleBits
+    : 0;
+};
+
+/**
+ * Builds the warning and suggestions for an evaluated password. `ratio` is
+ * the current bar fill; rule suggestions name the tier they would unlock.
+ * Failing mandatory rules come first since they cap the tier, the rest are
+ * ordered by gain.
+ */
+export const buildFeedback = (
+  password: string,
+  strength: PasswordStrength,
+  ratio: number,
+  results: RuleResult[],
+  context: RuleContext
+): Pick<PasswordStrength, "warning" | "suggestions"> => {
+  const { policy, translator } = context;
+  const failed = results.filter(({ outcome }) => !outcome.passed);
+  const matches = failed.reduce<RuleMatches>(
+    (all, { outcome }) => mergeMatches(all, outcome.matches),
+    {}
+  );
+  const usesEntropy = strength.entropyBits !== undefined;
+  const currentIndex = policy.tiers.indexOf(strength.tier);
+
+  const hint = usesEntropy
+    ? entropySuggestion(password, strength, ratio, context)
+    : undefined;
+
+  const ruleSuggestions = failed
+    .filter(({ rule }) => !(hint && rule.id === "length"))
+    .map(({ rule }) => {
+      const otherMandatoryFails = failed.some(
+        (other) => other.rule !== rule && other.rule.mandatory
+      );
+      const scored = !usesEntropy && strength.maxScore > 0;
+      const gain = usesEntropy
+        ? entropyGain(rule, password, policy)
+        : scored
+        ? rule.weight / strength.maxScore
+        : 0;
+      const after = scored
+        ? (strength.score + rule.weight) / strength.maxScore
+        : ratio + gain;
+      const tier = otherMandatoryFails
+        ? policy.tiers[0]
+        : tierFor(after, policy.tiers);
+      const message = suggestionText(rule, password, context, matches);
+      return {
+        mandatory: Boolean(rule.mandatory),
+        suggestion: {
+          id: rule.id,
+          message:
+            policy.tiers.indexOf(tier) > currentIndex
+              ? translator.t("feedback.reachTier", {
+                  suggestion: message,
+                  tier: tierLabel(tier, translator),
+                })
+              : message,
+          gain,
+        },
+      };
+    });
+
+  const suggestions = [
+    ...ruleSuggestions,
+    ...(hint ? [{ mandatory: false, suggestion: hint }] : []),
+  ]
+    .sort(
+      (a, b) =>
+        Number(b.mandatory) - Number(a.mandatory) ||
+        b.suggestion.gain - a.suggestion.gain
+    )
+    .map(({ suggestion }) => suggestion);
+
+  return {
+    warning: primaryWarning(matches, translator),
+    suggestions,
+  };
+};
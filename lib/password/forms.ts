@@ -0,0 +1,146 @@
+// forms.ts
+//
+// Adapters that expose password strength through the validation contracts
+// of form libraries, without depending on them:
+//
+//   react-hook-form: <Controller rules={passwordRules(options)} … />
+//   Formik:          <Formik validate={passwordFormValidator(options)} … />
+//
+// Both pair with the validator's controlled mode (`value`/`onChangeText`).
+// Validation is asynchronous so that rules with remote checks (a breach
+// lookup, a server-side policy) are settled before a field counts as valid;
+// both libraries accept a promise from `validate`.
+import {
+  EvaluationContext,
+  PasswordFieldError,
+  PasswordFieldValidation,
+  PasswordMatchStatus,
+  PasswordPolicy,
+  PasswordStrength,
+  PolicySource,
+  StrengthLevel,
+} from "../../types/Types";
+import { matchStatus, meetsLevel } from "./confirm";
+import { evaluatePasswordAsync, resolvePolicy } from "./evaluatePassword";
+import { DEFAULT_TRANSLATOR } from "./i18n";
+
+export interface PasswordFieldOptions extends EvaluationContext {
+  policy?: PolicySource;
+  /** Lowest tier that counts as valid; defaults to the highest tier. */
+  requiredLevel?: StrengthLevel;
+}
+
+/**
+ * Errors for an already evaluated password, most important first. The
+ * strength error carries the top suggestion so the form shows something
+ * the user can act on.
+ */
+export const passwordFieldErrors = (
+  password: string,
+  strength: PasswordStrength,
+  policy: PasswordPolicy,
+  {
+    requiredLevel,
+    match,
+    translator = DEFAULT_TRANSLATOR,
+  }: Pick<PasswordFieldOptions, "requiredLevel" | "translator"> & {
+    match?: PasswordMatchStatus;
+  } = {}
+): PasswordFieldError[] => {
+  const { t } = translator;
+  const errors: PasswordFieldError[] = [];
+
+  if (password.length === 0) {
+    errors.push({ type: "required", message: t("form.required") });
+  } else if (!meetsLevel(strength, policy, requiredLevel)) {
+    errors.push({
+      type: "strength",
+      message: strength.suggestions[0]?.message ?? t("form.tooWeak"),
+    });
+  }
+  if (match !== undefined && match !== "match") {
+    errors.push({ type: "mismatch", message: t("validator.mismatch") });
+  }
+  return errors;
+};
+
+/**
+ * Evaluates a password (and optional confirmation) as a form field, waiting
+ * for the policy's asynchronous rules.
+ */
+export const validatePasswordField = async (
+  password: string,
+  { policy, requiredLevel, ...context }: PasswordFieldOptions = {},
+  confirmation?: string
+): Promise<PasswordFieldValidation> => {
+  const resolved = resolvePolicy(policy);
+  const strength = await evaluatePasswordAsync(password, resolved, context);
+  const errors = passwordFieldErrors(password, strength, resolved, {
+    requiredLevel,
+    translator: context.translator,
+    match:
+      confirmation === undefined
+        ? undefined
+        : matchStatus(password, confirmation),
+  });
+  return { isValid: errors.length === 0, errors, strength };
+};
+
+/**
+ * react-hook-form `rules` for the password field: `validate` returns `true`
+ * or the first error message.
+ */
+export const passwordRules = (options: PasswordFieldOptions = {}) => ({
+  validate: async (value: string | undefined): Promise<true | string> => {
+    const { errors } = await validatePasswordField(value ?? "", options);
+    return errors.length === 0 || errors[0].message;
+  },
+});
+
+/** react-hook-form `rules` for a confirmation field named after its password. */
+export const confirmPasswordRules = (
+  passwordField: string,
+  {
+    translator = DEFAULT_TRANSLATOR,
+  }: Pick<PasswordFieldOptions, "translator"> = {}
+) => ({
+  validate: (
+    value: string | undefined,
+    values: Record<string, unknown>
+  ): true | string =>
+    value === values[passwordField] || translator.t("validator.mismatch"),
+});
+
+/**
+ * Formik form-level `validate`: returns an errors object keyed by field,
+ * empty when the password is acceptable.
+ */
+export const passwordFormValidator =
+  ({
+    passwordField = "password",
+    confirmField,
+    ...options
+  }: PasswordFieldOptions & {
+    passwordField?: string;
+    confirmField?: string;
+  } = {}) =>
+  async (values: Record<string, unknown>): Promise<Record<string, string>> => {
+    const password = String(values[passwordField] ?? "");
+    const confirmation =
+      confirmField === undefined
+        ? undefined
+        : String(values[confirmField] ?? "");
+    const { errors } = await validatePasswordField(
+      password,
+      options,
+      confirmation
+    );
+
+    const formErrors: Record<string, string> = {};
+    errors.forEach(({ type, message }) => {
+      const field =
+        type === "mismatch" && confirmField ? confirmField : passwordField;
+      formErrors[field] ??= message;
+    });
+    return formErrors;
+  };
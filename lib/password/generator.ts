@@ -0,0 +1,208 @@
+// generator.ts
+//
+// Random passwords and diceware-style passphrases that satisfy a policy.
+// Candidates are drawn from a RandomSource and checked with evaluatePassword,
+// so anything the policy would reject (a repeat, a dictionary hit, a custom
+// rule) is simply drawn again. Asynchronous rules are skipped: they would
+// be started for every discarded candidate, so they are left to the
+// validator, which checks the suggestion once it is filled in.
+import {
+  EvaluationContext,
+  PasswordPolicy,
+  PolicySource,
+  RandomSource,
+} from "../../types/Types";
+import { meetsLevel } from "./confirm";
+import { PASSPHRASE_WORDS } from "./data/wordList";
+import { evaluatePassword, resolvePolicy } from "./evaluatePassword";
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const DIGITS = "0123456789";
+const SYMBOLS = "!#$%&*+-=?@^_~";
+const CHARACTER_CLASSES = [LOWERCASE, UPPERCASE, DIGITS, SYMBOLS];
+
+const MAX_ATTEMPTS = 100;
+
+export const DEFAULT_PASSWORD_LENGTH = 16;
+export const DEFAULT_PASSPHRASE_WORDS = 4;
+
+export interface GeneratorOptions extends EvaluationContext {
+  /** Defaults to the platform CSPRNG. */
+  random?: RandomSource;
+}
+
+export interface PasswordGeneratorOptions extends GeneratorOptions {
+  /** Raised to the policy's `minLength` when shorter. */
+  length?: number;
+}
+
+export interface PassphraseGeneratorOptions extends GeneratorOptions {
+  /** Minimum number of words; more are added to reach `minLength`. */
+  words?: number;
+  separator?: string;
+  wordList?: string[];
+}
+
+/**
+ * Draws from `crypto.getRandomValues`. Throws when the runtime has no Web
+ * Crypto, rather than falling back to `Math.random`.
+ */
+export const cryptoRandomSource: RandomSource = () => {
+  const { crypto } = globalThis as { crypto?: Crypto };
+  if (!crypto?.getRandomValues) {
+    throw new Error("No secure random source is available in this runtime");
+  }
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+};
+
+/**
+ * Deterministic source (mulberry32) for tests and previews. It is not
+ * cryptographically secure and must not be used for real passwords.
+ */
+export const seededRandomSource = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return (value ^ (value >>> 14)) >>> 0;
+  };
+};
+
+/** Uniform integer below `max`, rejecting draws that would bias the modulo. */
+export const randomInt = (random: RandomSource, max: number): number => {
+  const limit = 2 ** 32 - (2 ** 32 % max);
+  let value = random();
+  while (value >= limit) value = random();
+  return value % max;
+};
+
+const pick = <T>(random: RandomSource, items: ArrayLike<T>): T =>
+  items[randomInt(random, items.length)];
+
+const shuffle = <T>(random: RandomSource, items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const other = randomInt(random, index + 1);
+    [shuffled[index], shuffled[other]] = [shuffled[other], shuffled[index]];
+  }
+  return shuffled;
+};
+
+const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1);
+
+/**
+ * The policy with asynchronous rules counted as passed. They still receive
+ * an aborted signal, so a well-behaved remote check gives up at once, and
+ * their rejections are dropped.
+ */
+const skipAsyncRules = (policy: PasswordPolicy): PasswordPolicy => ({
+  ...policy,
+  rules: policy.rules.map((rule) => ({
+    ...rule,
+    test: (password, context) => {
+      const result = rule.test(password, context);
+      if (typeof result === "object" && "then" in result) {
+        result.then(undefined, () => undefined);
+        return true;
+      }
+      return result;
+    },
+  })),
+});
+
+/**
+ * Draws candidates until one passes every synchronous rule and reaches the
+ * policy's highest tier.
+ */
+const generate = (
+  draw: () => string,
+  policy: PolicySource,
+  context: EvaluationContext
+): string => {
+  const resolved = skipAsyncRules(resolvePolicy(policy));
+  const aborted = new AbortController();
+  aborted.abort();
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt += 1) {
+    const candidate = draw();
+    const strength = evaluatePassword(candidate, resolved, {
+      ...context,
+      signal: aborted.signal,
+    });
+    if (
+      Object.values(strength.criteria).every(Boolean) &&
+      meetsLevel(strength, resolved)
+    ) {
+      return candidate;
+    }
+  }
+  throw new Error(
+    `Could not generate a password that satisfies the policy in ${MAX_ATTEMPTS} attempts`
+  );
+};
+
+/**
+ * A random password with at least one lower-case letter, upper-case letter,
+ * digit and symbol, at least `minLength` characters long.
+ */
+export const generatePassword = (
+  policy: PolicySource = {},
+  {
+    length = DEFAULT_PASSWORD_LENGTH,
+    random = cryptoRandomSource,
+    ...context
+  }: PasswordGeneratorOptions = {}
+): string => {
+  const size = Math.max(
+    length,
+    resolvePolicy(policy).minLength,
+    CHARACTER_CLASSES.length
+  );
+  const all = CHARACTER_CLASSES.join("");
+
+  return generate(
+    () => {
+      const chars = CHARACTER_CLASSES.map((pool) => pick(random, pool));
+      while (chars.length < size) chars.push(pick(random, all));
+      return shuffle(random, chars).join("");
+    },
+    policy,
+    context
+  );
+};
+
+/**
+ * A passphrase of capitalised words joined by `separator`, with a digit
+ * after one of the words, e.g. `Otter-Lunar7-Quilt-Cedar`.
+ */
+export const generatePassphrase = (
+  policy: PolicySource = {},
+  {
+    words = DEFAULT_PASSPHRASE_WORDS,
+    separator = "-",
+    wordList = PASSPHRASE_WORDS,
+    random = cryptoRandomSource,
+    ...context
+  }: PassphraseGeneratorOptions = {}
+): string => {
+  const { minLength } = resolvePolicy(policy);
+
+  return generate(
+    () => {
+      const chosen: string[] = [];
+      while (
+        chosen.length < words ||
+        chosen.join(separator).length + 1 < minLength
+      ) {
+        chosen.push(capitalize(pick(random, wordList)));
+      }
+      const withDigit = randomInt(random, chosen.length);
+      chosen[withDigit] += pick(random, DIGITS);
+      return chosen.join(separator);
+    },
+    policy,
+    context
+  );
+};
@@ -0,0 +1,141 @@
+// history.ts
+//
+// A local store of the user's last few passwords as salted hashes, newest
+// first, to pass to the validator as `previousPasswords`. Each entry gets
+// its own random salt, so equal passwords do not produce equal entries.
+// Devices shared by several accounts keep one history per account.
+//
+// The entries are single SHA-256 passes, fast enough to check every
+// variant of the password on each keystroke, and so just as fast to guess
+// against. Keep them on the device, in SecureStore where available: never
+// sync, log or send them. A server verifying account passwords hashes them
+// with `iterations` instead.
+import { PasswordHash, RandomSource } from "../../types/Types";
+import { cryptoRandomSource } from "./generator";
+import { hashPassword } from "./reuse";
+
+export const DEFAULT_HISTORY_DEPTH = 5;
+
+const DEFAULT_STORAGE_KEY = "passwordHistory";
+
+/** 128 bits, drawn 32 at a time. */
+const SALT_WORDS = 4;
+
+/** The subset of AsyncStorage and SecureStore the history needs. */
+export interface PasswordHistoryStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+}
+
+export interface PasswordHistoryOptions {
+  /** How many passwords are remembered. Defaults to 5. */
+  depth?: number;
+  /** Defaults to memory, which forgets the history with the store. */
+  storage?: PasswordHistoryStorage;
+  key?: string;
+  /** Source of the salts. Defaults to the platform CSPRNG. */
+  random?: RandomSource;
+}
+
+/** The history of the account with the given email. */
+export type AccountPasswordHistories = (account: string) => PasswordHistory;
+
+export interface PasswordHistory {
+  /** The remembered hashes, newest first. */
+  entries: () => Promise<PasswordHash[]>;
+  /** Hashes and remembers a password, forgetting the oldest beyond the depth. */
+  add: (password: string) => Promise<PasswordHash[]>;
+  clear: () => Promise<void>;
+}
+
+export const memoryStorage = (): PasswordHistoryStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+/** A freshly salted hash, stretched with PBKDF2 when `iterations` is set. */
+export const createPasswordHash = (
+  password: string,
+  random: RandomSource = cryptoRandomSource,
+  iterations?: number
+): PasswordHash => {
+  const salt = Array.from({ length: SALT_WORDS }, () =>
+    (random() >>> 0).toString(16).padStart(8, "0")
+  ).join("");
+  return iterations === undefined
+    ? { salt, hash: hashPassword(password, salt) }
+    : { salt, hash: hashPassword(password, salt, iterations), iterations };
+};
+
+const isPasswordHash = (value: unknown): value is PasswordHash =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as PasswordHash).salt === "string" &&
+  typeof (value as PasswordHash).hash === "string" &&
+  ["undefined", "number"].includes(typeof (value as PasswordHash).iterations);
+
+/** Reads stored entries, dropping anything that is not a hash. */
+const parseEntries = (stored: string | null): PasswordHash[] => {
+  if (stored === null) return [];
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isPasswordHash) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const createPasswordHistory = ({
+  depth = DEFAULT_HISTORY_DEPTH,
+  storage = memoryStorage(),
+  key = DEFAULT_STORAGE_KEY,
+  random = cryptoRandomSource,
+}: PasswordHistoryOptions = {}): PasswordHistory => {
+  if (!Number.isInteger(depth) || depth < 1) {
+    throw new Error(
+      `Password history depth must be a positive integer, got ${depth}`
+    );
+  }
+
+  const entries = async () =>
+    parseEntries(await storage.getItem(key)).slice(0, depth);
+
+  return {
+    entries,
+    add: async (password) => {
+      const updated = [
+        createPasswordHash(password, random),
+        ...(await entries()),
+      ].slice(0, depth);
+      await storage.setItem(key, JSON.stringify(updated));
+      return updated;
+    },
+    clear: () => storage.setItem(key, JSON.stringify([])),
+  };
+};
+
+/**
+ * One history per account, stored under `<key>:<email>`, so that accounts
+ * sharing a device never check against each other's passwords. Emails are
+ * compared without case or surrounding spaces.
+ */
+export const createAccountPasswordHistories = ({
+  key = DEFAULT_STORAGE_KEY,
+  ...options
+}: PasswordHistoryOptions = {}): AccountPasswordHistories => {
+  const histories = new Map<string, PasswordHistory>();
+  return (account) => {
+    const id = account.trim().toLowerCase();
+    let history = histories.get(id);
+    if (!history) {
+      history = createPasswordHistory({ ...options, key: `${key}:${id}` });
+      histories.set(id, history);
+    }
+    return history;
+  };
+};
@@ -0,0 +1,188 @@
+// i18n.ts
+//
+// Message catalogs and a small ICU-style formatter. Templates support
+// `{name}` interpolation, `{count, plural, one {# item} other {# items}}`
+// (with `=N` exact matches) and `{flag, select, true {…} other {…}}`.
+// Apostrophes are plain text; there is no quoting syntax.
+import {
+  Locale,
+  MessageParams,
+  Messages,
+  PluralCategory,
+  Translator,
+} from "../../types/Types";
+import { ar } from "./locales/ar";
+import { de } from "./locales/de";
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import { he } from "./locales/he";
+
+export const LOCALES: Record<string, Locale> = { en, es, de, ar, he };
+
+type MessageNode =
+  | string
+  | { name: string }
+  | {
+      name: string;
+      type: "plural" | "select";
+      options: Record<string, MessageNode[]>;
+    };
+
+const parse = (
+  template: string,
+  start = 0,
+  nested = false
+): [MessageNode[], number] => {
+  const nodes: MessageNode[] = [];
+  let text = "";
+  let index = start;
+
+  const readUntil = (stops: string) => {
+    let value = "";
+    while (index < template.length && !stops.includes(template[index])) {
+      value += template[index];
+      index += 1;
+    }
+    return value.trim();
+  };
+
+  while (index < template.length) {
+    const char = template[index];
+    if (char === "}" && nested) break;
+    if (char !== "{") {
+      text += char;
+      index += 1;
+      continue;
+    }
+    if (text) nodes.push(text);
+    text = "";
+    index += 1;
+
+    const name = readUntil(",}");
+    if (index >= template.length) {
+      throw new Error(`Unclosed message argument "${name}"`);
+    }
+    if (template[index] === "}") {
+      nodes.push({ name });
+      index += 1;
+      continue;
+    }
+    index += 1;
+    const type = readUntil(",}");
+    if (type !== "plural" && type !== "select") {
+      throw new Error(`Unsupported message argument type "${type}"`);
+    }
+    index += 1;
+
+    const options: Record<string, MessageNode[]> = {};
+    for (;;) {
+      const selector = readUntil("{}");
+      if (template[index] !== "{") break;
+      const [children, end] = parse(template, index + 1, true);
+      options[selector] = children;
+      index = end + 1;
+    }
+    if (template[index] !== "}") {
+      throw new Error(`Unclosed message argument "${name}"`);
+    }
+    nodes.push({ name, type, options });
+    index += 1;
+  }
+
+  if (nested && index >= template.length) {
+    throw new Error("Unclosed message option");
+  }
+  if (text) nodes.push(text);
+  return [nodes, index];
+};
+
+/** Whether `formatMessage` can format the template. */
+export const isValidMessageTemplate = (template: string): boolean => {
+  try {
+    parse(template);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const cache = new Map<string, MessageNode[]>();
+
+const render = (
+  nodes: MessageNode[],
+  params: MessageParams,
+  pluralCategory: (count: number) => PluralCategory,
+  count?: string
+): string =>
+  nodes
+    .map((node) => {
+      if (typeof node === "string") {
+        return count === undefined ? node : node.replace(/#/g, count);
+      }
+      const value = params[node.name];
+      if (!("type" in node)) {
+        return value === undefined ? `{${node.name}}` : String(value);
+      }
+      if (node.type === "select") {
+        const option = node.options[String(value)] ?? node.options.other;
+        return render(option ?? [], params, pluralCategory, count);
+      }
+      const number = Number(value);
+      const option =
+        node.options[`=${number}`] ??
+        node.options[pluralCategory(number)] ??
+        node.options.other;
+      return render(option ?? [], params, pluralCategory, String(number));
+    })
+    .join("");
+
+/** Formats a template with the plural rules of the given locale. */
+export const formatMessage = (
+  template: string,
+  params: MessageParams = {},
+  locale: Locale = en
+): string => {
+  let nodes = cache.get(template);
+  if (!nodes) {
+    [nodes] = parse(template);
+    cache.set(template, nodes);
+  }
+  return render(nodes, params, locale.pluralCategory);
+};
+
+/**
+ * Finds a locale by code, falling back from `es-MX` to `es` and then to
+ * English.
+ */
+export const resolveLocale = (locale: string | Locale = "en"): Locale => {
+  if (typeof locale !== "string") return locale;
+  return LOCALES[locale] ?? LOCALES[locale.split("-")[0]] ?? en;
+};
+
+/**
+ * Looks messages up in the overrides, then the locale, then English, then
+ * the caller's fallback text.
+ */
+export const createTranslator = (
+  locale?: string | Locale,
+  overrides: Messages = {}
+): Translator => {
+  const resolved = resolveLocale(locale);
+  const format = (template: string, params?: MessageParams) =>
+    formatMessage(template, params, resolved);
+  return {
+    locale: resolved,
+    format,
+    t: (key, params, fallback) =>
+      format(
+        overrides[key] ??
+          resolved.messages[key] ??
+          en.messages[key] ??
+          fallback ??
+          key,
+        params
+      ),
+  };
+};
+
+export const DEFAULT_TRANSLATOR = createTranslator();
@@ -0,0 +1,169 @@
+// ar.ts
+import { Locale } from "../../../types/Types";
+
+const characters =
+  "{count, plural, one {حرفًا واحدًا إضافيًا} two {حرفين إضافيين} few {# أحرف إضافية} many {# حرفًا إضافيًا} other {# حرف إضافي}}";
+
+const unit = (
+  one: string,
+  two: string,
+  few: string,
+  many: string,
+  other: string
+) =>
+  `{count, plural, one {${one}} two {${two}} few {# ${few}} many {# ${many}} other {# ${other}}}`;
+
+export const ar: Locale = {
+  code: "ar",
+  direction: "rtl",
+  pluralCategory: (count) => {
+    if (!Number.isInteger(count)) return "other";
+    const mod100 = count % 100;
+    if (count === 0) return "zero";
+    if (count === 1) return "one";
+    if (count === 2) return "two";
+    if (mod100 >= 3 && mod100 <= 10) return "few";
+    if (mod100 >= 11 && mod100 <= 99) return "many";
+    return "other";
+  },
+  messages: {
+    "validator.title": "كلمة المرور",
+    "validator.placeholder": "أدخل كلمة المرور",
+    "validator.strength": "القوة: {tier}",
+    "validator.empty": "يرجى إدخال كلمة مرور",
+    "validator.crackTime": "الوقت المقدّر لكسرها: {time}",
+    "validator.checking": "جارٍ التحقق…",
+    "validator.confirmPlaceholder": "تأكيد كلمة المرور",
+    "validator.match": "كلمتا المرور متطابقتان",
+    "validator.mismatch": "كلمتا المرور غير متطابقتين",
+    "validator.suggest": "اقتراح كلمة مرور قوية",
+    "validator.suggestFailed": "تعذّر اقتراح كلمة مرور لهذه السياسة",
+
+    "form.required": "أدخل كلمة مرور",
+    "form.tooWeak": "اختر كلمة مرور أقوى",
+
+    "auth.email": "البريد الإلكتروني",
+    "auth.currentPassword": "كلمة المرور الحالية",
+    "auth.signUp.title": "إنشاء حساب",
+    "auth.signUp.submit": "تسجيل",
+    "auth.changePassword.title": "تغيير كلمة المرور",
+    "auth.changePassword.submit": "تغيير كلمة المرور",
+    "auth.forgotPassword.title": "نسيت كلمة المرور",
+    "auth.forgotPassword.description":
+      "أدخل البريد الإلكتروني لحسابك وسنرسل إليك رابطًا لاختيار كلمة مرور جديدة.",
+    "auth.forgotPassword.submit": "إرسال رابط إعادة التعيين",
+    "auth.forgotPassword.sent": "تحقق من بريدك الإلكتروني",
+    "auth.forgotPassword.sentHelp":
+      "إذا كان {email} مرتبطًا بحساب، فقد أُرسل رابط لإعادة تعيين كلمة المرور.",
+    "auth.resetPassword.title": "إعادة تعيين كلمة المرور",
+    "auth.resetPassword.description": "اختر كلمة مرور جديدة لحسابك.",
+    "auth.resetPassword.submit": "إعادة تعيين كلمة المرور",
+    "auth.resetPassword.invalidLink": "رابط إعادة التعيين هذا غير صالح",
+    "auth.resetPassword.invalidLinkHelp":
+      "افتح الرابط من رسالة إعادة التعيين مرة أخرى، أو اطلب رابطًا جديدًا.",
+    "auth.resetPassword.requestNewLink": "اطلب رابطًا جديدًا",
+    "auth.screens.signUp": "تسجيل",
+    "auth.screens.changePassword": "تغيير كلمة المرور",
+    "auth.screens.forgotPassword": "نسيت كلمة المرور",
+    "auth.screens.resetPassword": "إعادة تعيين كلمة المرور",
+    "auth.errors.invalidEmail": "أدخل بريدًا إلكترونيًا صالحًا",
+    "auth.errors.emailTaken": "يوجد حساب بهذا البريد الإلكتروني بالفعل",
+    "auth.errors.notSignedIn": "سجّل الدخول لتغيير كلمة المرور",
+    "auth.errors.wrongPassword": "كلمة المرور الحالية غير صحيحة",
+    "auth.errors.invalidToken":
+      "رابط إعادة التعيين هذا غير صالح أو منتهي الصلاحية",
+    "auth.errors.passwordRejected": "اختر كلمة مرور تستوفي جميع المتطلبات",
+
+    "a11y.strengthMeter": "قوة كلمة المرور",
+    "a11y.showPassword": "إظهار كلمة المرور",
+    "a11y.criterionMet": "مستوفى: {label}",
+    "a11y.criterionUnmet": "غير مستوفى: {label}",
+    "a11y.strengthChanged": "قوة كلمة المرور الآن: {tier}",
+
+    "tiers.Weak": "ضعيفة",
+    "tiers.Medium": "متوسطة",
+    "tiers.Strong": "قوية",
+
+    "rules.length.label": "الحد الأدنى للطول ({minLength})",
+    "rules.uppercase.label": "تحتوي على أحرف كبيرة",
+    "rules.lowercase.label": "تحتوي على أحرف صغيرة",
+    "rules.numbers.label": "تحتوي على أرقام",
+    "rules.specialChars.label": "تحتوي على رموز خاصة",
+    "rules.noRepeatedChars.label": "لا أحرف مكررة",
+    "rules.noCommonPatterns.label": "لا أنماط شائعة",
+    "rules.noSequences.label": "لا تسلسلات مثل abcd أو 4321",
+    "rules.noKeyboardWalks.label": "لا أنماط لوحة مفاتيح مثل qwerty",
+    "rules.noRepeatedBlocks.label": "لا مقاطع مكررة مثل abcabc",
+    "rules.noDates.label": "لا تواريخ أو سنوات",
+    "rules.noPersonalInfo.label": "لا معلومات شخصية",
+    "rules.noPasswordReuse.label": "ليست كلمة مرور سابقة",
+
+    "rules.length.suggestion": `أضف ${characters}`,
+    "rules.uppercase.suggestion": "أضف حرفًا كبيرًا",
+    "rules.lowercase.suggestion": "أضف حرفًا صغيرًا",
+    "rules.numbers.suggestion": "أضف رقمًا",
+    "rules.specialChars.suggestion": "أضف رمزًا خاصًا مثل ! أو #",
+    "rules.noRepeatedChars.suggestion": "تجنّب تكرار الأحرف مثل «{repeat}»",
+    "rules.noCommonPatterns.suggestion": "تجنّب الكلمات وكلمات المرور الشائعة",
+    "rules.noSequences.suggestion": "اكسر التسلسل «{token}»",
+    "rules.noKeyboardWalks.suggestion": "اكسر نمط لوحة المفاتيح «{token}»",
+    "rules.noRepeatedBlocks.suggestion": "تجنّب تكرار المقاطع مثل «{token}»",
+    "rules.noDates.suggestion": "احذف التاريخ «{token}»",
+    "rules.noPersonalInfo.suggestion": "تجنّب استخدام {field}",
+    "rules.noPasswordReuse.suggestion": "اختر كلمة مرور لم تستخدمها من قبل",
+
+    "feedback.reachTier": "{suggestion} للوصول إلى مستوى {tier}",
+    "feedback.entropy": `أضف ${characters} للوصول إلى مستوى {tier}`,
+
+    "warnings.commonPassword": "تجنّب كلمات المرور الشائعة مثل «{word}»",
+    "warnings.dictionary": "كلمة المرور هذه موجودة في قائمة {list}",
+    "warnings.personalInfo": "تجنّب استخدام {field}",
+    "warnings.reuse.current":
+      "{exact, select, true {هذه كلمة المرور الحالية} other {قريبة جدًا من كلمة المرور الحالية}}",
+    "warnings.reuse.history":
+      "{exact, select, true {لقد استخدمت كلمة المرور هذه من قبل} other {قريبة جدًا من كلمة مرور استخدمتها من قبل}}",
+    "warnings.sequence": "تجنّب التسلسلات مثل «{token}»",
+    "warnings.keyboard": "تجنّب أنماط لوحة المفاتيح مثل «{token}»",
+    "warnings.block": "تجنّب المقاطع المكررة مثل «{token}»",
+    "warnings.date": "تجنّب التواريخ مثل «{token}»",
+
+    "match.dictionary":
+      "موجودة في قائمة {list}{leetspeak, select, true { (بعد إلغاء استبدال الأحرف)} other {}}",
+    "match.dictionaryWord":
+      "«{word}» موجودة في قائمة {list}{leetspeak, select, true { (بعد إلغاء استبدال الأحرف)} other {}}",
+    "match.personalInfo":
+      "تشبه {field}{reversed, select, true { (معكوسًا)} other {}}",
+    "match.patterns": "الأجزاء المتوقعة:",
+
+    "dictionaries.common-passwords": "كلمات المرور الشائعة",
+    "dictionaries.breached-passwords": "كلمات المرور المسرّبة",
+
+    "personalInfo.any": "معلوماتك الشخصية",
+    "personalInfo.username": "اسم المستخدم الخاص بك",
+    "personalInfo.email": "بريدك الإلكتروني",
+    "personalInfo.displayName": "اسمك",
+    "personalInfo.birthDate": "تاريخ ميلادك",
+    "personalInfo.appName": "اسم التطبيق",
+
+    "crackTime.instant": "أقل من ثانية",
+    "crackTime.centuries": "قرون",
+    "crackTime.second": unit(
+      "ثانية واحدة",
+      "ثانيتان",
+      "ثوانٍ",
+      "ثانية",
+      "ثانية"
+    ),
+    "crackTime.minute": unit(
+      "دقيقة واحدة",
+      "دقيقتان",
+      "دقائق",
+      "دقيقة",
+      "دقيقة"
+    ),
+    "crackTime.hour": unit("ساعة واحدة", "ساعتان", "ساعات", "ساعة", "ساعة"),
+    "crackTime.day": unit("يوم واحد", "يومان", "أيام", "يومًا", "يوم"),
+    "crackTime.month": unit("شهر واحد", "شهران", "أشهر", "شهرًا", "شهر"),
+    "crackTime.year": unit("سنة واحدة", "سنتان", "سنوات", "سنة", "سنة"),
+  },
+};
@@ -0,0 +1,150 @@
+// de.ts
+import { Locale } from "../../../types/Types";
+
+const characters =
+  "{count, plural, one {# weiteres Zeichen} other {# weitere Zeichen}}";
+
+export const de: Locale = {
+  code: "de",
+  direction: "ltr",
+  pluralCategory: (count) => (count === 1 ? "one" : "other"),
+  messages: {
+    "validator.title": "Passwort",
+    "validator.placeholder": "Passwort eingeben",
+    "validator.strength": "Stärke: {tier}",
+    "validator.empty": "Bitte gib ein Passwort ein",
+    "validator.crackTime": "Geschätzte Zeit zum Knacken: {time}",
+    "validator.checking": "Wird geprüft…",
+    "validator.confirmPlaceholder": "Passwort bestätigen",
+    "validator.match": "Die Passwörter stimmen überein",
+    "validator.mismatch": "Die Passwörter stimmen nicht überein",
+    "validator.suggest": "Sicheres Passwort vorschlagen",
+    "validator.suggestFailed":
+      "Für diese Richtlinie konnte kein Passwort vorgeschlagen werden",
+
+    "form.required": "Gib ein Passwort ein",
+    "form.tooWeak": "Wähle ein stärkeres Passwort",
+
+    "auth.email": "E-Mail",
+    "auth.currentPassword": "Aktuelles Passwort",
+    "auth.signUp.title": "Konto erstellen",
+    "auth.signUp.submit": "Registrieren",
+    "auth.changePassword.title": "Passwort ändern",
+    "auth.changePassword.submit": "Passwort ändern",
+    "auth.forgotPassword.title": "Passwort vergessen",
+    "auth.forgotPassword.description":
+      "Gib die E-Mail-Adresse deines Kontos ein, dann schicken wir dir einen Link, um ein neues Passwort zu wählen.",
+    "auth.forgotPassword.submit": "Link senden",
+    "auth.forgotPassword.sent": "Sieh in deinem Postfach nach",
+    "auth.forgotPassword.sentHelp":
+      "Falls {email} zu einem Konto gehört, ist ein Link zum Zurücksetzen des Passworts unterwegs.",
+    "auth.resetPassword.title": "Passwort zurücksetzen",
+    "auth.resetPassword.description":
+      "Wähle ein neues Passwort für dein Konto.",
+    "auth.resetPassword.submit": "Passwort zurücksetzen",
+    "auth.resetPassword.invalidLink":
+      "Dieser Link zum Zurücksetzen ist ungültig",
+    "auth.resetPassword.invalidLinkHelp":
+      "Öffne den Link aus der E-Mail zum Zurücksetzen erneut oder fordere einen neuen an.",
+    "auth.resetPassword.requestNewLink": "Neuen Link anfordern",
+    "auth.screens.signUp": "Registrieren",
+    "auth.screens.changePassword": "Passwort ändern",
+    "auth.screens.forgotPassword": "Passwort vergessen",
+    "auth.screens.resetPassword": "Passwort zurücksetzen",
+    "auth.errors.invalidEmail": "Gib eine gültige E-Mail-Adresse ein",
+    "auth.errors.emailTaken":
+      "Es gibt bereits ein Konto mit dieser E-Mail-Adresse",
+    "auth.errors.notSignedIn": "Melde dich an, um dein Passwort zu ändern",
+    "auth.errors.wrongPassword": "Das aktuelle Passwort ist falsch",
+    "auth.errors.invalidToken":
+      "Dieser Link zum Zurücksetzen ist ungültig oder abgelaufen",
+    "auth.errors.passwordRejected":
+      "Wähle ein Passwort, das alle Anforderungen erfüllt",
+
+    "a11y.strengthMeter": "Passwortstärke",
+    "a11y.showPassword": "Passwort anzeigen",
+    "a11y.criterionMet": "Erfüllt: {label}",
+    "a11y.criterionUnmet": "Nicht erfüllt: {label}",
+    "a11y.strengthChanged": "Passwortstärke jetzt: {tier}",
+
+    "tiers.Weak": "Schwach",
+    "tiers.Medium": "Mittel",
+    "tiers.Strong": "Stark",
+
+    "rules.length.label": "Mindestlänge ({minLength})",
+    "rules.uppercase.label": "Enthält Großbuchstaben",
+    "rules.lowercase.label": "Enthält Kleinbuchstaben",
+    "rules.numbers.label": "Enthält Ziffern",
+    "rules.specialChars.label": "Enthält Sonderzeichen",
+    "rules.noRepeatedChars.label": "Keine wiederholten Zeichen",
+    "rules.noCommonPatterns.label": "Keine gängigen Muster",
+    "rules.noSequences.label": "Keine Folgen wie abcd oder 4321",
+    "rules.noKeyboardWalks.label": "Keine Tastaturmuster wie qwertz",
+    "rules.noRepeatedBlocks.label": "Keine wiederholten Blöcke wie abcabc",
+    "rules.noDates.label": "Keine Daten oder Jahreszahlen",
+    "rules.noPersonalInfo.label": "Keine persönlichen Daten",
+    "rules.noPasswordReuse.label": "Kein früheres Passwort",
+
+    "rules.length.suggestion": `Füge ${characters} hinzu`,
+    "rules.uppercase.suggestion": "Füge einen Großbuchstaben hinzu",
+    "rules.lowercase.suggestion": "Füge einen Kleinbuchstaben hinzu",
+    "rules.numbers.suggestion": "Füge eine Ziffer hinzu",
+    "rules.specialChars.suggestion":
+      "Füge ein Sonderzeichen wie ! oder # hinzu",
+    "rules.noRepeatedChars.suggestion":
+      "Vermeide wiederholte Zeichen wie „{repeat}“",
+    "rules.noCommonPatterns.suggestion":
+      "Vermeide gängige Wörter und Passwörter",
+    "rules.noSequences.suggestion": "Unterbrich die Folge „{token}“",
+    "rules.noKeyboardWalks.suggestion":
+      "Unterbrich das Tastaturmuster „{token}“",
+    "rules.noRepeatedBlocks.suggestion":
+      "Vermeide wiederholte Blöcke wie „{token}“",
+    "rules.noDates.suggestion": "Lass das Datum „{token}“ weg",
+    "rules.noPersonalInfo.suggestion": "Verwende nicht {field}",
+    "rules.noPasswordReuse.suggestion":
+      "Wähle ein Passwort, das du noch nicht verwendet hast",
+
+    "feedback.reachTier": "{suggestion}, um „{tier}“ zu erreichen",
+    "feedback.entropy": `Füge ${characters} hinzu, um „{tier}“ zu erreichen`,
+
+    "warnings.commonPassword": "Vermeide gängige Passwörter wie „{word}“",
+    "warnings.dictionary": "Dieses Passwort steht auf der Liste {list}",
+    "warnings.personalInfo": "Verwende nicht {field}",
+    "warnings.reuse.current":
+      "{exact, select, true {Das ist dein aktuelles Passwort} other {Zu ähnlich wie dein aktuelles Passwort}}",
+    "warnings.reuse.history":
+      "{exact, select, true {Dieses Passwort hast du schon verwendet} other {Zu ähnlich wie ein früheres Passwort}}",
+    "warnings.sequence": "Vermeide Folgen wie „{token}“",
+    "warnings.keyboard": "Vermeide Tastaturmuster wie „{token}“",
+    "warnings.block": "Vermeide wiederholte Blöcke wie „{token}“",
+    "warnings.date": "Vermeide Daten wie „{token}“",
+
+    "match.dictionary":
+      "Steht auf der Liste {list}{leetspeak, select, true { (nach Rückgängigmachen von Buchstabenersetzungen)} other {}}",
+    "match.dictionaryWord":
+      "„{word}“ steht auf der Liste {list}{leetspeak, select, true { (nach Rückgängigmachen von Buchstabenersetzungen)} other {}}",
+    "match.personalInfo":
+      "Erinnert an {field}{reversed, select, true { (rückwärts)} other {}}",
+    "match.patterns": "Vorhersehbare Teile:",
+
+    "dictionaries.common-passwords": "häufiger Passwörter",
+    "dictionaries.breached-passwords": "geleakter Passwörter",
+
+    "personalInfo.any": "deine persönlichen Daten",
+    "personalInfo.username": "deinen Benutzernamen",
+    "personalInfo.email": "deine E-Mail-Adresse",
+    "personalInfo.displayName": "deinen Namen",
+    "personalInfo.birthDate": "dein Geburtsdatum",
+    "personalInfo.appName": "den Namen der App",
+
+    "crackTime.instant": "weniger als eine Sekunde",
+    "crackTime.centuries": "Jahrhunderte",
+    "crackTime.second": "{count, plural, one {# Sekunde} other {# Sekunden}}",
+    "crackTime.minute": "{count, plural, one {# Minute} other {# Minuten}}",
+    "crackTime.hour": "{count, plural, one {# Stunde} other {# Stunden}}",
+    "crackTime.day": "{count, plural, one {# Tag} other {# Tage}}",
+    "crackTime.month": "{count, plural, one {# Monat} other {# Monate}}",
+    "crackTime.year": "{count, plural, one {# Jahr} other {# Jahre}}",
+  },
+};
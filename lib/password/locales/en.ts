@@ -0,0 +1,143 @@
+// en.ts
+//
+// English, the reference catalog: every key the validator and the auth
+// screens use is defined here, and other locales fall back to it key by key.
+import { Locale } from "../../../types/Types";
+
+const characters =
+  "{count, plural, one {# more character} other {# more characters}}";
+
+export const en: Locale = {
+  code: "en",
+  direction: "ltr",
+  pluralCategory: (count) => (count === 1 ? "one" : "other"),
+  messages: {
+    "validator.title": "Password",
+    "validator.placeholder": "Enter password",
+    "validator.strength": "Strength: {tier}",
+    "validator.empty": "Please enter a password",
+    "validator.crackTime": "Estimated time to crack: {time}",
+    "validator.checking": "Checking…",
+    "validator.confirmPlaceholder": "Confirm password",
+    "validator.match": "Passwords match",
+    "validator.mismatch": "Passwords do not match",
+    "validator.suggest": "Suggest a strong password",
+    "validator.suggestFailed": "No password could be suggested for this policy",
+
+    "form.required": "Enter a password",
+    "form.tooWeak": "Choose a stronger password",
+
+    "auth.email": "Email",
+    "auth.currentPassword": "Current password",
+    "auth.signUp.title": "Create account",
+    "auth.signUp.submit": "Sign up",
+    "auth.changePassword.title": "Change password",
+    "auth.changePassword.submit": "Change password",
+    "auth.forgotPassword.title": "Forgot password",
+    "auth.forgotPassword.description":
+      "Enter your account's email and we'll send you a link to choose a new password.",
+    "auth.forgotPassword.submit": "Send reset link",
+    "auth.forgotPassword.sent": "Check your email",
+    "auth.forgotPassword.sentHelp":
+      "If {email} belongs to an account, a link to reset its password is on its way.",
+    "auth.resetPassword.title": "Reset password",
+    "auth.resetPassword.description": "Choose a new password for your account.",
+    "auth.resetPassword.submit": "Reset password",
+    "auth.resetPassword.invalidLink": "This reset link is not valid",
+    "auth.resetPassword.invalidLinkHelp":
+      "Open the link from your reset email again, or ask for a new one.",
+    "auth.resetPassword.requestNewLink": "Ask for a new link",
+    "auth.screens.signUp": "Sign up",
+    "auth.screens.changePassword": "Change password",
+    "auth.screens.forgotPassword": "Forgot password",
+    "auth.screens.resetPassword": "Reset password",
+    "auth.errors.invalidEmail": "Enter a valid email address",
+    "auth.errors.emailTaken": "An account with this email already exists",
+    "auth.errors.notSignedIn": "Sign in to change your password",
+    "auth.errors.wrongPassword": "The current password is incorrect",
+    "auth.errors.invalidToken": "This reset link is invalid or has expired",
+    "auth.errors.passwordRejected":
+      "Choose a password that meets every requirement",
+
+    "a11y.strengthMeter": "Password strength",
+    "a11y.showPassword": "Show password",
+    "a11y.criterionMet": "Met: {label}",
+    "a11y.criterionUnmet": "Not met: {label}",
+    "a11y.strengthChanged": "Password strength is now {tier}",
+
+    "tiers.Weak": "Weak",
+    "tiers.Medium": "Medium",
+    "tiers.Strong": "Strong",
+
+    "rules.length.label": "Minimum length ({minLength})",
+    "rules.uppercase.label": "Contains uppercase",
+    "rules.lowercase.label": "Contains lowercase",
+    "rules.numbers.label": "Contains numbers",
+    "rules.specialChars.label": "Contains special characters",
+    "rules.noRepeatedChars.label": "No repeated characters",
+    "rules.noCommonPatterns.label": "No common patterns",
+    "rules.noSequences.label": "No sequences like abcd or 4321",
+    "rules.noKeyboardWalks.label": "No keyboard patterns like qwerty",
+    "rules.noRepeatedBlocks.label": "No repeated blocks like abcabc",
+    "rules.noDates.label": "No dates or years",
+    "rules.noPersonalInfo.label": "No personal information",
+    "rules.noPasswordReuse.label": "Not a previous password",
+
+    "rules.length.suggestion": `Add ${characters}`,
+    "rules.uppercase.suggestion": "Add an uppercase letter",
+    "rules.lowercase.suggestion": "Add a lowercase letter",
+    "rules.numbers.suggestion": "Add a number",
+    "rules.specialChars.suggestion": "Add a special character such as ! or #",
+    "rules.noRepeatedChars.suggestion":
+      "Avoid repeating characters like '{repeat}'",
+    "rules.noCommonPatterns.suggestion": "Avoid common words and passwords",
+    "rules.noSequences.suggestion": "Break up the sequence '{token}'",
+    "rules.noKeyboardWalks.suggestion":
+      "Break up the keyboard pattern '{token}'",
+    "rules.noRepeatedBlocks.suggestion":
+      "Avoid repeating blocks like '{token}'",
+    "rules.noDates.suggestion": "Leave out the date '{token}'",
+    "rules.noPersonalInfo.suggestion": "Avoid using {field}",
+    "rules.noPasswordReuse.suggestion":
+      "Choose a password you haven't used before",
+
+    "feedback.reachTier": "{suggestion} to reach {tier}",
+    "feedback.entropy": `Add ${characters} to reach {tier}`,
+
+    "warnings.commonPassword": "Avoid common passwords like '{word}'",
+    "warnings.dictionary": "This password is in the {list} list",
+    "warnings.personalInfo": "Avoid using {field}",
+    "warnings.reuse.current":
+      "{exact, select, true {This is your current password} other {Too close to your current password}}",
+    "warnings.reuse.history":
+      "{exact, select, true {You have used this password before} other {Too close to a password you have used before}}",
+    "warnings.sequence": "Avoid sequences like '{token}'",
+    "warnings.keyboard": "Avoid keyboard patterns like '{token}'",
+    "warnings.block": "Avoid repeated blocks like '{token}'",
+    "warnings.date": "Avoid dates like '{token}'",
+
+    "match.dictionary":
+      "Found in the {list} list{leetspeak, select, true { (after undoing letter substitutions)} other {}}",
+    "match.dictionaryWord":
+      '"{word}" is in the {list} list{leetspeak, select, true { (after undoing letter substitutions)} other {}}',
+    "match.personalInfo":
+      "Resembles {field}{reversed, select, true { (reversed)} other {}}",
+    "match.patterns": "Predictable parts:",
+
+    "personalInfo.any": "your personal information",
+    "personalInfo.username": "your username",
+    "personalInfo.email": "your email address",
+    "personalInfo.displayName": "your name",
+    "personalInfo.birthDate": "your birth date",
+    "personalInfo.appName": "the app's name",
+
+    "crackTime.instant": "less than a second",
+    "crackTime.centuries": "centuries",
+    "crackTime.second": "{count, plural, one {# second} other {# seconds}}",
+    "crackTime.minute": "{count, plural, one {# minute} other {# minutes}}",
+    "crackTime.hour": "{count, plural, one {# hour} other {# hours}}",
+    "crackTime.day": "{count, plural, one {# day} other {# days}}",
+    "crackTime.month": "{count, plural, one {# month} other {# months}}",
+    "crackTime.year": "{count, plural, one {# year} other {# years}}",
+  },
+};
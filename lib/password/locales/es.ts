@@ -0,0 +1,146 @@
+// es.ts
+import { Locale } from "../../../types/Types";
+
+const characters =
+  "{count, plural, one {# carácter más} other {# caracteres más}}";
+
+export const es: Locale = {
+  code: "es",
+  direction: "ltr",
+  pluralCategory: (count) => (count === 1 ? "one" : "other"),
+  messages: {
+    "validator.title": "Contraseña",
+    "validator.placeholder": "Introduce la contraseña",
+    "validator.strength": "Seguridad: {tier}",
+    "validator.empty": "Introduce una contraseña",
+    "validator.crackTime": "Tiempo estimado para descifrarla: {time}",
+    "validator.checking": "Comprobando…",
+    "validator.confirmPlaceholder": "Confirma la contraseña",
+    "validator.match": "Las contraseñas coinciden",
+    "validator.mismatch": "Las contraseñas no coinciden",
+    "validator.suggest": "Sugerir una contraseña segura",
+    "validator.suggestFailed":
+      "No se pudo sugerir una contraseña para esta política",
+
+    "form.required": "Introduce una contraseña",
+    "form.tooWeak": "Elige una contraseña más segura",
+
+    "auth.email": "Correo electrónico",
+    "auth.currentPassword": "Contraseña actual",
+    "auth.signUp.title": "Crear cuenta",
+    "auth.signUp.submit": "Registrarse",
+    "auth.changePassword.title": "Cambiar contraseña",
+    "auth.changePassword.submit": "Cambiar contraseña",
+    "auth.forgotPassword.title": "Contraseña olvidada",
+    "auth.forgotPassword.description":
+      "Introduce el correo electrónico de tu cuenta y te enviaremos un enlace para elegir una nueva contraseña.",
+    "auth.forgotPassword.submit": "Enviar enlace",
+    "auth.forgotPassword.sent": "Revisa tu correo",
+    "auth.forgotPassword.sentHelp":
+      "Si {email} pertenece a una cuenta, te hemos enviado un enlace para restablecer su contraseña.",
+    "auth.resetPassword.title": "Restablecer contraseña",
+    "auth.resetPassword.description":
+      "Elige una nueva contraseña para tu cuenta.",
+    "auth.resetPassword.submit": "Restablecer contraseña",
+    "auth.resetPassword.invalidLink":
+      "Este enlace de restablecimiento no es válido",
+    "auth.resetPassword.invalidLinkHelp":
+      "Vuelve a abrir el enlace del correo de restablecimiento o solicita uno nuevo.",
+    "auth.resetPassword.requestNewLink": "Solicitar un enlace nuevo",
+    "auth.screens.signUp": "Registrarse",
+    "auth.screens.changePassword": "Cambiar contraseña",
+    "auth.screens.forgotPassword": "Contraseña olvidada",
+    "auth.screens.resetPassword": "Restablecer contraseña",
+    "auth.errors.invalidEmail": "Introduce un correo electrónico válido",
+    "auth.errors.emailTaken":
+      "Ya existe una cuenta con este correo electrónico",
+    "auth.errors.notSignedIn": "Inicia sesión para cambiar tu contraseña",
+    "auth.errors.wrongPassword": "La contraseña actual no es correcta",
+    "auth.errors.invalidToken":
+      "Este enlace de restablecimiento no es válido o ha caducado",
+    "auth.errors.passwordRejected":
+      "Elige una contraseña que cumpla todos los requisitos",
+
+    "a11y.strengthMeter": "Seguridad de la contraseña",
+    "a11y.showPassword": "Mostrar contraseña",
+    "a11y.criterionMet": "Cumplido: {label}",
+    "a11y.criterionUnmet": "Pendiente: {label}",
+    "a11y.strengthChanged": "La seguridad de la contraseña ahora es {tier}",
+
+    "tiers.Weak": "Débil",
+    "tiers.Medium": "Media",
+    "tiers.Strong": "Fuerte",
+
+    "rules.length.label": "Longitud mínima ({minLength})",
+    "rules.uppercase.label": "Contiene mayúsculas",
+    "rules.lowercase.label": "Contiene minúsculas",
+    "rules.numbers.label": "Contiene números",
+    "rules.specialChars.label": "Contiene caracteres especiales",
+    "rules.noRepeatedChars.label": "Sin caracteres repetidos",
+    "rules.noCommonPatterns.label": "Sin patrones comunes",
+    "rules.noSequences.label": "Sin secuencias como abcd o 4321",
+    "rules.noKeyboardWalks.label": "Sin patrones de teclado como qwerty",
+    "rules.noRepeatedBlocks.label": "Sin bloques repetidos como abcabc",
+    "rules.noDates.label": "Sin fechas ni años",
+    "rules.noPersonalInfo.label": "Sin información personal",
+    "rules.noPasswordReuse.label": "No es una contraseña anterior",
+
+    "rules.length.suggestion": `Añade ${characters}`,
+    "rules.uppercase.suggestion": "Añade una letra mayúscula",
+    "rules.lowercase.suggestion": "Añade una letra minúscula",
+    "rules.numbers.suggestion": "Añade un número",
+    "rules.specialChars.suggestion": "Añade un carácter especial como ! o #",
+    "rules.noRepeatedChars.suggestion":
+      "Evita repetir caracteres como «{repeat}»",
+    "rules.noCommonPatterns.suggestion": "Evita palabras y contraseñas comunes",
+    "rules.noSequences.suggestion": "Rompe la secuencia «{token}»",
+    "rules.noKeyboardWalks.suggestion": "Rompe el patrón de teclado «{token}»",
+    "rules.noRepeatedBlocks.suggestion": "Evita repetir bloques como «{token}»",
+    "rules.noDates.suggestion": "Quita la fecha «{token}»",
+    "rules.noPersonalInfo.suggestion": "Evita usar {field}",
+    "rules.noPasswordReuse.suggestion":
+      "Elige una contraseña que no hayas usado antes",
+
+    "feedback.reachTier": "{suggestion} para llegar a {tier}",
+    "feedback.entropy": `Añade ${characters} para llegar a {tier}`,
+
+    "warnings.commonPassword": "Evita contraseñas comunes como «{word}»",
+    "warnings.dictionary": "Esta contraseña está en la lista de {list}",
+    "warnings.personalInfo": "Evita usar {field}",
+    "warnings.reuse.current":
+      "{exact, select, true {Es tu contraseña actual} other {Se parece demasiado a tu contraseña actual}}",
+    "warnings.reuse.history":
+      "{exact, select, true {Ya has usado esta contraseña} other {Se parece demasiado a una contraseña que ya has usado}}",
+    "warnings.sequence": "Evita secuencias como «{token}»",
+    "warnings.keyboard": "Evita patrones de teclado como «{token}»",
+    "warnings.block": "Evita bloques repetidos como «{token}»",
+    "warnings.date": "Evita fechas como «{token}»",
+
+    "match.dictionary":
+      "Aparece en la lista de {list}{leetspeak, select, true { (tras deshacer sustituciones de letras)} other {}}",
+    "match.dictionaryWord":
+      "«{word}» está en la lista de {list}{leetspeak, select, true { (tras deshacer sustituciones de letras)} other {}}",
+    "match.personalInfo":
+      "Se basa en {field}{reversed, select, true { (al revés)} other {}}",
+    "match.patterns": "Partes predecibles:",
+
+    "dictionaries.common-passwords": "contraseñas comunes",
+    "dictionaries.breached-passwords": "contraseñas filtradas",
+
+    "personalInfo.any": "tu información personal",
+    "personalInfo.username": "tu nombre de usuario",
+    "personalInfo.email": "tu correo electrónico",
+    "personalInfo.displayName": "tu nombre",
+    "personalInfo.birthDate": "tu fecha de nacimiento",
+    "personalInfo.appName": "el nombre de la aplicación",
+
+    "crackTime.instant": "menos de un segundo",
+    "crackTime.centuries": "siglos",
+    "crackTime.second": "{count, plural, one {# segundo} other {# segundos}}",
+    "crackTime.minute": "{count, plural, one {# minuto} other {# minutos}}",
+    "crackTime.hour": "{count, plural, one {# hora} other {# horas}}",
+    "crackTime.day": "{count, plural, one {# día} other {# días}}",
+    "crackTime.month": "{count, plural, one {# mes} other {# meses}}",
+    "crackTime.year": "{count, plural, one {# año} other {# años}}",
+  },
+};
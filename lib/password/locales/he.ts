@@ -0,0 +1,145 @@
+// he.ts
+import { Locale } from "../../../types/Types";
+
+const characters =
+  "{count, plural, one {תו אחד נוסף} two {שני תווים נוספים} other {# תווים נוספים}}";
+
+const unit = (one: string, two: string, other: string) =>
+  `{count, plural, one {${one}} two {${two}} other {# ${other}}}`;
+
+export const he: Locale = {
+  code: "he",
+  direction: "rtl",
+  pluralCategory: (count) => {
+    if (count === 1) return "one";
+    if (count === 2) return "two";
+    return "other";
+  },
+  messages: {
+    "validator.title": "סיסמה",
+    "validator.placeholder": "הזינו סיסמה",
+    "validator.strength": "חוזק: {tier}",
+    "validator.empty": "נא להזין סיסמה",
+    "validator.crackTime": "זמן משוער לפיצוח: {time}",
+    "validator.checking": "בודק…",
+    "validator.confirmPlaceholder": "אימות סיסמה",
+    "validator.match": "הסיסמאות תואמות",
+    "validator.mismatch": "הסיסמאות אינן תואמות",
+    "validator.suggest": "הצעת סיסמה חזקה",
+    "validator.suggestFailed": "לא ניתן היה להציע סיסמה למדיניות זו",
+
+    "form.required": "הזינו סיסמה",
+    "form.tooWeak": "בחרו סיסמה חזקה יותר",
+
+    "auth.email": "אימייל",
+    "auth.currentPassword": "הסיסמה הנוכחית",
+    "auth.signUp.title": "יצירת חשבון",
+    "auth.signUp.submit": "הרשמה",
+    "auth.changePassword.title": "שינוי סיסמה",
+    "auth.changePassword.submit": "שינוי סיסמה",
+    "auth.forgotPassword.title": "שכחתי סיסמה",
+    "auth.forgotPassword.description":
+      "הזינו את כתובת האימייל של החשבון ונשלח לכם קישור לבחירת סיסמה חדשה.",
+    "auth.forgotPassword.submit": "שליחת קישור איפוס",
+    "auth.forgotPassword.sent": "בדקו את תיבת הדואר",
+    "auth.forgotPassword.sentHelp":
+      "אם {email} שייכת לחשבון, קישור לאיפוס הסיסמה בדרך אליכם.",
+    "auth.resetPassword.title": "איפוס סיסמה",
+    "auth.resetPassword.description": "בחרו סיסמה חדשה לחשבון שלכם.",
+    "auth.resetPassword.submit": "איפוס סיסמה",
+    "auth.resetPassword.invalidLink": "קישור האיפוס הזה אינו תקף",
+    "auth.resetPassword.invalidLinkHelp":
+      "פתחו שוב את הקישור מהודעת האיפוס, או בקשו קישור חדש.",
+    "auth.resetPassword.requestNewLink": "בקשת קישור חדש",
+    "auth.screens.signUp": "הרשמה",
+    "auth.screens.changePassword": "שינוי סיסמה",
+    "auth.screens.forgotPassword": "שכחתי סיסמה",
+    "auth.screens.resetPassword": "איפוס סיסמה",
+    "auth.errors.invalidEmail": "הזינו כתובת אימייל תקינה",
+    "auth.errors.emailTaken": "כבר קיים חשבון עם כתובת האימייל הזו",
+    "auth.errors.notSignedIn": "התחברו כדי לשנות את הסיסמה",
+    "auth.errors.wrongPassword": "הסיסמה הנוכחית שגויה",
+    "auth.errors.invalidToken": "קישור האיפוס הזה אינו תקף או שפג תוקפו",
+    "auth.errors.passwordRejected": "בחרו סיסמה שעומדת בכל הדרישות",
+
+    "a11y.strengthMeter": "חוזק הסיסמה",
+    "a11y.showPassword": "הצגת הסיסמה",
+    "a11y.criterionMet": "מתקיים: {label}",
+    "a11y.criterionUnmet": "לא מתקיים: {label}",
+    "a11y.strengthChanged": "חוזק הסיסמה כעת: {tier}",
+
+    "tiers.Weak": "חלשה",
+    "tiers.Medium": "בינונית",
+    "tiers.Strong": "חזקה",
+
+    "rules.length.label": "אורך מינימלי ({minLength})",
+    "rules.uppercase.label": "מכילה אותיות גדולות",
+    "rules.lowercase.label": "מכילה אותיות קטנות",
+    "rules.numbers.label": "מכילה ספרות",
+    "rules.specialChars.label": "מכילה תווים מיוחדים",
+    "rules.noRepeatedChars.label": "ללא תווים חוזרים",
+    "rules.noCommonPatterns.label": "ללא דפוסים נפוצים",
+    "rules.noSequences.label": "ללא רצפים כמו abcd או 4321",
+    "rules.noKeyboardWalks.label": "ללא דפוסי מקלדת כמו qwerty",
+    "rules.noRepeatedBlocks.label": "ללא קטעים חוזרים כמו abcabc",
+    "rules.noDates.label": "ללא תאריכים או שנים",
+    "rules.noPersonalInfo.label": "ללא מידע אישי",
+    "rules.noPasswordReuse.label": "לא סיסמה קודמת",
+
+    "rules.length.suggestion": `הוסיפו ${characters}`,
+    "rules.uppercase.suggestion": "הוסיפו אות גדולה",
+    "rules.lowercase.suggestion": "הוסיפו אות קטנה",
+    "rules.numbers.suggestion": "הוסיפו ספרה",
+    "rules.specialChars.suggestion": "הוסיפו תו מיוחד כמו ! או #",
+    "rules.noRepeatedChars.suggestion": 'הימנעו מחזרה על תווים כמו "{repeat}"',
+    "rules.noCommonPatterns.suggestion": "הימנעו ממילים וסיסמאות נפוצות",
+    "rules.noSequences.suggestion": 'שברו את הרצף "{token}"',
+    "rules.noKeyboardWalks.suggestion": 'שברו את דפוס המקלדת "{token}"',
+    "rules.noRepeatedBlocks.suggestion": 'הימנעו מחזרה על קטעים כמו "{token}"',
+    "rules.noDates.suggestion": 'הסירו את התאריך "{token}"',
+    "rules.noPersonalInfo.suggestion": "הימנעו משימוש ב{field}",
+    "rules.noPasswordReuse.suggestion": "בחרו סיסמה שלא השתמשתם בה בעבר",
+
+    "feedback.reachTier": "{suggestion} כדי להגיע לרמה {tier}",
+    "feedback.entropy": `הוסיפו ${characters} כדי להגיע לרמה {tier}`,
+
+    "warnings.commonPassword": 'הימנעו מסיסמאות נפוצות כמו "{word}"',
+    "warnings.dictionary": "הסיסמה הזו מופיעה ברשימת {list}",
+    "warnings.personalInfo": "הימנעו משימוש ב{field}",
+    "warnings.reuse.current":
+      "{exact, select, true {זו הסיסמה הנוכחית} other {דומה מדי לסיסמה הנוכחית}}",
+    "warnings.reuse.history":
+      "{exact, select, true {כבר השתמשתם בסיסמה הזו} other {דומה מדי לסיסמה שכבר השתמשתם בה}}",
+    "warnings.sequence": 'הימנעו מרצפים כמו "{token}"',
+    "warnings.keyboard": 'הימנעו מדפוסי מקלדת כמו "{token}"',
+    "warnings.block": 'הימנעו מקטעים חוזרים כמו "{token}"',
+    "warnings.date": 'הימנעו מתאריכים כמו "{token}"',
+
+    "match.dictionary":
+      "מופיעה ברשימת {list}{leetspeak, select, true { (לאחר ביטול החלפות אותיות)} other {}}",
+    "match.dictionaryWord":
+      '"{word}" מופיעה ברשימת {list}{leetspeak, select, true { (לאחר ביטול החלפות אותיות)} other {}}',
+    "match.personalInfo":
+      "דומה ל{field}{reversed, select, true { (בסדר הפוך)} other {}}",
+    "match.patterns": "חלקים צפויים:",
+
+    "dictionaries.common-passwords": "הסיסמאות הנפוצות",
+    "dictionaries.breached-passwords": "הסיסמאות שדלפו",
+
+    "personalInfo.any": "המידע האישי שלכם",
+    "personalInfo.username": "שם המשתמש שלכם",
+    "personalInfo.email": 'כתובת הדוא"ל שלכם',
+    "personalInfo.displayName": "השם שלכם",
+    "personalInfo.birthDate": "תאריך הלידה שלכם",
+    "personalInfo.appName": "שם האפליקציה",
+
+    "crackTime.instant": "פחות משנייה",
+    "crackTime.centuries": "מאות שנים",
+    "crackTime.second": unit("שנייה אחת", "שתי שניות", "שניות"),
+    "crackTime.minute": unit("דקה אחת", "שתי דקות", "דקות"),
+    "crackTime.hour": unit("שעה אחת", "שעתיים", "שעות"),
+    "crackTime.day": unit("יום אחד", "יומיים", "ימים"),
+    "crackTime.month": unit("חודש אחד", "חודשיים", "חודשים"),
+    "crackTime.year": unit("שנה אחת", "שנתיים", "שנים"),
+  },
+};
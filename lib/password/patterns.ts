@@ -0,0 +1,296 @@
+// patterns.ts
+//
+// Structures people fall back on when asked for something random: runs of
+// consecutive letters or digits, walks across neighbouring keys, repeated
+// blocks and dates. Every finder reports where it matched, so the UI can
+// point at the offending part of the password.
+import {
+  KeyboardLayoutName,
+  PatternKind,
+  PatternMatch,
+} from "../../types/Types";
+
+/**
+ * Shortest sequence or keyboard walk the rules reject. Three-character runs
+ * are too common in ordinary words ("first", "study", "party") to count.
+ */
+export const MIN_PATTERN_LENGTH = 4;
+
+/** Shortest repeated block the rules reject, so "abcabc" but not "mama". */
+export const MIN_BLOCK_LENGTH = 6;
+
+/** A run of neighbouring keys in one direction, e.g. "asd" or "qaz". */
+const MIN_STROKE_LENGTH = 3;
+
+interface KeyboardRow {
+  /** Distance of the first key from the left edge, in key widths. */
+  offset: number;
+  keys: string;
+  shifted: string;
+}
+
+const KEYBOARD_ROWS: Record<KeyboardLayoutName, KeyboardRow[]> = {
+  qwerty: [
+    { offset: 0, keys: "`1234567890-=", shifted: "~!@#$%^&*()_+" },
+    { offset: 1.5, keys: "qwertyuiop[]\\", shifted: "QWERTYUIOP{}|" },
+    { offset: 1.75, keys: "asdfghjkl;'", shifted: 'ASDFGHJKL:"' },
+    { offset: 2.25, keys: "zxcvbnm,./", shifted: "ZXCVBNM<>?" },
+  ],
+  azerty: [
+    { offset: 0, keys: "²&é\"'(-è_çà)=", shifted: "²1234567890°+" },
+    { offset: 1.5, keys: "azertyuiop^$", shifted: "AZERTYUIOP¨£" },
+    { offset: 1.75, keys: "qsdfghjklmù*", shifted: "QSDFGHJKLM%µ" },
+    { offset: 1.25, keys: "<wxcvbn,;:!", shifted: ">WXCVBN?./§" },
+  ],
+  qwertz: [
+    { offset: 0, keys: "^1234567890ß´", shifted: '°!"§$%&/()=?`' },
+    { offset: 1.5, keys: "qwertzuiopü+", shifted: "QWERTZUIOPÜ*" },
+    { offset: 1.75, keys: "asdfghjklöä#", shifted: "ASDFGHJKLÖÄ'" },
+    { offset: 1.25, keys: "<yxcvbnm,.-", shifted: ">YXCVBNM;:_" },
+  ],
+};
+
+export const KEYBOARD_LAYOUTS = Object.keys(
+  KEYBOARD_ROWS
+) as KeyboardLayoutName[];
+
+type KeyPosition = { row: number; x: number };
+
+const keyPositions = (rows: KeyboardRow[]) => {
+  const positions = new Map<string, KeyPosition>();
+  rows.forEach(({ offset, keys, shifted }, row) =>
+    [keys, shifted].forEach((characters) =>
+      Array.from(characters).forEach((key, column) => {
+        if (!positions.has(key)) {
+          positions.set(key, { row, x: offset + column });
+        }
+      })
+    )
+  );
+  return positions;
+};
+
+const POSITIONS = new Map(
+  KEYBOARD_LAYOUTS.map((layout) => [
+    layout,
+    keyPositions(KEYBOARD_ROWS[layout]),
+  ])
+);
+
+const DATE_REGEX =
+  /(?:19|20)\d{2}[-/.]?(?:0[1-9]|1[0-2])[-/.]?(?:0[1-9]|[12]\d|3[01])|(?:0[1-9]|[12]\d|3[01])[-/.]?(?:0[1-9]|1[0-2])[-/.]?(?:19|20)\d{2}|(?:0[1-9]|1[0-2])[-/.]?(?:0[1-9]|[12]\d|3[01])[-/.]?(?:19|20)\d{2}|(?:0?[1-9]|[12]\d|3[01])[-/.](?:0?[1-9]|1[0-2])[-/.]\d{2}|(?:0?[1-9]|1[0-2])[-/.](?:0?[1-9]|[12]\d|3[01])[-/.]\d{2}|(?:19|20)\d{2}/g;
+
+type Character = { char: string; index: number };
+
+/** Code points with their UTF-16 offsets, so spans can be sliced back out. */
+const charactersOf = (password: string): Character[] => {
+  const characters: Character[] = [];
+  let index = 0;
+  for (const char of password) {
+    characters.push({ char, index });
+    index += char.length;
+  }
+  return characters;
+};
+
+/**
+ * Maximal runs of at least `minLength` characters in which every step
+ * between neighbours is the same, as first and last character indices. A
+ * character can end one run and start the next.
+ */
+const runs = (
+  characters: Character[],
+  stepOf: (previous: string, current: string) => string | undefined,
+  minLength: number
+): [number, number][] => {
+  const found: [number, number][] = [];
+  let start = 0;
+  let step: string | undefined;
+  for (let index = 1; index <= characters.length; index += 1) {
+    const next =
+      index < characters.length
+        ? stepOf(characters[index - 1].char, characters[index].char)
+        : undefined;
+    if (next !== undefined && next === step) continue;
+    if (step !== undefined && index - start >= minLength) {
+      found.push([start, index - 1]);
+    }
+    start = index - 1;
+    step = next;
+  }
+  return found;
+};
+
+const toMatch = (
+  password: string,
+  characters: Character[],
+  [first, last]: [number, number],
+  kind: PatternKind
+): PatternMatch => {
+  const start = characters[first].index;
+  const end = characters[last].index + characters[last].char.length;
+  return { kind, start, end, token: password.slice(start, end) };
+};
+
+const sequenceStep = (previous: string, current: string) => {
+  const letters = /^\p{L}$/u.test(previous) && /^\p{L}$/u.test(current);
+  const digits = /^\p{Nd}$/u.test(previous) && /^\p{Nd}$/u.test(current);
+  if (!letters && !digits) return undefined;
+  const delta =
+    (current.toLowerCase().codePointAt(0) ?? 0) -
+    (previous.toLowerCase().codePointAt(0) ?? 0);
+  return delta === 1 || delta === -1 ? String(delta) : undefined;
+};
+
+/** Ascending or descending runs of letters or digits, e.g. "abcd" or "9876". */
+export const findSequences = (
+  password: string,
+  minLength = MIN_PATTERN_LENGTH
+): PatternMatch[] => {
+  const characters = charactersOf(password);
+  return runs(characters, sequenceStep, minLength).map((run) =>
+    toMatch(password, characters, run, "sequence")
+  );
+};
+
+/**
+ * Direction from one key to a touching key: along the row, or up or down
+ * to the left or right. Rows are staggered, so the neighbours in the next
+ * row are the keys less than one key width away.
+ */
+const keyStep =
+  (positions: Map<string, KeyPosition>) =>
+  (previous: string, current: string) => {
+    const from = positions.get(previous);
+    const to = positions.get(current);
+    if (!from || !to) return undefined;
+    const rows = to.row - from.row;
+    const distance = to.x - from.x;
+    if (rows === 0) {
+      return Math.abs(distance) === 1 ? `0:${distance}` : undefined;
+    }
+    return Math.abs(rows) === 1 && distance !== 0 && Math.abs(distance) < 1
+      ? `${rows}:${Math.sign(distance)}`
+      : undefined;
+  };
+
+/** Drops matches lying inside a longer one, e.g. "qwert" (QWERTZ) in "qwerty". */
+const dropContained = (matches: PatternMatch[]) =>
+  matches.filter(
+    (match) =>
+      !matches.some(
+        (other) =>
+          other !== match &&
+          other.start <= match.start &&
+          other.end >= match.end &&
+          (other.end - other.start > match.end - match.start ||
+            matches.indexOf(other) < matches.indexOf(match))
+      )
+  );
+
+/**
+ * Walks across neighbouring keys on any of `layouts`. A walk is made of
+ * straight strokes of three or more keys ("asdf", "qaz"); strokes that
+ * follow each other, such as "qaz" and "wsx" in "qazwsx", form one walk.
+ */
+export const findKeyboardWalks = (
+  password: string,
+  minLength = MIN_PATTERN_LENGTH,
+  layouts: KeyboardLayoutName[] = KEYBOARD_LAYOUTS
+): PatternMatch[] => {
+  const characters = charactersOf(password);
+  const walks = layouts.flatMap((layout) => {
+    const strokes = runs(
+      characters,
+      keyStep(POSITIONS.get(layout) ?? new Map()),
+      MIN_STROKE_LENGTH
+    );
+    const chains = strokes.reduce<[number, number][]>((chained, stroke) => {
+      const last = chained[chained.length - 1];
+      if (last && stroke[0] <= last[1] + 1) last[1] = stroke[1];
+      else chained.push([stroke[0], stroke[1]]);
+      return chained;
+    }, []);
+    return chains
+      .filter(([first, last]) => last - first + 1 >= minLength)
+      .map((chain) => ({
+        ...toMatch(password, characters, chain, "keyboard"),
+        layout,
+      }));
+  });
+  return dropContained(walks);
+};
+
+/** A block of two or more characters repeated back to back, e.g. "abcabc". */
+export const findRepeatedBlocks = (
+  password: string,
+  minLength = MIN_BLOCK_LENGTH
+): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const regex = /(.{2,}?)\1+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(password)) !== null) {
+    const [token, block] = match;
+    // Runs of one character are the repeated-characters rule's concern.
+    if (Array.from(token).length >= minLength && new Set(block).size > 1) {
+      matches.push({
+        kind: "block",
+        start: match.index,
+        end: match.index + token.length,
+        token,
+      });
+    }
+  }
+  return matches;
+};
+
+/**
+ * Years from 1900 to 2099 and full dates in year-first, day-first or
+ * month-first order. Dates with two-digit years need separators.
+ */
+export const findDates = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const regex = new RegExp(DATE_REGEX);
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(password)) !== null) {
+    matches.push({
+      kind: "date",
+      start: match.index,
+      end: match.index + match[0].length,
+      token: match[0],
+    });
+  }
+  return matches;
+};
+
+/**
+ * Splits the password into the parts matched by `matches` and the parts in
+ * between, merging overlapping matches, for highlighting.
+ */
+export const patternSegments = (
+  password: string,
+  matches: PatternMatch[]
+): { text: string; matched: boolean }[] => {
+  const spans = [...matches]
+    .sort((a, b) => a.start - b.start)
+    .reduce<[number, number][]>((merged, { start, end }) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+      else merged.push([start, end]);
+      return merged;
+    }, []);
+
+  const segments: { text: string; matched: boolean }[] = [];
+  let position = 0;
+  spans.forEach(([start, end]) => {
+    if (start > position) {
+      segments.push({ text: password.slice(position, start), matched: false });
+    }
+    segments.push({ text: password.slice(start, end), matched: true });
+    position = end;
+  });
+  if (position < password.length) {
+    segments.push({ text: password.slice(position), matched: false });
+  }
+  return segments;
+};
@@ -0,0 +1,60 @@
+// pbkdf2.ts
+//
+// PBKDF2-HMAC-SHA256 (RFC 8018) on top of sha256.ts, for password hashes
+// kept by a server. A single SHA-256 lets a stolen hash be tested against
+// billions of guesses a second; each round here makes every guess cost as
+// much again.
+import { utf8Bytes } from "./sha1";
+import {
+  SHA256_INITIAL_STATE,
+  sha256Block,
+  sha256Digest,
+  toHex,
+} from "./sha256";
+
+const BLOCK_SIZE = 64;
+
+/** The state after hashing the key padded with `pad`, one HMAC half. */
+const keyedState = (key: number[], pad: number) => {
+  const block = Array.from(
+    { length: BLOCK_SIZE },
+    (_, index) => (key[index] ?? 0) ^ pad
+  );
+  const state = [...SHA256_INITIAL_STATE];
+  sha256Block(state, block, 0);
+  return state;
+};
+
+/**
+ * Derives a 256-bit key from the UTF-8 password and salt, returned as
+ * upper-case hex like `sha256`. Only the first output block is computed,
+ * which is all a 32-byte key needs.
+ */
+export const pbkdf2Sha256 = (
+  password: string,
+  salt: string,
+  iterations: number
+): string => {
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error(
+      `PBKDF2 iterations must be a positive integer, got ${iterations}`
+    );
+  }
+  let key = utf8Bytes(password);
+  if (key.length > BLOCK_SIZE) key = sha256Digest(key);
+  // The keyed states are computed once, so each round costs two blocks.
+  const inner = keyedState(key, 0x36);
+  const outer = keyedState(key, 0x5c);
+  const hmac = (message: number[]) =>
+    sha256Digest(sha256Digest(message, inner, BLOCK_SIZE), outer, BLOCK_SIZE);
+
+  let block = hmac([...utf8Bytes(salt), 0, 0, 0, 1]);
+  const result = [...block];
+  for (let round = 1; round < iterations; round += 1) {
+    block = hmac(block);
+    block.forEach((byte, index) => {
+      result[index] ^= byte;
+    });
+  }
+  return toHex(result);
+};
@@ -0,0 +1,101 @@
+// personalInfo.ts
+//
+// Detects passwords built from the user's own data: username, email,
+// display name, birth date or the app's name.
+import { PersonalInfoMatch, UserInputs } from "../../types/Types";
+import { leetspeakVariants } from "./dictionary";
+import {
+  MAX_SIMILARITY_DISTANCE,
+  normalizedEditDistance,
+} from "./editDistance";
+
+/** Tokens shorter than this are too common to be meaningful. */
+const MIN_TOKEN_LENGTH = 3;
+
+type Token = { field: keyof UserInputs; value: string };
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const dateTokens = (birthDate: string | Date): string[] => {
+  const date =
+    birthDate instanceof Date ? birthDate : new Date(`${birthDate}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return [];
+
+  const year = String(date.getFullYear());
+  const month = pad(date.getMonth() + 1);
+  const day = pad(date.getDate());
+  return [
+    year,
+    `${year}${month}${day}`,
+    `${day}${month}${year}`,
+    `${month}${day}${year}`,
+    `${day}${month}${year.slice(2)}`,
+    `${month}${day}${year.slice(2)}`,
+    `${day}${month}`,
+    `${month}${day}`,
+  ];
+};
+
+const textTokens = (value: string): string[] => {
+  const lower = value.trim().toLowerCase();
+  return [lower, ...lower.split(/[\s._+\-@]+/)];
+};
+
+const collectTokens = (inputs: UserInputs): Token[] => {
+  const tokens: Token[] = [];
+  const add = (field: keyof UserInputs, values: string[]) =>
+    values
+      .filter((value) => value.length >= MIN_TOKEN_LENGTH)
+      .forEach((value) => tokens.push({ field, value }));
+
+  if (inputs.username) add("username", textTokens(inputs.username));
+  if (inputs.email) {
+    const [localPart] = inputs.email.split("@");
+    add("email", [inputs.email.toLowerCase(), ...textTokens(localPart)]);
+  }
+  if (inputs.displayName) add("displayName", textTokens(inputs.displayName));
+  if (inputs.appName) add("appName", textTokens(inputs.appName));
+  if (inputs.birthDate) add("birthDate", dateTokens(inputs.birthDate));
+
+  return tokens;
+};
+
+const reverse = (value: string) => Array.from(value).reverse().join("");
+
+/**
+ * Finds the first personal value contained in the password, forwards or
+ * reversed and ignoring case and leetspeak, or one the whole password closely
+ * resembles.
+ */
+export const findPersonalInfo = (
+  password: string,
+  inputs: UserInputs
+): PersonalInfoMatch | undefined => {
+  const variants = leetspeakVariants(password);
+
+  for (const { field, value } of collectTokens(inputs)) {
+    if (variants.some((variant) => variant.includes(value))) {
+      return { field, reversed: false };
+    }
+    const reversed = reverse(value);
+    if (variants.some((variant) => variant.includes(reversed))) {
+      return { field, reversed: true };
+    }
+    if (
+      value.length > MIN_TOKEN_LENGTH &&
+      variants.some(
+        (variant) =>
+          normalizedEditDistance(variant, value) <= MAX_SIMILARITY_DISTANCE
+      )
+    ) {
+      return { field, reversed: false };
+    }
+  }
+
+  return undefined;
+};
+
+/** True when at least one field carries a value worth checking. */
+export const hasUserInputs = (inputs?: UserInputs): inputs is UserInputs =>
+  inputs !== undefined &&
+  Object.values(inputs).some((value) => value !== undefined && value !== "");
@@ -0,0 +1,138 @@
+// playground.ts
+//
+// Support for the policy playground in the Explore tab: the validator
+// props it can switch, the JSX snippet for a configuration, and an account
+// of an evaluation rule by rule.
+import {
+  CriteriaKeys,
+  PasswordPolicy,
+  PasswordStrength,
+  RuleStatus,
+  Translator,
+} from "../../types/Types";
+import { DEFAULT_POLICY } from "./evaluatePassword";
+import { DEFAULT_TRANSLATOR } from "./i18n";
+import { ruleLabel } from "./rules";
+
+/** The `require*` and `prevent*` props. */
+export type PolicySwitch = {
+  [Field in keyof PasswordPolicy]-?: PasswordPolicy[Field] extends boolean
+    ? Field
+    : never;
+}[keyof PasswordPolicy];
+
+export const POLICY_SWITCHES = (
+  Object.keys(DEFAULT_POLICY) as (keyof PasswordPolicy)[]
+).filter(
+  (field): field is PolicySwitch => typeof DEFAULT_POLICY[field] === "boolean"
+);
+
+/** Range of the `minLength` slider. */
+export const MIN_LENGTH_RANGE = { min: 4, max: 32 };
+
+/** The props the playground sets; everything else keeps its default. */
+export type PlaygroundProps = Partial<
+  Pick<PasswordPolicy, "minLength" | PolicySwitch>
+>;
+
+/**
+ * JSX for a validator configured with `props`, listing only the props that
+ * differ from the defaults, in policy order, ready to paste into a screen.
+ */
+export const validatorSnippet = (props: PlaygroundProps): string => {
+  const fields: (keyof PlaygroundProps)[] = ["minLength", ...POLICY_SWITCHES];
+  const lines = fields
+    .filter(
+      (field) =>
+        props[field] !== undefined && props[field] !== DEFAULT_POLICY[field]
+    )
+    .map((field) => `  ${field}={${props[field]}}`);
+  return lines.length > 0
+    ? `<PasswordStrengthValidator\n${lines.join("\n")}\n/>`
+    : "<PasswordStrengthValidator />";
+};
+
+export interface CriterionExplanation {
+  id: CriteriaKeys;
+  label: string;
+  status: RuleStatus;
+  weight: number;
+  mandatory: boolean;
+  /** The part of the password that failed the rule. */
+  found?: string;
+  /** What to change, for a failed rule. */
+  suggestion?: string;
+}
+
+const PATTERN_KINDS: { [key in CriteriaKeys]?: string } = {
+  noSequences: "sequence",
+  noKeyboardWalks: "keyboard",
+  noRepeatedBlocks: "block",
+  noDates: "date",
+};
+
+/** Puts the rule's finding in words, as the validator explains matches. */
+const finding = (
+  id: CriteriaKeys,
+  {
+    dictionaryMatch,
+    personalInfoMatch,
+    patternMatches = [],
+    reuseMatch,
+  }: PasswordStrength,
+  { t }: Translator
+): string | undefined => {
+  if (id === "noCommonPatterns" && dictionaryMatch) {
+    return t(
+      dictionaryMatch.word ? "match.dictionaryWord" : "match.dictionary",
+      {
+        word: dictionaryMatch.word ?? "",
+        list: t(
+          `dictionaries.${dictionaryMatch.dictionary}`,
+          {},
+          dictionaryMatch.label
+        ),
+        leetspeak: dictionaryMatch.leetspeak,
+      }
+    );
+  }
+  if (id === "noPersonalInfo" && personalInfoMatch) {
+    return t("match.personalInfo", {
+      field: t(`personalInfo.${personalInfoMatch.field}`),
+      reversed: personalInfoMatch.reversed,
+    });
+  }
+  if (id === "noPasswordReuse" && reuseMatch) {
+    return t(`warnings.reuse.${reuseMatch.source}`, {
+      exact: reuseMatch.exact,
+    });
+  }
+  const tokens = patternMatches
+    .filter(({ kind }) => kind === PATTERN_KINDS[id])
+    .map(({ token }) => `"${token}"`);
+  return tokens.length > 0
+    ? `${t("match.patterns")} ${tokens.join(", ")}`
+    : undefined;
+};
+
+/** Every rule of the policy with its result and, when failed, the reason. */
+export const explainCriteria = (
+  strength: PasswordStrength,
+  policy: PasswordPolicy,
+  translator: Translator = DEFAULT_TRANSLATOR
+): CriterionExplanation[] =>
+  policy.rules.map((rule) => {
+    const status = strength.status[rule.id] ?? "notApplicable";
+    return {
+      id: rule.id,
+      label: ruleLabel(rule, policy, translator),
+      status,
+      weight: rule.weight,
+      mandatory: Boolean(rule.mandatory),
+      ...(status === "failed" && {
+        found: finding(rule.id, strength, translator),
+        suggestion: strength.suggestions.find(({ id }) => id === rule.id)
+          ?.message,
+      }),
+    };
+  });
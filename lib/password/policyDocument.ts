@@ -0,0 +1,427 @@
+// policyDocument.ts
+//
+// Loads declarative JSON policies (see policySchema.json) into the policy
+// fields the evaluator understands. Documents come from remote configuration,
+// so every value is validated and each problem is reported with its path.
+import {
+  BuiltInCriteriaKeys,
+  PasswordPolicy,
+  PasswordRule,
+  PolicyDocument,
+  PolicyDocumentCustomRule,
+  PolicyValidationError,
+  StrengthTier,
+} from "../../types/Types";
+import { createWordListDictionary, DEFAULT_DICTIONARIES } from "./dictionary";
+import { isValidMessageTemplate } from "./i18n";
+import { getPolicyPreset, isPolicyPresetName } from "./presets";
+import { BUILT_IN_RULES } from "./rules";
+import { tierProblems } from "./tiers";
+
+export class PolicyDocumentError extends Error {
+  errors: PolicyValidationError[];
+
+  constructor(errors: PolicyValidationError[]) {
+    super(
+      `Invalid password policy document:\n${errors
+        .map(({ path, message }) => `  ${path || "/"}: ${message}`)
+        .join("\n")}`
+    );
+    this.name = "PolicyDocumentError";
+    this.errors = errors;
+  }
+}
+
+const BOOLEAN_FIELDS = [
+  "requireUppercase",
+  "requireLowercase",
+  "requireNumbers",
+  "requireSpecialChars",
+  "preventRepeatedChars",
+  "preventCommonPatterns",
+  "preventSequences",
+  "preventKeyboardWalks",
+  "preventRepeatedBlocks",
+  "preventDates",
+  "bundledBlocklists",
+] as const;
+
+const TOP_LEVEL_FIELDS = [
+  "$schema",
+  "version",
+  "extends",
+  "minLength",
+  "estimator",
+  "normalization",
+  "rules",
+  "customRules",
+  "tiers",
+  "entropyScaleBits",
+  "messages",
+  "blocklists",
+  ...BOOLEAN_FIELDS,
+];
+
+const BUILT_IN_IDS = BUILT_IN_RULES.map((rule) => rule.id);
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const typeName = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+/** Collects errors while walking a document. */
+class Validator {
+  errors: PolicyValidationError[] = [];
+
+  fail(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  object(
+    value: unknown,
+    path: string,
+    allowed?: readonly string[]
+  ): value is Json {
+    if (!isObject(value)) {
+      this.fail(path, `must be an object, got ${typeName(value)}`);
+      return false;
+    }
+    if (allowed) {
+      Object.keys(value)
+        .filter((key) => !allowed.includes(key))
+        .forEach((key) => this.fail(`${path}/${key}`, "is not a known field"));
+    }
+    return true;
+  }
+
+  boolean(value: unknown, path: string) {
+    if (value !== undefined && typeof value !== "boolean") {
+      this.fail(path, `must be a boolean, got ${typeName(value)}`);
+    }
+  }
+
+  string(value: unknown, path: string, { required = false } = {}) {
+    if (value === undefined) {
+      if (required) this.fail(path, "is required");
+      return false;
+    }
+    if (typeof value !== "string") {
+      this.fail(path, `must be a string, got ${typeName(value)}`);
+      return false;
+    }
+    if (value.length === 0) {
+      this.fail(path, "must not be empty");
+      return false;
+    }
+    return true;
+  }
+
+  number(
+    value: unknown,
+    path: string,
+    { min = 0, max = Infinity, integer = false } = {}
+  ) {
+    if (value === undefined) return;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.fail(path, `must be a number, got ${typeName(value)}`);
+    } else if (integer && !Number.isInteger(value)) {
+      this.fail(path, "must be an integer");
+    } else if (value < min || value > max) {
+      this.fail(
+        path,
+        max === Infinity
+          ? `must be at least ${min}`
+          : `must be between ${min} and ${max}`
+      );
+    }
+  }
+
+  oneOf(value: unknown, path: string, options: readonly string[]) {
+    if (value !== undefined && !options.includes(value as string)) {
+      this.fail(path, `must be one of ${options.join(", ")}`);
+    }
+  }
+
+  tier(value: unknown, path: string) {
+    if (
+      !this.object(value, path, ["id", "threshold", "label", "color", "icon"])
+    )
+      return;
+    this.string(value.id, `${path}/id`, { required: true });
+    if (value.threshold === undefined)
+      this.fail(`${path}/threshold`, "is required");
+    this.number(value.threshold, `${path}/threshold`, { max: 1 });
+    this.string(value.label, `${path}/label`, { required: true });
+    if (value.color === undefined) this.fail(`${path}/color`, "is required");
+    else if (this.object(value.color, `${path}/color`, ["light", "dark"])) {
+      this.string(value.color.light, `${path}/color/light`, { required: true });
+      this.string(value.color.dark, `${path}/color/dark`, { required: true });
+    }
+    if (value.icon !== undefined) this.string(value.icon, `${path}/icon`);
+  }
+
+  customRule(value: unknown, path: string, seen: Set<string>) {
+    if (
+      !this.object(value, path, [
+        "id",
+        "label",
+        "pattern",
+        "flags",
+        "match",
+        "weight",
+        "mandatory",
+      ])
+    )
+      return;
+    if (this.string(value.id, `${path}/id`, { required: true })) {
+      const id = value.id as string;
+      if (BUILT_IN_IDS.includes(id) || seen.has(id)) {
+        this.fail(`${path}/id`, `"${id}" is already used by another rule`);
+      }
+      seen.add(id);
+    }
+    this.string(value.label, `${path}/label`, { required: true });
+    if (value.flags !== undefined) {
+      if (typeof value.flags !== "string" || !/^[imsu]*$/.test(value.flags)) {
+        this.fail(`${path}/flags`, "may only contain the flags i, m, s and u");
+      }
+    }
+    if (this.string(value.pattern, `${path}/pattern`, { required: true })) {
+      try {
+        new RegExp(
+          value.pattern as string,
+          typeof value.flags === "string" ? value.flags : ""
+        );
+      } catch {
+        this.fail(`${path}/pattern`, "is not a valid regular expression");
+      }
+    }
+    if (value.match === undefined) this.fail(`${path}/match`, "is required");
+    this.oneOf(value.match, `${path}/match`, ["required", "forbidden"]);
+    this.number(value.weight, `${path}/weight`);
+    this.boolean(value.mandatory, `${path}/mandatory`);
+  }
+
+  blocklist(value: unknown, path: string) {
+    if (!this.object(value, path, ["name", "label", "words"])) return;
+    this.string(value.name, `${path}/name`, { required: true });
+    if (value.label !== undefined) this.string(value.label, `${path}/label`);
+    if (!Array.isArray(value.words)) {
+      this.fail(
+        `${path}/words`,
+        `must be an array, got ${typeName(value.words)}`
+      );
+      return;
+    }
+    value.words.forEach((word, index) =>
+      this.string(word, `${path}/words/${index}`)
+    );
+  }
+
+  document(value: unknown) {
+    if (!this.object(value, "", TOP_LEVEL_FIELDS)) return;
+
+    if (value.version !== 1) {
+      this.fail("/version", "must be 1");
+    }
+    if (value.extends !== undefined) {
+      if (
+        typeof value.extends !== "string" ||
+        !isPolicyPresetName(value.extends)
+      ) {
+        this.fail("/extends", "must name a known policy preset");
+      }
+    }
+    this.number(value.minLength, "/minLength", {
+      min: 1,
+      max: 256,
+      integer: true,
+    });
+    BOOLEAN_FIELDS.forEach((field) => this.boolean(value[field], `/${field}`));
+    this.oneOf(value.estimator, "/estimator", ["rules", "entropy"]);
+    this.oneOf(value.normalization, "/normalization", ["NFC", "NFKC"]);
+
+    if (value.rules !== undefined && this.object(value.rules, "/rules")) {
+      const rules = value.rules;
+      Object.keys(rules).forEach((id) => {
+        const path = `/rules/${id}`;
+        if (!BUILT_IN_IDS.includes(id)) {
+          this.fail(path, "is not a built-in rule");
+          return;
+        }
+        const config = rules[id];
+        if (!this.object(config, path, ["enabled", "weight", "mandatory"]))
+          return;
+        this.boolean(config.enabled, `${path}/enabled`);
+        this.number(config.weight, `${path}/weight`);
+        this.boolean(config.mandatory, `${path}/mandatory`);
+      });
+    }
+
+    const customIds = new Set<string>();
+    if (value.customRules !== undefined) {
+      if (!Array.isArray(value.customRules)) {
+        this.fail("/customRules", "must be an array");
+      } else {
+        value.customRules.forEach((rule, index) =>
+          this.customRule(rule, `/customRules/${index}`, customIds)
+        );
+      }
+    }
+
+    if (value.tiers !== undefined) {
+      if (!Array.isArray(value.tiers)) {
+        this.fail("/tiers", "must be an array");
+      } else {
+        const errorCount = this.errors.length;
+        value.tiers.forEach((tier, index) =>
+          this.tier(tier, `/tiers/${index}`)
+        );
+        // Ordering is only meaningful once every tier is well formed.
+        if (this.errors.length === errorCount) {
+          tierProblems(value.tiers as StrengthTier[]).forEach((problem) =>
+            this.fail("/tiers", problem)
+          );
+        }
+      }
+    }
+    this.number(value.entropyScaleBits, "/entropyScaleBits", { min: 1 });
+
+    if (
+      value.messages !== undefined &&
+      this.object(value.messages, "/messages")
+    ) {
+      const messages = value.messages;
+      Object.keys(messages).forEach((key) => {
+        const path = `/messages/${key}`;
+        if (!BUILT_IN_IDS.includes(key) && !customIds.has(key)) {
+          this.fail(path, "is not a rule id");
+        } else if (typeof messages[key] !== "string") {
+          this.fail(path, "must be a string");
+        } else if (!isValidMessageTemplate(messages[key] as string)) {
+          this.fail(path, "is not a valid message template");
+        }
+      });
+    }
+
+    if (value.blocklists !== undefined) {
+      if (!Array.isArray(value.blocklists)) {
+        this.fail("/blocklists", "must be an array");
+      } else {
+        value.blocklists.forEach((blocklist, index) =>
+          this.blocklist(blocklist, `/blocklists/${index}`)
+        );
+      }
+    }
+  }
+}
+
+/** Returns every problem with the document; an empty list means it is valid. */
+export const validatePolicyDocument = (
+  value: unknown
+): PolicyValidationError[] => {
+  const validator = new Validator();
+  validator.document(value);
+  return validator.errors;
+};
+
+const customRule = ({
+  id,
+  label,
+  pattern,
+  flags = "",
+  match,
+  weight = 1,
+  mandatory = false,
+}: PolicyDocumentCustomRule): PasswordRule => {
+  const regex = new RegExp(pattern, flags);
+  return {
+    id,
+    label,
+    weight,
+    mandatory,
+    test: (password) => regex.test(password) === (match === "required"),
+  };
+};
+
+/** Converts a valid document into policy fields, without validating it. */
+const toPolicy = (document: PolicyDocument): Partial<PasswordPolicy> => {
+  const preset = document.extends && getPolicyPreset(document.extends);
+  const policy: Partial<PasswordPolicy> = preset
+    ? { ...preset.policy, preset: { id: preset.id, version: preset.version } }
+    : {};
+
+  if (document.minLength !== undefined) policy.minLength = document.minLength;
+  BOOLEAN_FIELDS.forEach((field) => {
+    if (field !== "bundledBlocklists" && document[field] !== undefined) {
+      policy[field] = document[field];
+    }
+  });
+  if (document.estimator) policy.estimator = document.estimator;
+  if (document.normalization) policy.normalization = document.normalization;
+
+  const configs = document.rules ?? {};
+  policy.rules = [
+    ...(policy.rules ?? BUILT_IN_RULES)
+      .filter(
+        (rule) => configs[rule.id as BuiltInCriteriaKeys]?.enabled !== false
+      )
+      .map((rule) => {
+        const config = configs[rule.id as BuiltInCriteriaKeys];
+        return {
+          ...rule,
+          weight: config?.weight ?? rule.weight,
+          mandatory: config?.mandatory ?? rule.mandatory,
+        };
+      }),
+    ...(document.customRules ?? []).map(customRule),
+  ];
+
+  if (document.tiers) policy.tiers = document.tiers;
+  if (document.entropyScaleBits !== undefined) {
+    policy.entropyScaleBits = document.entropyScaleBits;
+  }
+  if (document.messages) policy.messages = document.messages;
+
+  policy.dictionaries = [
+    ...(document.bundledBlocklists === false ? [] : DEFAULT_DICTIONARIES),
+    ...(document.blocklists ?? []).map(({ name, label, words }) =>
+      createWordListDictionary(name, words, { label })
+    ),
+  ];
+
+  return policy;
+};
+
+/**
+ * Validates a policy document (parsed or as JSON text) and converts it into
+ * policy fields for `resolvePolicy` or the validator's `policy` prop.
+ * Throws a PolicyDocumentError listing every problem when it is invalid.
+ */
+export const loadPolicyDocument = (
+  source: unknown
+): Partial<PasswordPolicy> => {
+  let value = source;
+  if (typeof source === "string") {
+    try {
+      value = JSON.parse(source);
+    } catch (error) {
+      throw new PolicyDocumentError([
+        {
+          path: "",
+          message: `is not valid JSON (${(error as Error).message})`,
+        },
+      ]);
+    }
+  }
+
+  const errors = validatePolicyDocument(value);
+  if (errors.length > 0) throw new PolicyDocumentError(errors);
+  return toPolicy(value as PolicyDocument);
+};
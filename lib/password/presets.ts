@@ -0,0 +1,114 @@
+// presets.ts
+//
+// Named, versioned password policies taken from published standards. A preset
+// is referenced by id ("pci-dss", which resolves to the latest version) or
+// pinned to a version ("pci-dss@3.2.1").
+import { PasswordPolicy, PolicyPreset } from "../../types/Types";
+import { BUILT_IN_RULES } from "./rules";
+
+/**
+ * Length is what these standards rely on, so a short password is capped at
+ * the first tier however many of the remaining rules it passes.
+ */
+const noCompositionRules: Partial<PasswordPolicy> = {
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumbers: false,
+  requireSpecialChars: false,
+  rules: BUILT_IN_RULES.map((rule) =>
+    rule.id === "length" ? { ...rule, mandatory: true } : rule
+  ),
+};
+
+/** Ordered oldest to newest within each id. */
+export const POLICY_PRESETS: PolicyPreset[] = [
+  {
+    id: "nist-800-63b",
+    version: "rev3",
+    name: "NIST SP 800-63B (Revision 3)",
+    description:
+      "Length first, no composition rules, blocklist of common and breached passwords.",
+    policy: {
+      ...noCompositionRules,
+      minLength: 8,
+      preventRepeatedChars: true,
+      preventCommonPatterns: true,
+    },
+  },
+  {
+    id: "nist-800-63b",
+    version: "rev4",
+    name: "NIST SP 800-63B (Revision 4)",
+    description:
+      "At least 15 characters for single-factor use, no composition rules, blocklist of common and breached passwords.",
+    policy: {
+      ...noCompositionRules,
+      minLength: 15,
+      preventRepeatedChars: true,
+      preventCommonPatterns: true,
+    },
+  },
+  {
+    id: "owasp-asvs",
+    version: "4.0.3",
+    name: "OWASP ASVS 4.0.3",
+    description:
+      "At least 12 characters, no composition rules, check against breached passwords.",
+    policy: {
+      ...noCompositionRules,
+      minLength: 12,
+      preventRepeatedChars: false,
+      preventCommonPatterns: true,
+    },
+  },
+  {
+    id: "pci-dss",
+    version: "3.2.1",
+    name: "PCI DSS 3.2.1",
+    description: "At least 7 characters containing letters and digits.",
+    policy: {
+      ...noCompositionRules,
+      minLength: 7,
+      requireLowercase: true,
+      requireNumbers: true,
+      preventRepeatedChars: false,
+      preventCommonPatterns: true,
+    },
+  },
+  {
+    id: "pci-dss",
+    version: "4.0",
+    name: "PCI DSS 4.0",
+    description: "At least 12 characters containing letters and digits.",
+    policy: {
+      ...noCompositionRules,
+      minLength: 12,
+      requireLowercase: true,
+      requireNumbers: true,
+      preventRepeatedChars: false,
+      preventCommonPatterns: true,
+    },
+  },
+];
+
+/**
+ * Looks up a preset by `id` (latest version) or `id@version`.
+ * Throws for unknown names so a typo never silently weakens the policy.
+ */
+export const getPolicyPreset = (name: string): PolicyPreset => {
+  const [id, version] = name.split("@");
+  const candidates = POLICY_PRESETS.filter((preset) => preset.id === id);
+  const preset = version
+    ? candidates.find((candidate) => candidate.version === version)
+    : candidates[candidates.length - 1];
+
+  if (!preset) {
+    throw new Error(`Unknown password policy preset "${name}"`);
+  }
+  return preset;
+};
+
+export const isPolicyPresetName = (name: string): boolean =>
+  POLICY_PRESETS.some(
+    ({ id, version }) => name === id || name === `${id}@${version}`
+  );
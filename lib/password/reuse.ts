@@ -0,0 +1,131 @@
+// reuse.ts
+//
+// Detects a new password that repeats or barely changes the one it replaces
+// or an earlier one. Earlier passwords are only ever known as salted hashes,
+// which can confirm an exact guess but say nothing about closeness, so the
+// small edits people make when forced to rotate ("Summer2024!" becoming
+// "Summer2025!") are undone on the new password and each result is hashed.
+// That takes dozens of hashes per keystroke, so these are single SHA-256
+// passes; hashes stretched with PBKDF2 are only checked for an exact repeat.
+import {
+  EvaluationContext,
+  PasswordHash,
+  PasswordReuseMatch,
+} from "../../types/Types";
+import {
+  MAX_SIMILARITY_DISTANCE,
+  normalizedEditDistance,
+} from "./editDistance";
+import { pbkdf2Sha256 } from "./pbkdf2";
+import { sha256 } from "./sha256";
+
+/** How far a number in the password may have been nudged, e.g. a year. */
+const MAX_NUMBER_STEP = 2;
+
+/** Keeps the hashing per keystroke bounded for long, digit-heavy input. */
+const MAX_VARIANTS = 64;
+
+/**
+ * Hashes are taken over the NFKC form, which is the same whichever
+ * normalisation the policy applies before the rules see the password.
+ * With `iterations` the password is stretched with PBKDF2.
+ */
+export const hashPassword = (
+  password: string,
+  salt: string,
+  iterations?: number
+): string => {
+  const normalized = password.normalize("NFKC");
+  return iterations === undefined
+    ? sha256(salt + normalized)
+    : pbkdf2Sha256(normalized, salt, iterations);
+};
+
+export const matchesHash = (
+  password: string,
+  { salt, hash, iterations }: PasswordHash
+): boolean => hashPassword(password, salt, iterations) === hash.toUpperCase();
+
+const toggleCase = (char: string) =>
+  char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase();
+
+/**
+ * The password itself, then the passwords it could have been made from by
+ * the usual rotation edits: a number moved up or down by one or two, the
+ * first letter's case flipped, a character appended, or digits and symbols
+ * added to the end.
+ */
+export const passwordVariants = (password: string): string[] => {
+  const variants = new Set([password]);
+
+  const numbers = /\d+/g;
+  let match: RegExpExecArray | null;
+  while ((match = numbers.exec(password)) !== null) {
+    const [digits] = match;
+    const before = password.slice(0, match.index);
+    const after = password.slice(match.index + digits.length);
+    for (let step = 1; step <= MAX_NUMBER_STEP; step += 1) {
+      [-step, step].forEach((delta) => {
+        const value = Number(digits) + delta;
+        if (value >= 0) {
+          variants.add(
+            before + String(value).padStart(digits.length, "0") + after
+          );
+        }
+      });
+    }
+  }
+
+  const characters = Array.from(password);
+  if (characters.length > 1) {
+    variants.add(toggleCase(characters[0]) + characters.slice(1).join(""));
+    variants.add(characters.slice(0, -1).join(""));
+  }
+  const stem = password.replace(/[^\p{L}]+$/u, "");
+  if (stem.length > 0) variants.add(stem);
+
+  return Array.from(variants).slice(0, MAX_VARIANTS);
+};
+
+/** True when there is a current or previous password to compare against. */
+export const hasReuseInputs = ({
+  previousPasswords,
+  currentPassword,
+}: EvaluationContext): boolean =>
+  (previousPasswords?.length ?? 0) > 0 ||
+  (currentPassword !== undefined && currentPassword !== "");
+
+/**
+ * Compares the password with `currentPassword` by edit distance, ignoring
+ * case, then tries its variants against each of `previousPasswords`.
+ */
+export const findPasswordReuse = (
+  password: string,
+  { previousPasswords = [], currentPassword }: EvaluationContext
+): PasswordReuseMatch | undefined => {
+  if (currentPassword) {
+    const candidate = password.normalize("NFKC");
+    const current = currentPassword.normalize("NFKC");
+    if (
+      normalizedEditDistance(candidate.toLowerCase(), current.toLowerCase()) <=
+      MAX_SIMILARITY_DISTANCE
+    ) {
+      return { source: "current", exact: candidate === current };
+    }
+  }
+  if (previousPasswords.length === 0) return undefined;
+
+  for (const variant of passwordVariants(password)) {
+    const exact = variant === password;
+    if (
+      previousPasswords.some(
+        (entry) =>
+          (exact || entry.iterations === undefined) &&
+          matchesHash(variant, entry)
+      )
+    ) {
+      return { source: "history", exact };
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,270 @@
+// rules.ts
+//
+// Built-in rules, expressed through the same PasswordRule API that custom
+// rules use. The evaluation engine has no knowledge of individual rules.
+// Rules the policy switches off do not apply, rather than passing, and the
+// prohibitions fail on an empty password so that it never earns points.
+import {
+  MessageParams,
+  PasswordPolicy,
+  PasswordRule,
+  PatternKind,
+  PatternMatch,
+  RuleContext,
+  RuleMatches,
+  RuleOutcome,
+  Translator,
+} from "../../types/Types";
+import { findDictionaryMatch } from "./dictionary";
+import { DEFAULT_TRANSLATOR } from "./i18n";
+import {
+  findDates,
+  findKeyboardWalks,
+  findRepeatedBlocks,
+  findSequences,
+} from "./patterns";
+import { findPersonalInfo, hasUserInputs } from "./personalInfo";
+import { findPasswordReuse, hasReuseInputs } from "./reuse";
+import { findRepeatedRun, graphemeLength, hasCharacterClass } from "./unicode";
+
+/** Built-in label from the catalog, e.g. `rules.uppercase.label`. */
+const catalogLabel =
+  (id: string) =>
+  (policy: PasswordPolicy, { t }: Translator) =>
+    t(`rules.${id}.label`, policyParams(policy));
+
+/** Built-in suggestion from the catalog, e.g. `rules.numbers.suggestion`. */
+const catalogSuggestion =
+  (id: string) =>
+  (password: string, { translator }: { translator: Translator }) =>
+    translator.t(`rules.${id}.suggestion`);
+
+export const lengthRule: PasswordRule = {
+  id: "length",
+  label: catalogLabel("length"),
+  weight: 1,
+  test: (password, { policy }) => graphemeLength(password) >= policy.minLength,
+  suggestion: (password, { policy, translator }) =>
+    translator.t("rules.length.suggestion", {
+      count: policy.minLength - graphemeLength(password),
+    }),
+};
+
+export const uppercaseRule: PasswordRule = {
+  id: "uppercase",
+  label: catalogLabel("uppercase"),
+  weight: 1,
+  applies: ({ policy }) => policy.requireUppercase,
+  test: (password) => hasCharacterClass(password, "uppercase"),
+  suggestion: catalogSuggestion("uppercase"),
+};
+
+export const lowercaseRule: PasswordRule = {
+  id: "lowercase",
+  label: catalogLabel("lowercase"),
+  weight: 1,
+  applies: ({ policy }) => policy.requireLowercase,
+  test: (password) => hasCharacterClass(password, "lowercase"),
+  suggestion: catalogSuggestion("lowercase"),
+};
+
+export const numbersRule: PasswordRule = {
+  id: "numbers",
+  label: catalogLabel("numbers"),
+  weight: 1,
+  applies: ({ policy }) => policy.requireNumbers,
+  test: (password) => hasCharacterClass(password, "digit"),
+  suggestion: catalogSuggestion("numbers"),
+};
+
+export const specialCharsRule: PasswordRule = {
+  id: "specialChars",
+  label: catalogLabel("specialChars"),
+  weight: 1,
+  applies: ({ policy }) => policy.requireSpecialChars,
+  test: (password) => hasCharacterClass(password, "symbol"),
+  suggestion: catalogSuggestion("specialChars"),
+};
+
+export const noRepeatedCharsRule: PasswordRule = {
+  id: "noRepeatedChars",
+  label: catalogLabel("noRepeatedChars"),
+  weight: 1,
+  applies: ({ policy }) => policy.preventRepeatedChars,
+  test: (password) =>
+    password.length > 0 && findRepeatedRun(password) === undefined,
+  suggestion: (password, { translator }) =>
+    translator.t("rules.noRepeatedChars.suggestion", {
+      repeat: findRepeatedRun(password) ?? "",
+    }),
+};
+
+export const noCommonPatternsRule: PasswordRule = {
+  id: "noCommonPatterns",
+  label: catalogLabel("noCommonPatterns"),
+  weight: 1,
+  applies: ({ policy }) => policy.preventCommonPatterns,
+  test: (password, { policy }): RuleOutcome => {
+    const dictionaryMatch = findDictionaryMatch(password, policy.dictionaries);
+    return dictionaryMatch
+      ? { passed: false, matches: { dictionaryMatch } }
+      : { passed: password.length > 0 };
+  },
+  suggestion: catalogSuggestion("noCommonPatterns"),
+};
+
+const patternOutcome = (
+  password: string,
+  patternMatches: PatternMatch[]
+): RuleOutcome =>
+  patternMatches.length > 0
+    ? { passed: false, matches: { patternMatches } }
+    : { passed: password.length > 0 };
+
+/** Catalog suggestion naming the first match of `kind`, as `{token}`. */
+const patternSuggestion =
+  (id: string, kind: PatternKind) =>
+  (
+    password: string,
+    { translator }: RuleContext,
+    { patternMatches }: RuleMatches
+  ) =>
+    translator.t(`rules.${id}.suggestion`, {
+      token: patternMatches?.find((match) => match.kind === kind)?.token ?? "",
+    });
+
+// The four pattern rules share one point between them. Nearly every input
+// passes them, so a full point each would lift short passwords into higher
+// tiers; together they keep each default tier where it was.
+const PATTERN_RULE_WEIGHT = 0.25;
+
+export const noSequencesRule: PasswordRule = {
+  id: "noSequences",
+  label: catalogLabel("noSequences"),
+  weight: PATTERN_RULE_WEIGHT,
+  applies: ({ policy }) => policy.preventSequences,
+  test: (password) => patternOutcome(password, findSequences(password)),
+  suggestion: patternSuggestion("noSequences", "sequence"),
+};
+
+export const noKeyboardWalksRule: PasswordRule = {
+  id: "noKeyboardWalks",
+  label: catalogLabel("noKeyboardWalks"),
+  weight: PATTERN_RULE_WEIGHT,
+  applies: ({ policy }) => policy.preventKeyboardWalks,
+  test: (password) => patternOutcome(password, findKeyboardWalks(password)),
+  suggestion: patternSuggestion("noKeyboardWalks", "keyboard"),
+};
+
+export const noRepeatedBlocksRule: PasswordRule = {
+  id: "noRepeatedBlocks",
+  label: catalogLabel("noRepeatedBlocks"),
+  weight: PATTERN_RULE_WEIGHT,
+  applies: ({ policy }) => policy.preventRepeatedBlocks,
+  test: (password) => patternOutcome(password, findRepeatedBlocks(password)),
+  suggestion: patternSuggestion("noRepeatedBlocks", "block"),
+};
+
+export const noDatesRule: PasswordRule = {
+  id: "noDates",
+  label: catalogLabel("noDates"),
+  weight: PATTERN_RULE_WEIGHT,
+  applies: ({ policy }) => policy.preventDates,
+  test: (password) => patternOutcome(password, findDates(password)),
+  suggestion: patternSuggestion("noDates", "date"),
+};
+
+export const noPersonalInfoRule: PasswordRule = {
+  id: "noPersonalInfo",
+  label: catalogLabel("noPersonalInfo"),
+  weight: 1,
+  applies: ({ userInputs }) => hasUserInputs(userInputs),
+  test: (password, { userInputs }): RuleOutcome => {
+    const personalInfoMatch = findPersonalInfo(password, userInputs ?? {});
+    return personalInfoMatch
+      ? { passed: false, matches: { personalInfoMatch } }
+      : { passed: password.length > 0 };
+  },
+  suggestion: (password, { translator }, { personalInfoMatch }) =>
+    translator.t("rules.noPersonalInfo.suggestion", {
+      field: translator.t(`personalInfo.${personalInfoMatch?.field ?? "any"}`),
+    }),
+};
+
+// Mandatory: a reused password is rejected however strong it is otherwise.
+export const noPasswordReuseRule: PasswordRule = {
+  id: "noPasswordReuse",
+  label: catalogLabel("noPasswordReuse"),
+  weight: 1,
+  mandatory: true,
+  applies: (context) => hasReuseInputs(context),
+  test: (password, context): RuleOutcome => {
+    const reuseMatch = findPasswordReuse(password, context);
+    return reuseMatch
+      ? { passed: false, matches: { reuseMatch } }
+      : { passed: password.length > 0 };
+  },
+  suggestion: catalogSuggestion("noPasswordReuse"),
+};
+
+export const BUILT_IN_RULES: PasswordRule[] = [
+  lengthRule,
+  uppercaseRule,
+  lowercaseRule,
+  numbersRule,
+  specialCharsRule,
+  noRepeatedCharsRule,
+  noCommonPatternsRule,
+  noSequencesRule,
+  noKeyboardWalksRule,
+  noRepeatedBlocksRule,
+  noDatesRule,
+  noPersonalInfoRule,
+  noPasswordReuseRule,
+];
+
+/** Policy fields that messages can interpolate, such as `{minLength}`. */
+export const policyParams = (policy: PasswordPolicy): MessageParams => {
+  const params: MessageParams = {};
+  Object.entries(policy).forEach(([field, value]) => {
+    if (["string", "number", "boolean"].includes(typeof value)) {
+      params[field] = value;
+    }
+  });
+  return params;
+};
+
+/**
+ * The rule's label in the translator's language. Policy messages win, then
+ * catalog entries for `rules.<id>.label`, then the rule's own label.
+ */
+export const ruleLabel = (
+  rule: PasswordRule,
+  policy: PasswordPolicy,
+  translator: Translator = DEFAULT_TRANSLATOR
+) => {
+  const params = policyParams(policy);
+  const message = policy.messages[rule.id];
+  if (message !== undefined) return translator.format(message, params);
+  if (typeof rule.label === "function") return rule.label(policy, translator);
+  return translator.t(`rules.${rule.id}.label`, params, rule.label);
+};
+
+export const toOutcome = (result: boolean | RuleOutcome): RuleOutcome =>
+  typeof result === "boolean" ? { passed: result } : result;
+
+/** Combines the findings of several rules; pattern matches accumulate. */
+export const mergeMatches = (
+  matches: RuleMatches,
+  more: RuleMatches = {}
+): RuleMatches => {
+  const patternMatches = [
+    ...(matches.patternMatches ?? []),
+    ...(more.patternMatches ?? []),
+  ];
+  return {
+    ...matches,
+    ...more,
+    ...(patternMatches.length > 0 && { patternMatches }),
+  };
+};
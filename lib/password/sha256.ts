@@ -0,0 +1,109 @@
+// sha256.ts
+//
+// Minimal synchronous SHA-256 for the local password history, in plain
+// JavaScript for the same reason as sha1.ts. The block function and digest
+// are exported for the HMAC in pbkdf2.ts.
+import { utf8Bytes } from "./sha1";
+
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const rotr = (value: number, bits: number) =>
+  (value >>> bits) | (value << (32 - bits));
+
+/** The state a digest starts from. */
+export const SHA256_INITIAL_STATE: readonly number[] = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+];
+
+const w = new Array<number>(64);
+
+/** Mixes the 64-byte block at `offset` into the eight-word state `h`. */
+export const sha256Block = (h: number[], bytes: number[], offset: number) => {
+  for (let i = 0; i < 16; i += 1) {
+    const j = offset + i * 4;
+    w[i] =
+      (bytes[j] << 24) |
+      (bytes[j + 1] << 16) |
+      (bytes[j + 2] << 8) |
+      bytes[j + 3];
+  }
+  for (let i = 16; i < 64; i += 1) {
+    const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+    const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+
+  let [a, b, c, d, e, f, g, hh] = h;
+  for (let i = 0; i < 64; i += 1) {
+    const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+    const ch = (e & f) ^ (~e & g);
+    const temp1 = (hh + s1 + ch + K[i] + w[i]) | 0;
+    const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const temp2 = (s0 + maj) | 0;
+    hh = g;
+    g = f;
+    f = e;
+    e = (d + temp1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (temp1 + temp2) | 0;
+  }
+
+  [a, b, c, d, e, f, g, hh].forEach((value, index) => {
+    h[index] = (h[index] + value) | 0;
+  });
+};
+
+/**
+ * Finishes a digest: hashes `message` from `state`, which has already
+ * consumed `prefixLength` bytes, and returns the 32 digest bytes.
+ */
+export const sha256Digest = (
+  message: number[],
+  state: readonly number[] = SHA256_INITIAL_STATE,
+  prefixLength = 0
+): number[] => {
+  const bytes = [...message];
+  const bitLength = (prefixLength + message.length) * 8;
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) bytes.push(0);
+  for (let shift = 56; shift >= 0; shift -= 8) {
+    bytes.push(shift >= 32 ? 0 : (bitLength >>> shift) & 0xff);
+  }
+
+  const h = [...state];
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    sha256Block(h, bytes, offset);
+  }
+  return h.flatMap((word) => [
+    word >>> 24,
+    (word >>> 16) & 0xff,
+    (word >>> 8) & 0xff,
+    word & 0xff,
+  ]);
+};
+
+export const toHex = (bytes: number[]): string =>
+  bytes
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+
+/** Returns the upper-case hex SHA-256 digest of the UTF-8 encoded text. */
+export const sha256 = (text: string): string =>
+  toHex(sha256Digest(utf8Bytes(text)));
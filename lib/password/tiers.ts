@@ -0,0 +1,69 @@
+// tiers.ts
+//
+// Strength tiers map the fill of the strength bar (0 to 1) to a level with
+// its own label, colours and icon.
+import { StrengthTier, Translator } from "../../types/Types";
+
+/** Reproduces the original Weak / Medium / Strong levels. */
+export const DEFAULT_TIERS: StrengthTier[] = [
+  {
+    id: "Weak",
+    threshold: 0,
+    label: "Weak",
+    color: { light: "#e74c3c", dark: "#e74c3c" },
+  },
+  {
+    id: "Medium",
+    threshold: 4 / 7,
+    label: "Medium",
+    color: { light: "#f39c12", dark: "#f39c12" },
+  },
+  {
+    id: "Strong",
+    threshold: 6 / 7,
+    label: "Strong",
+    color: { light: "#2ecc71", dark: "#2ecc71" },
+  },
+];
+
+/** Entropy that fills the bar completely with the entropy estimator. */
+export const ENTROPY_SCALE_BITS = 70;
+
+/**
+ * Returns the highest tier whose threshold the ratio reaches. Tiers must be
+ * ordered by ascending threshold; the first tier is the floor.
+ */
+export const tierFor = (ratio: number, tiers: StrengthTier[]): StrengthTier =>
+  tiers.reduce(
+    (current, tier) => (ratio >= tier.threshold ? tier : current),
+    tiers[0]
+  );
+
+/** Returns a description of what is wrong with the tiers, if anything. */
+export const tierProblems = (tiers: StrengthTier[]): string[] => {
+  const problems: string[] = [];
+  if (tiers.length === 0) problems.push("at least one tier is required");
+  if (tiers.length > 0 && tiers[0].threshold !== 0) {
+    problems.push("the first tier must have threshold 0");
+  }
+  tiers.forEach((tier, index) => {
+    if (index > 0 && tier.threshold <= tiers[index - 1].threshold) {
+      problems.push(
+        `tier "${tier.id}" must have a higher threshold than the one before`
+      );
+    }
+    if (tiers.findIndex(({ id }) => id === tier.id) !== index) {
+      problems.push(`tier id "${tier.id}" is used more than once`);
+    }
+  });
+  return problems;
+};
+
+/**
+ * The tier's label in the translator's language. Only the default tiers
+ * have catalog entries; custom tiers keep the label they were given.
+ */
+export const tierLabel = (tier: StrengthTier, { t }: Translator): string =>
+  DEFAULT_TIERS.includes(tier)
+    ? t(`tiers.${tier.id}`, {}, tier.label)
+    : tier.label;
@@ -0,0 +1,81 @@
+// unicode.ts
+//
+// Script-independent character handling. Classes come from Unicode general
+// categories instead of ASCII ranges, and text is split into grapheme
+// clusters, so an accented letter, a flag or a family emoji counts as the
+// one character the user typed.
+import { UnicodeNormalization } from "../../types/Types";
+
+export type CharacterClass =
+  | "uppercase"
+  | "lowercase"
+  /** Letters of scripts without case, such as CJK, Arabic or Hebrew. */
+  | "uncased"
+  | "digit"
+  /** Punctuation, symbols, spaces and emoji. */
+  | "symbol";
+
+/**
+ * Approximates extended grapheme clusters where `Intl.Segmenter` is missing
+ * (Hermes): flag pairs, then a base character with its combining marks,
+ * emoji modifiers and tags, joined into ZWJ sequences.
+ */
+const GRAPHEME_CLUSTER =
+  /\p{Regional_Indicator}{2}|\r\n|(?:[^\p{M}\u200d][\p{M}\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}]*)(?:\u200d[^\p{M}\u200d][\p{M}\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}]*)*|[\s\S]/gu;
+
+const segmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : undefined;
+
+export const graphemes = (text: string): string[] =>
+  segmenter
+    ? Array.from(segmenter.segment(text), ({ segment }) => segment)
+    : text.match(GRAPHEME_CLUSTER) ?? [];
+
+/** Length as the user sees it, in grapheme clusters. */
+export const graphemeLength = (text: string): number => graphemes(text).length;
+
+/** Class of a grapheme cluster, decided by its first code point. */
+export const characterClass = (grapheme: string): CharacterClass => {
+  if (/^[\p{Lu}\p{Lt}]/u.test(grapheme)) return "uppercase";
+  if (/^\p{Ll}/u.test(grapheme)) return "lowercase";
+  if (/^\p{L}/u.test(grapheme)) return "uncased";
+  if (/^\p{Nd}/u.test(grapheme)) return "digit";
+  return "symbol";
+};
+
+export const hasCharacterClass = (
+  text: string,
+  characterClassName: CharacterClass
+): boolean =>
+  graphemes(text).some(
+    (grapheme) => characterClass(grapheme) === characterClassName
+  );
+
+/** The first run of `length` or more identical grapheme clusters. */
+export const findRepeatedRun = (
+  text: string,
+  length = 3
+): string | undefined => {
+  const clusters = graphemes(text);
+  let start = 0;
+  for (let index = 1; index <= clusters.length; index += 1) {
+    if (index < clusters.length && clusters[index] === clusters[start]) {
+      continue;
+    }
+    if (index - start >= length) return clusters.slice(start, index).join("");
+    start = index;
+  }
+  return undefined;
+};
+
+/**
+ * Canonical (NFC) or compatibility (NFKC) form. NFKC also folds look-alikes
+ * such as full-width letters and ligatures, so "ｐａｓｓｗｏｒｄ" is checked
+ * as "password".
+ */
+export const normalizePassword = (
+  password: string,
+  form: UnicodeNormalization
+): string => password.normalize(form);
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+
+/**
+ * Audits a list of passwords against the app's password policy, e.g.
+ *
+ *   npm run audit-passwords -- --policy nist-800-63b --min-valid 95 list.txt
+ *
+ * The policy code is TypeScript, so it is compiled on load with the
+ * project's Babel preset, as Metro and Jest do. Run with --help for flags.
+ */
+
+const fs = require("fs");
+const Module = require("module");
+const babel = require("@babel/core");
+
+Module._extensions[".ts"] = (module, filename) => {
+  const { code } = babel.transformSync(fs.readFileSync(filename, "utf8"), {
+    filename,
+    babelrc: false,
+    configFile: false,
+    presets: ["babel-preset-expo"],
+  });
+  module._compile(code, filename);
+};
+
+const { main } = require("./auditPasswords.ts");
+
+// The reader went away, e.g. output piped into `head`: stop quietly.
+const isClosedPipe = (error) => error.code === "EPIPE";
+
+process.stdout.on("error", (error) => {
+  if (!isClosedPipe(error)) throw error;
+  process.exit();
+});
+
+main(process.argv.slice(2)).then(
+  (status) => {
+    process.exitCode = status;
+  },
+  (error) => {
+    if (isClosedPipe(error)) return;
+    console.error(error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,300 @@
+// auditPasswords.ts
+//
+// The command line around lib/password/audit.ts, run through
+// scripts/audit-passwords.js. Flags mirror the validator's props, so a
+// list is judged exactly as the app would judge each password typed into it.
+import { once } from "events";
+import fs from "fs";
+import readline from "readline";
+import { parseArgs } from "util";
+
+import {
+  AUDIT_FORMATS,
+  AuditFormat,
+  auditPasswords,
+  AuditOptions,
+  createAuditWriter,
+  validShare,
+} from "../lib/password/audit";
+import {
+  DEFAULT_POLICY,
+  resolvePolicy,
+} from "../lib/password/evaluatePassword";
+import { createTranslator } from "../lib/password/i18n";
+import { loadPolicyDocument } from "../lib/password/policyDocument";
+import { isPolicyPresetName } from "../lib/password/presets";
+import {
+  PasswordPolicy,
+  PolicyPresetName,
+  PolicySource,
+  UserInputs,
+} from "../types/Types";
+
+const USAGE = `Usage: npm run audit-passwords -- [options] [file]
+
+Evaluates each line of the file, or of standard input when no file or "-"
+is given, with the app's password policy.
+
+Output:
+  --format table|json|csv   Output format (default: table)
+  --summary                 Only print the distribution by level
+  --min-valid <percent>     Exit with status 1 when fewer passwords are valid
+
+Policy (the validator's props):
+  --policy <preset|file>    Preset name such as nist-800-63b, or a JSON
+                            policy document
+  --required-level <level>  Lowest level that counts as valid (default: the
+                            highest)
+  --min-length <n>
+  --require-uppercase, --require-lowercase, --require-numbers,
+  --require-special-chars, --prevent-repeated-chars,
+  --prevent-common-patterns, --prevent-sequences, --prevent-keyboard-walks,
+  --prevent-repeated-blocks, --prevent-dates <true|false>
+  --estimator rules|entropy
+  --normalization NFC|NFKC
+  --entropy-scale-bits <n>
+  --locale <code>           Language of the warnings (default: en)
+
+Personal information the passwords must not contain:
+  --username, --email, --display-name, --app-name, --birth-date <value>
+`;
+
+/** Exit status for bad flags and unreadable input. */
+const USAGE_ERROR = 2;
+
+const kebabCase = (field: string) =>
+  field.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+const BOOLEAN_FIELDS = (
+  Object.keys(DEFAULT_POLICY) as (keyof PasswordPolicy)[]
+).filter((field) => typeof DEFAULT_POLICY[field] === "boolean");
+
+const USER_INPUT_FIELDS: (keyof UserInputs)[] = [
+  "username",
+  "email",
+  "displayName",
+  "appName",
+  "birthDate",
+];
+
+const stringOption = { type: "string" } as const;
+
+const OPTIONS = {
+  format: stringOption,
+  summary: { type: "boolean" },
+  "min-valid": stringOption,
+  policy: stringOption,
+  "required-level": stringOption,
+  "min-length": stringOption,
+  estimator: stringOption,
+  normalization: stringOption,
+  "entropy-scale-bits": stringOption,
+  locale: stringOption,
+  help: { type: "boolean", short: "h" },
+  ...Object.fromEntries(
+    [...BOOLEAN_FIELDS, ...USER_INPUT_FIELDS].map((field) => [
+      kebabCase(field),
+      stringOption,
+    ])
+  ),
+} as const;
+
+class UsageError extends Error {}
+
+const oneOf = <const T extends string>(
+  flag: string,
+  value: string,
+  allowed: readonly T[]
+): T => {
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${flag} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+};
+
+const positiveNumber = (flag: string, value: string) => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new UsageError(`--${flag} must be a positive number, got ${value}`);
+  }
+  return number;
+};
+
+const basePolicy = (source: string): PolicySource => {
+  if (isPolicyPresetName(source)) return source as PolicyPresetName;
+  try {
+    return loadPolicyDocument(fs.readFileSync(source, "utf8"));
+  } catch (error) {
+    throw new UsageError(
+      (error as NodeJS.ErrnoException).code === "ENOENT"
+        ? `--policy ${source} is neither a preset nor a file`
+        : (error as Error).message
+    );
+  }
+};
+
+export interface AuditCommand {
+  file?: string;
+  format: AuditFormat;
+  summaryOnly: boolean;
+  /** Share of valid passwords required, from 0 to 1. */
+  minValid?: number;
+  options: AuditOptions;
+  help: boolean;
+}
+
+/** Turns the command line into audit options; throws a UsageError. */
+export const parseAuditCommand = (argv: string[]): AuditCommand => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: OPTIONS,
+      allowPositionals: true,
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values, positionals } = parsed;
+  const flags = values as Record<string, string | undefined>;
+  if (positionals.length > 1) {
+    throw new UsageError("Give at most one file; use - for standard input");
+  }
+
+  const overrides: Partial<PasswordPolicy> = {};
+  BOOLEAN_FIELDS.forEach((field) => {
+    const value = flags[kebabCase(field)];
+    if (value !== undefined) {
+      (overrides as Record<string, boolean>)[field] =
+        oneOf(kebabCase(field), value, ["true", "false"]) === "true";
+    }
+  });
+  if (values["min-length"] !== undefined) {
+    const minLength = positiveNumber("min-length", values["min-length"]);
+    if (!Number.isInteger(minLength)) {
+      throw new UsageError(`--min-length must be a whole number`);
+    }
+    overrides.minLength = minLength;
+  }
+  if (values.estimator !== undefined) {
+    overrides.estimator = oneOf("estimator", values.estimator, [
+      "rules",
+      "entropy",
+    ]);
+  }
+  if (values.normalization !== undefined) {
+    overrides.normalization = oneOf("normalization", values.normalization, [
+      "NFC",
+      "NFKC",
+    ]);
+  }
+  if (values["entropy-scale-bits"] !== undefined) {
+    overrides.entropyScaleBits = positiveNumber(
+      "entropy-scale-bits",
+      values["entropy-scale-bits"]
+    );
+  }
+
+  const policy = resolvePolicy(
+    values.policy === undefined ? undefined : basePolicy(values.policy),
+    overrides
+  );
+  const requiredLevel = values["required-level"];
+  if (requiredLevel !== undefined) {
+    oneOf(
+      "required-level",
+      requiredLevel,
+      policy.tiers.map(({ id }) => id)
+    );
+  }
+
+  const userInputs: UserInputs = {};
+  USER_INPUT_FIELDS.forEach((field) => {
+    const value = flags[kebabCase(field)];
+    if (value !== undefined) userInputs[field] = value;
+  });
+
+  let minValid: number | undefined;
+  if (values["min-valid"] !== undefined) {
+    minValid = Number(values["min-valid"].replace(/%$/, "")) / 100;
+    if (!(minValid >= 0 && minValid <= 1)) {
+      throw new UsageError(
+        `--min-valid must be a percentage from 0 to 100, got ${values["min-valid"]}`
+      );
+    }
+  }
+
+  const file = positionals[0];
+  return {
+    file: file === "-" ? undefined : file,
+    format: oneOf("format", values.format ?? "table", AUDIT_FORMATS),
+    summaryOnly: values.summary ?? false,
+    minValid,
+    options: {
+      policy,
+      requiredLevel,
+      userInputs,
+      translator: createTranslator(values.locale),
+    },
+    help: values.help ?? false,
+  };
+};
+
+/** Lines of the input, read as they are needed. */
+const inputLines = (file?: string): AsyncIterable<string> => {
+  // Opened up front so a missing file is a usage error, not a stream error.
+  const input = file
+    ? fs.createReadStream("", { fd: fs.openSync(file, "r") })
+    : process.stdin;
+  return readline.createInterface({ input, crlfDelay: Infinity });
+};
+
+/** Holds back the next password while standard output is catching up. */
+async function* paced(lines: AsyncIterable<string>) {
+  for await (const line of lines) {
+    if (process.stdout.writableNeedDrain) await once(process.stdout, "drain");
+    yield line;
+  }
+}
+
+/** Runs the audit and resolves to the exit status. */
+export const main = async (argv: string[]): Promise<number> => {
+  let command: AuditCommand;
+  let lines: AsyncIterable<string>;
+  try {
+    command = parseAuditCommand(argv);
+    if (command.help) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    lines = inputLines(command.file);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return USAGE_ERROR;
+  }
+
+  const write = (chunk: string) => process.stdout.write(chunk);
+  const writer = createAuditWriter(command.format, write, {
+    policy: command.options.policy,
+    includeResults: !command.summaryOnly,
+  });
+  const summary = await auditPasswords(
+    paced(lines),
+    command.options,
+    writer.result
+  );
+  writer.end(summary);
+
+  const share = validShare(summary);
+  if (command.minValid !== undefined && share < command.minValid) {
+    process.stderr.write(
+      `${(share * 100).toFixed(
+        1
+      )}% of the passwords are valid, below the required ${(
+        command.minValid * 100
+      ).toFixed(1)}%\n`
+    );
+    return 1;
+  }
+  return 0;
+};
@@ -1,25 +1,299 @@
-export type CriteriaKeys =
+import type { StyleProp, TextStyle, ViewStyle } from "react-native";
+
+import type { Colors } from "../constants/Colors";
+
+export type BuiltInCriteriaKeys =
   | "length"
   | "uppercase"
   | "lowercase"
   | "numbers"
   | "specialChars"
   | "noRepeatedChars"
-  | "noCommonPatterns";
+  | "noCommonPatterns"
+  | "noSequences"
+  | "noKeyboardWalks"
+  | "noRepeatedBlocks"
+  | "noDates"
+  | "noPersonalInfo"
+  | "noPasswordReuse";
 
-export type StrengthCriteria = {
-  [key in CriteriaKeys]: boolean;
-};
+/** Ids of the built-in rules plus any custom rule id. */
+export type CriteriaKeys = BuiltInCriteriaKeys | (string & {});
+
+/** Outcome of each applicable rule, keyed by rule id. */
+export type StrengthCriteria = { [key in CriteriaKeys]?: boolean };
+
+/** `notApplicable` rules are disabled by the policy or do not apply to the input. */
+export type RuleStatus = "passed" | "failed" | "notApplicable";
+
+export type RuleStatuses = { [key in CriteriaKeys]?: RuleStatus };
+
+/** Id of a strength tier; the default tiers are Weak, Medium and Strong. */
+export type StrengthLevel = "Weak" | "Medium" | "Strong" | (string & {});
+
+export interface StrengthTier {
+  id: StrengthLevel;
+  /** Minimum fill of the strength bar, from 0 to 1, to reach this tier. */
+  threshold: number;
+  label: string;
+  color: { light: string; dark: string };
+  /** Feather icon name shown next to the label. */
+  icon?: string;
+}
 
 export interface PasswordStrength {
-  level: "Weak" | "Medium" | "Strong";
+  level: StrengthLevel;
+  tier: StrengthTier;
   score: number;
   maxScore: number;
+  /** Pass or fail for each rule that applies; other rules are left out. */
   criteria: StrengthCriteria;
+  /** The status of every rule in the policy. */
+  status: RuleStatuses;
+  entropyBits?: number;
+  crackTimeSeconds?: number;
+  crackTimeDisplay?: string;
+  dictionaryMatch?: DictionaryMatch;
+  personalInfoMatch?: PersonalInfoMatch;
+  /** Sequences, keyboard walks, repeated blocks and dates found in the password. */
+  patternMatches?: PatternMatch[];
+  /** The current or a previous password the new one repeats or resembles. */
+  reuseMatch?: PasswordReuseMatch;
+  /** The most important problem with the password, if any. */
+  warning?: string;
+  /** What to change, most helpful first. */
+  suggestions: StrengthSuggestion[];
+  /** Asynchronous rules are still running; they count as failed until they settle. */
+  pending?: boolean;
 }
 
-export interface PasswordStrengthValidatorProps {
-  onStrengthChange?: (strength: PasswordStrength) => void;
+export interface StrengthSuggestion {
+  /** Id of the rule it addresses, or "entropy" for the length hint. */
+  id: CriteriaKeys;
+  message: string;
+  /** Rise in the strength bar fill, from 0 to 1, once it is followed. */
+  gain: number;
+}
+
+export interface DictionaryMatch {
+  dictionary: string;
+  label: string;
+  word?: string;
+  leetspeak: boolean;
+}
+
+export type PatternKind = "sequence" | "keyboard" | "block" | "date";
+
+export type KeyboardLayoutName = "qwerty" | "azerty" | "qwertz";
+
+export interface PatternMatch {
+  kind: PatternKind;
+  /** UTF-16 offsets into the normalised password; `end` is exclusive. */
+  start: number;
+  end: number;
+  token: string;
+  /** The layout a keyboard walk was found on. */
+  layout?: KeyboardLayoutName;
+}
+
+export interface DictionaryProvider {
+  name: string;
+  label: string;
+  find: (password: string) => DictionaryMatch | undefined;
+}
+
+export type StrengthEstimator = "rules" | "entropy";
+
+/** Unicode form passwords are brought into before they are evaluated. */
+export type UnicodeNormalization = "NFC" | "NFKC";
+
+export interface UserInputs {
+  username?: string;
+  email?: string;
+  displayName?: string;
+  /** A `Date` or an ISO `YYYY-MM-DD` string. */
+  birthDate?: string | Date;
+  appName?: string;
+}
+
+export interface PersonalInfoMatch {
+  field: keyof UserInputs;
+  reversed: boolean;
+}
+
+/**
+ * A password as a salted hash, never in plain text: the upper-case hex
+ * SHA-256 of `salt` followed by the NFKC-normalised password, or with
+ * `iterations`, the PBKDF2-HMAC-SHA256 of the normalised password.
+ */
+export interface PasswordHash {
+  salt: string;
+  hash: string;
+  /** PBKDF2 rounds; absent for a single SHA-256. */
+  iterations?: number;
+}
+
+export interface PasswordReuseMatch {
+  /** Whether it was `currentPassword` or one of `previousPasswords`. */
+  source: "current" | "history";
+  /** The same password rather than a small variation of it. */
+  exact: boolean;
+}
+
+/**
+ * Per-user data the evaluation checks against and reports in, as opposed
+ * to policy.
+ */
+export interface EvaluationContext {
+  userInputs?: UserInputs;
+  /** Earlier passwords the new one must not repeat or vary slightly. */
+  previousPasswords?: PasswordHash[];
+  /** The password being replaced; the new one must not closely resemble it. */
+  currentPassword?: string;
+  /** Language of labels, suggestions and warnings. Defaults to English. */
+  translator?: Translator;
+  /** Aborted once the result is no longer wanted; asynchronous rules may stop early. */
+  signal?: AbortSignal;
+}
+
+/** Returns a uniformly distributed unsigned 32-bit integer on each call. */
+export type RandomSource = () => number;
+
+export interface RuleContext extends EvaluationContext {
+  policy: PasswordPolicy;
+  translator: Translator;
+}
+
+export type PluralCategory = "zero" | "one" | "two" | "few" | "many" | "other";
+
+/** Message templates keyed by id, e.g. `rules.length.label`. */
+export type Messages = { [key: string]: string };
+
+export type MessageParams = { [name: string]: string | number | boolean };
+
+export interface Locale {
+  /** BCP 47 code, e.g. `en` or `ar`. */
+  code: string;
+  direction: "ltr" | "rtl";
+  pluralCategory: (count: number) => PluralCategory;
+  messages: Messages;
+}
+
+export interface Translator {
+  locale: Locale;
+  /** Formats the message `key`, or `fallback` when no catalog defines it. */
+  t: (key: string, params?: MessageParams, fallback?: string) => string;
+  /** Formats a template with this locale's plural rules. */
+  format: (template: string, params?: MessageParams) => string;
+}
+
+/** Findings a rule can attach to the result to explain why it failed. */
+export type RuleMatches = Pick<
+  PasswordStrength,
+  "dictionaryMatch" | "personalInfoMatch" | "patternMatches" | "reuseMatch"
+>;
+
+export interface RuleOutcome {
+  passed: boolean;
+  matches?: RuleMatches;
+}
+
+export interface PasswordRule {
+  id: CriteriaKeys;
+  label: string | ((policy: PasswordPolicy, translator: Translator) => string);
+  /** Contribution to `score` when the rule passes. */
+  weight: number;
+  /** A failing mandatory rule caps the result at the first tier. */
+  mandatory?: boolean;
+  /** Rules that do not apply are left out of `criteria` and `maxScore`. */
+  applies?: (context: RuleContext) => boolean;
+  /** May return a promise for expensive or remote checks. */
+  test: (
+    password: string,
+    context: RuleContext
+  ) => boolean | RuleOutcome | Promise<boolean | RuleOutcome>;
+  /** What to do when the rule fails; the label is used when omitted. */
+  suggestion?:
+    | string
+    | ((
+        password: string,
+        context: RuleContext,
+        matches: RuleMatches
+      ) => string);
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSpecialChars: boolean;
+  preventRepeatedChars: boolean;
+  preventCommonPatterns: boolean;
+  preventSequences: boolean;
+  preventKeyboardWalks: boolean;
+  preventRepeatedBlocks: boolean;
+  preventDates: boolean;
+  estimator: StrengthEstimator;
+  /** NFKC also folds full-width and other compatibility characters. */
+  normalization: UnicodeNormalization;
+  dictionaries: DictionaryProvider[];
+  rules: PasswordRule[];
+  /** Ordered by ascending threshold; a failed mandatory rule gives the first. */
+  tiers: StrengthTier[];
+  /** Entropy that fills the strength bar with the entropy estimator. */
+  entropyScaleBits: number;
+  /** Label overrides keyed by rule id; `{minLength}` style fields interpolate. */
+  messages: { [key in CriteriaKeys]?: string };
+  /** Set when the policy was resolved from a named preset. */
+  preset?: Pick<PolicyPreset, "id" | "version">;
+}
+
+export type PolicyPresetId = "nist-800-63b" | "owasp-asvs" | "pci-dss";
+
+/** A preset id, optionally pinned to a version: `pci-dss@4.0`. */
+export type PolicyPresetName = PolicyPresetId | `${PolicyPresetId}@${string}`;
+
+export interface PolicyPreset {
+  id: PolicyPresetId;
+  version: string;
+  name: string;
+  description: string;
+  policy: Partial<PasswordPolicy>;
+}
+
+/** Settings a policy document may change on a built-in rule. */
+export interface PolicyDocumentRuleConfig {
+  enabled?: boolean;
+  weight?: number;
+  mandatory?: boolean;
+}
+
+/** A rule declared in JSON: the password must (or must not) match a pattern. */
+export interface PolicyDocumentCustomRule {
+  id: string;
+  label: string;
+  pattern: string;
+  flags?: string;
+  match: "required" | "forbidden";
+  weight?: number;
+  mandatory?: boolean;
+}
+
+export interface PolicyDocumentBlocklist {
+  name: string;
+  label?: string;
+  words: string[];
+}
+
+/**
+ * Declarative password policy, as stored in configuration. Described by
+ * `lib/password/policySchema.json`.
+ */
+export interface PolicyDocument {
+  $schema?: string;
+  version: 1;
+  extends?: PolicyPresetName;
   minLength?: number;
   requireUppercase?: boolean;
   requireLowercase?: boolean;
@@ -27,4 +301,175 @@ export interface PasswordStrengthValidatorProps {
   requireSpecialChars?: boolean;
   preventRepeatedChars?: boolean;
   preventCommonPatterns?: boolean;
-}
\ No newline at end of file
+  preventSequences?: boolean;
+  preventKeyboardWalks?: boolean;
+  preventRepeatedBlocks?: boolean;
+  preventDates?: boolean;
+  estimator?: StrengthEstimator;
+  normalization?: UnicodeNormalization;
+  rules?: { [key in BuiltInCriteriaKeys]?: PolicyDocumentRuleConfig };
+  customRules?: PolicyDocumentCustomRule[];
+  tiers?: StrengthTier[];
+  entropyScaleBits?: number;
+  messages?: { [key in CriteriaKeys]?: string };
+  /** Use the bundled common-password list and breach corpus. Defaults to true. */
+  bundledBlocklists?: boolean;
+  blocklists?: PolicyDocumentBlocklist[];
+}
+
+export interface PolicyValidationError {
+  /** JSON Pointer to the offending value, e.g. `/rules/length/weight`. */
+  path: string;
+  message: string;
+}
+
+/** Anything a policy can be resolved from: a preset name or policy fields. */
+export type PolicySource = PolicyPresetName | Partial<PasswordPolicy>;
+
+/** `partial` while the confirmation is still a prefix of the password. */
+export type PasswordMatchStatus = "empty" | "partial" | "match" | "mismatch";
+
+export type ThemeColorName = keyof typeof Colors.light &
+  keyof typeof Colors.dark;
+
+/** Per-scheme colours that replace a theme token, as `useThemeColor` takes. */
+export type ThemeColorOverrides = {
+  [name in ThemeColorName]?: { light?: string; dark?: string };
+};
+
+/** Style overrides for each part of the validator, merged over the defaults. */
+export interface PasswordStrengthValidatorStyles {
+  container?: StyleProp<ViewStyle>;
+  header?: StyleProp<TextStyle>;
+  input?: StyleProp<TextStyle>;
+  toggle?: StyleProp<ViewStyle>;
+  suggest?: StyleProp<TextStyle>;
+  match?: StyleProp<TextStyle>;
+  strengthBar?: StyleProp<ViewStyle>;
+  strengthBarFill?: StyleProp<ViewStyle>;
+  strengthLabel?: StyleProp<TextStyle>;
+  crackTime?: StyleProp<TextStyle>;
+  warning?: StyleProp<TextStyle>;
+  suggestion?: StyleProp<TextStyle>;
+  criteria?: StyleProp<TextStyle>;
+  explanation?: StyleProp<TextStyle>;
+}
+
+export interface PasswordStrengthValidatorProps
+  extends Partial<Omit<PasswordPolicy, "preset">>,
+    EvaluationContext {
+  /** Controlled password; leave undefined to let the component own it. */
+  value?: string;
+  onChangeText?: (text: string) => void;
+  /** Controlled confirmation, used with `confirmPassword`. */
+  confirmValue?: string;
+  onConfirmChangeText?: (text: string) => void;
+  onStrengthChange?: (strength: PasswordStrength) => void;
+  /** Renders a second input the password has to be repeated in. */
+  confirmPassword?: boolean;
+  onMatchChange?: (status: PasswordMatchStatus) => void;
+  /**
+   * Lowest tier that counts as valid; defaults to the highest tier. A password
+   * that fails the length rule or a mandatory rule is invalid at any tier.
+   */
+  requiredLevel?: StrengthLevel;
+  /** Called when the strength and, if asked for, the match become acceptable or stop being so. */
+  onValidityChange?: (valid: boolean) => void;
+  /** Base policy; the individual policy props override its fields. */
+  policy?: PolicySource;
+  /** A locale code such as `es` or `ar-EG`, or a custom catalog. */
+  locale?: string | Locale;
+  /** Replaces individual messages of the locale, keyed by message id. */
+  messageOverrides?: Messages;
+  /** Milliseconds to wait after the last keystroke before evaluating; 0 evaluates at once. */
+  evaluationDelay?: number;
+  /** What "Suggest a strong password" fills in; `false` hides the action. */
+  generator?: "password" | "passphrase" | false;
+  /** Randomness for suggestions; defaults to the platform CSPRNG. */
+  random?: RandomSource;
+  styles?: PasswordStrengthValidatorStyles;
+  /** Replaces theme tokens from `constants/Colors.ts` for this instance. */
+  colors?: ThemeColorOverrides;
+  /**
+   * Called when the return key is pressed in the last input. With
+   * `confirmPassword`, the password input moves on to the confirmation.
+   */
+  onSubmitEditing?: () => void;
+}
+
+export interface PasswordFieldError {
+  type: "required" | "strength" | "mismatch";
+  message: string;
+}
+
+/** A password judged as a form field, in form-library terms. */
+export interface PasswordFieldValidation {
+  isValid: boolean;
+  errors: PasswordFieldError[];
+  strength: PasswordStrength;
+}
+
+/** Imperative handle exposed through the validator's `ref`. */
+export interface PasswordStrengthValidatorHandle {
+  focus: () => void;
+  /** Empties the password and confirmation, via `onChangeText` when controlled. */
+  clear: () => void;
+  /** The evaluation of the current password. */
+  getStrength: () => PasswordStrength;
+}
+
+export interface SignUpRequest {
+  email: string;
+  password: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ResetPasswordRequest {
+  /** The token from the reset link. */
+  token: string;
+  password: string;
+}
+
+export type AuthErrorCode =
+  | "invalidEmail"
+  | "emailTaken"
+  | "notSignedIn"
+  | "wrongPassword"
+  | "invalidToken"
+  | "passwordRejected";
+
+/** One reason the server refused a password. */
+export interface PasswordRejection {
+  /** Id of the rule it failed; ids the client has no rule for are server-only checks. */
+  rule: CriteriaKeys;
+  /** The server's label for the rule, e.g. "Minimum length (12)". */
+  message: string;
+}
+
+/** The body of a failed auth request, as the server sends it. */
+export interface AuthErrorDetails {
+  code: AuthErrorCode;
+  message: string;
+  /** With `passwordRejected`, every rule the password failed on the server. */
+  rejections?: PasswordRejection[];
+}
+
+/**
+ * The backend behind the sign-up, change-password and reset-password
+ * screens. Calls reject with an AuthError whose message can be shown as is.
+ */
+export interface AuthService {
+  /** Creates the account and signs it in. */
+  signUp: (request: SignUpRequest) => Promise<void>;
+  /** Changes the signed-in account's password. */
+  changePassword: (request: ChangePasswordRequest) => Promise<void>;
+  /** Sends a reset link if the address belongs to an account. */
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (request: ResetPasswordRequest) => Promise<void>;
+  /** Email of the signed-in account, for services that know the session. */
+  currentUser?: () => string | undefined;
+}